@@ -98,13 +98,70 @@ describe('PropertyCard', () => {
     expect(wrapper.text()).toContain('徒歩5分')
   })
 
+  it('バス利用の場合はバスとバス停からの徒歩分数が表示される', () => {
+    const wrapper = mount(PropertyCard, {
+      ...mountOptions,
+      props: {
+        property: {
+          ...mockProperty,
+          nearest_stations: [{ line: '東急東横線', station: '中目黒', walkMinutes: 3, busMinutes: 10 }],
+        },
+      },
+    })
+    expect(wrapper.text()).toContain('バス10分 停歩3分')
+  })
+
   it('猫飼育可のバッジが表示される', () => {
     const wrapper = mount(PropertyCard, mountOptions)
     expect(wrapper.text()).toContain('猫OK')
   })
 
+  it('猫飼育が相談の場合は「猫相談」のバッジが表示される', () => {
+    const wrapper = mount(PropertyCard, {
+      ...mountOptions,
+      props: {
+        property: {
+          ...mockProperty,
+          pet_conditions: { cat: 'negotiable', catAllowed: true },
+        },
+      },
+    })
+    expect(wrapper.text()).toContain('猫相談')
+    expect(wrapper.text()).not.toContain('猫OK')
+  })
+
+  it('所在階が表示される', () => {
+    const wrapper = mount(PropertyCard, mountOptions)
+    expect(wrapper.text()).toContain('5階')
+  })
+
   it('住所が表示される', () => {
     const wrapper = mount(PropertyCard, mountOptions)
     expect(wrapper.text()).toContain('東京都渋谷区')
   })
+
+  it('同じ部屋の他のサイトの掲載へのリンクが表示される', () => {
+    const wrapper = mount(PropertyCard, {
+      ...mountOptions,
+      props: {
+        property: mockProperty,
+        otherListings: [
+          { id: '2', canonical_id: '1', source: 'homes', source_url: 'https://www.homes.co.jp/chintai/room/2/' },
+          { id: '3', canonical_id: '1', source: 'other', source_url: 'https://neko-no-te.example.jp/rent/3/' },
+        ],
+      },
+    })
+    const links = wrapper.findAll('a[target="_blank"]')
+    expect(wrapper.text()).toContain('他のサイトでも掲載')
+    expect(links).toHaveLength(2)
+    expect(links[0].text()).toContain('HOME\'S')
+    // 表示名のないサイトはホスト名を表示する
+    expect(links[1].text()).toContain('neko-no-te.example.jp')
+    expect(links[0].attributes('href')).toBe('https://www.homes.co.jp/chintai/room/2/')
+  })
+
+  it('他のサイトの掲載がない場合はリンクを表示しない', () => {
+    const wrapper = mount(PropertyCard, mountOptions)
+    expect(wrapper.text()).not.toContain('他のサイトでも掲載')
+  })
 })
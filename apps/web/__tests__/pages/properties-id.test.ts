@@ -87,11 +87,21 @@ const sampleProperty: PropertyRow = {
   rent: 150000,
   management_fee: 10000,
   deposit: 150000,
+  deposit_months: 1,
   key_money: 150000,
+  key_money_months: null,
+  guarantee_deposit: 0,
+  deposit_amortization: 0,
   floor_plan: '2LDK',
+  room_sizes: [
+    { type: 'ldk', size: 12 },
+    { type: 'western', size: 6 },
+    { type: 'western', size: 5.5 },
+  ],
   area: 55.5,
   building_type: 'mansion',
   floor: 8,
+  building_floors: 10,
   year_built: 2018,
   pet_conditions: { catAllowed: true, catLimit: 2 },
   features: ['オートロック', 'バス・トイレ別', '宅配ボックス'],
@@ -177,6 +187,19 @@ describe('PropertyDetailPage', () => {
     expect(wrapper.text()).toContain('礼金')
   })
 
+  it('月数表記の敷金は月数と金額が表示される', async () => {
+    const wrapper = await mountPage()
+
+    expect(wrapper.text()).toContain('1ヶ月（15万円）')
+  })
+
+  it('保証金・敷引がない場合は表示されない', async () => {
+    const wrapper = await mountPage()
+
+    expect(wrapper.text()).not.toContain('保証金')
+    expect(wrapper.text()).not.toContain('敷引・償却')
+  })
+
   it('間取りと面積が表示される', async () => {
     const wrapper = await mountPage()
 
@@ -184,6 +207,12 @@ describe('PropertyDetailPage', () => {
     expect(wrapper.text()).toContain('55.5m²')
   })
 
+  it('部屋ごとの広さが表示される', async () => {
+    const wrapper = await mountPage()
+
+    expect(wrapper.text()).toContain('LDK12帖 / 洋室6帖 / 洋室5.5帖')
+  })
+
   it('住所が表示される', async () => {
     const wrapper = await mountPage()
 
@@ -204,10 +233,37 @@ describe('PropertyDetailPage', () => {
     expect(wrapper.text()).toContain('2018年築')
   })
 
-  it('階数が表示される', async () => {
+  it('所在階と建物の階数が表示される', async () => {
+    const wrapper = await mountPage()
+
+    expect(wrapper.text()).toContain('8階 / 10階建')
+  })
+
+  it('ペット飼育時の費用が表示される', async () => {
+    mockFetchPropertyById.mockResolvedValue({
+      ...sampleProperty,
+      pet_conditions: { catAllowed: true, additionalDeposit: 150000, monthlyFee: 3000, cleaningFee: 30000 },
+    })
+    const wrapper = await mountPage()
+
+    expect(wrapper.text()).toContain('ペット飼育時の費用')
+    expect(wrapper.text()).toContain('15万円')
+    expect(wrapper.text()).toContain('3,000円 / 月')
+    expect(wrapper.text()).toContain('退去時クリーニング費')
+    expect(wrapper.text()).not.toContain('敷金償却')
+  })
+
+  it('ペット飼育時の費用の記載がない場合は表示されない', async () => {
+    const wrapper = await mountPage()
+
+    expect(wrapper.text()).not.toContain('ペット飼育時の費用')
+  })
+
+  it('地下の所在階は「地下N階」と表示される', async () => {
+    mockFetchPropertyById.mockResolvedValue({ ...sampleProperty, floor: -1 })
     const wrapper = await mountPage()
 
-    expect(wrapper.text()).toContain('8階')
+    expect(wrapper.text()).toContain('地下1階 / 10階建')
   })
 
   it('設備・特徴が表示される', async () => {
@@ -2,12 +2,13 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { mount, flushPromises } from '@vue/test-utils'
 import { defineComponent, h, ref } from 'vue'
 import PropertiesIndexPage from '../../app/pages/properties/index.vue'
-import type { PropertyRow } from '../../app/types/database.types'
+import type { PropertyListingRow, PropertyRow } from '../../app/types/database.types'
 
 // グローバルモック
 const mockLoading = ref(false)
 const mockError = ref<string | null>(null)
 const mockProperties = ref<PropertyRow[]>([])
+const mockOtherListings = ref<Record<string, PropertyListingRow[]>>({})
 const mockTotal = ref(0)
 const mockPage = ref(1)
 const mockPerPage = ref(20)
@@ -27,6 +28,9 @@ vi.mock('~/stores/property', () => ({
     get properties() {
       return mockProperties.value
     },
+    get otherListings() {
+      return mockOtherListings.value
+    },
     get total() {
       return mockTotal.value
     },
@@ -4,6 +4,8 @@ import { usePropertyStore } from '../../app/stores/property'
 
 // Supabaseクライアントのモック
 const mockEq = vi.fn().mockReturnThis()
+const mockIs = vi.fn().mockReturnThis()
+const mockIn = vi.fn().mockResolvedValue({ data: [], error: null })
 const mockGte = vi.fn().mockReturnThis()
 const mockLte = vi.fn().mockReturnThis()
 const mockOrder = vi.fn().mockReturnThis()
@@ -11,6 +13,8 @@ const mockRange = vi.fn().mockResolvedValue({ data: [], error: null, count: 0 })
 
 const mockSelect = vi.fn(() => ({
   eq: mockEq,
+  is: mockIs,
+  in: mockIn,
   gte: mockGte,
   lte: mockLte,
   order: mockOrder,
@@ -33,6 +37,7 @@ describe('usePropertyStore', () => {
     vi.clearAllMocks()
     // モックチェーンをリセット
     mockEq.mockReturnThis()
+    mockIs.mockReturnThis()
     mockGte.mockReturnThis()
     mockLte.mockReturnThis()
     mockOrder.mockReturnValue({
@@ -144,5 +149,40 @@ describe('usePropertyStore', () => {
 
       expect(mockLte).toHaveBeenCalledWith('rent', 100000)
     })
+
+    it('複数のサイトに掲載された部屋は代表の物件だけを取得する', async () => {
+      const store = usePropertyStore()
+      await store.fetchProperties()
+
+      expect(mockIs).toHaveBeenCalledWith('canonical_id', null)
+    })
+  })
+
+  describe('fetchProperties 他のサイトの掲載', () => {
+    it('代表の物件ごとに他のサイトの掲載をまとめる', async () => {
+      mockRange.mockResolvedValueOnce({ data: [{ id: '1' }, { id: '2' }], error: null, count: 2 })
+      mockIn.mockResolvedValueOnce({
+        data: [
+          { id: '3', canonical_id: '1', source: 'homes', source_url: 'https://www.homes.co.jp/chintai/room/3/' },
+          { id: '4', canonical_id: '1', source: 'nifty', source_url: 'https://myhome.nifty.com/rent/4/' },
+        ],
+        error: null,
+      })
+
+      const store = usePropertyStore()
+      await store.fetchProperties()
+
+      expect(mockIn).toHaveBeenCalledWith('canonical_id', ['1', '2'])
+      expect(store.otherListings['1']?.map(l => l.source)).toEqual(['homes', 'nifty'])
+      expect(store.otherListings['2']).toBeUndefined()
+    })
+
+    it('物件がない場合は他のサイトの掲載を取得しない', async () => {
+      const store = usePropertyStore()
+      await store.fetchProperties()
+
+      expect(mockIn).not.toHaveBeenCalled()
+      expect(store.otherListings).toEqual({})
+    })
   })
 })
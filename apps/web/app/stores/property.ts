@@ -1,5 +1,5 @@
 import { defineStore } from 'pinia'
-import type { Database, PropertyRow } from '~/types/database.types'
+import type { Database, PropertyListingRow, PropertyRow } from '~/types/database.types'
 
 /** 物件検索パラメータ */
 export interface PropertySearchParams {
@@ -16,6 +16,8 @@ export interface PropertySearchParams {
 /** 物件ストアの状態 */
 interface PropertyState {
   properties: PropertyRow[]
+  /** 同じ部屋の他のサイトの掲載（キー: 代表の物件ID） */
+  otherListings: Record<string, PropertyListingRow[]>
   loading: boolean
   error: string | null
   total: number
@@ -26,6 +28,7 @@ interface PropertyState {
 export const usePropertyStore = defineStore('property', {
   state: (): PropertyState => ({
     properties: [],
+    otherListings: {},
     loading: false,
     error: null,
     total: 0,
@@ -58,6 +61,8 @@ export const usePropertyStore = defineStore('property', {
           .from('properties')
           .select('*', { count: 'exact' })
           .eq('is_active', true)
+          // 複数のサイトに掲載された部屋は代表の物件だけを表示する
+          .is('canonical_id', null)
 
         // 検索条件の適用
         if (params.prefecture) {
@@ -83,6 +88,7 @@ export const usePropertyStore = defineStore('property', {
         if (error) throw error
 
         this.properties = (data ?? []) as PropertyRow[]
+        this.otherListings = await this.fetchOtherListings(this.properties.map(p => p.id))
         this.total = count ?? 0
         this.page = page
         this.perPage = perPage
@@ -94,6 +100,27 @@ export const usePropertyStore = defineStore('property', {
       }
     },
 
+    /** 代表の物件と同じ部屋の他のサイトの掲載を取得 */
+    async fetchOtherListings(ids: string[]): Promise<Record<string, PropertyListingRow[]>> {
+      if (ids.length === 0) return {}
+
+      const client = useSupabaseClient<Database>()
+      const { data, error } = await client
+        .from('properties')
+        .select('id, canonical_id, source, source_url')
+        .eq('is_active', true)
+        .in('canonical_id', ids)
+
+      if (error) throw error
+
+      const listings: Record<string, PropertyListingRow[]> = {}
+      for (const row of (data ?? []) as PropertyListingRow[]) {
+        if (!row.canonical_id) continue
+        listings[row.canonical_id] = [...(listings[row.canonical_id] ?? []), row]
+      }
+      return listings
+    },
+
     /** 物件詳細を取得 */
     async fetchPropertyById(id: string): Promise<PropertyRow | null> {
       this.loading = true
@@ -127,6 +154,7 @@ export const usePropertyStore = defineStore('property', {
     /** ストアをリセット */
     reset() {
       this.properties = []
+      this.otherListings = {}
       this.loading = false
       this.error = null
       this.total = 0
@@ -12,14 +12,26 @@ export interface Database {
           address: string
           prefecture: string
           city: string
+          ward: string | null
+          town: string | null
+          block: string | null
+          latitude: number | null
+          longitude: number | null
+          geocode_precision: string | null
           rent: number
           management_fee: number
           deposit: number
+          deposit_months: number | null
           key_money: number
+          key_money_months: number | null
+          guarantee_deposit: number
+          deposit_amortization: number
           floor_plan: string | null
+          room_sizes: RoomSizeJson[]
           area: number | null
           building_type: string | null
           floor: number | null
+          building_floors: number | null
           year_built: number | null
           direction: string | null
           pet_conditions: PetConditionsJson
@@ -28,6 +40,7 @@ export interface Database {
           images: string[]
           source_url: string
           is_active: boolean
+          canonical_id: string | null
           first_seen_at: string
           last_seen_at: string
           created_at: string
@@ -41,14 +54,26 @@ export interface Database {
           address: string
           prefecture: string
           city: string
+          ward: string | null
+          town: string | null
+          block: string | null
+          latitude: number | null
+          longitude: number | null
+          geocode_precision: string | null
           rent: number
           management_fee?: number
           deposit?: number
+          deposit_months?: number | null
           key_money?: number
+          key_money_months?: number | null
+          guarantee_deposit?: number
+          deposit_amortization?: number
           floor_plan?: string | null
+          room_sizes?: RoomSizeJson[]
           area?: number | null
           building_type?: string | null
           floor?: number | null
+          building_floors?: number | null
           year_built?: number | null
           direction?: string | null
           pet_conditions?: PetConditionsJson
@@ -57,6 +82,7 @@ export interface Database {
           images?: string[]
           source_url: string
           is_active?: boolean
+          canonical_id?: string | null
           first_seen_at?: string
           last_seen_at?: string
           created_at?: string
@@ -70,14 +96,26 @@ export interface Database {
           address?: string
           prefecture?: string
           city?: string
+          ward?: string | null
+          town?: string | null
+          block?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          geocode_precision?: string | null
           rent?: number
           management_fee?: number
           deposit?: number
+          deposit_months?: number | null
           key_money?: number
+          key_money_months?: number | null
+          guarantee_deposit?: number
+          deposit_amortization?: number
           floor_plan?: string | null
+          room_sizes?: RoomSizeJson[]
           area?: number | null
           building_type?: string | null
           floor?: number | null
+          building_floors?: number | null
           year_built?: number | null
           direction?: string | null
           pet_conditions?: PetConditionsJson
@@ -86,6 +124,7 @@ export interface Database {
           images?: string[]
           source_url?: string
           is_active?: boolean
+          canonical_id?: string | null
           first_seen_at?: string
           last_seen_at?: string
           created_at?: string
@@ -102,23 +141,43 @@ export interface Database {
 
 /** ペット条件（JSONB） */
 export interface PetConditionsJson {
+  cat?: PetPermissionJson
+  dog?: PetPermissionJson
   catAllowed?: boolean
   catLimit?: number | null
   dogAllowed?: boolean
+  dogLimit?: number | null
   smallDogOnly?: boolean
   additionalDeposit?: number | null
+  monthlyFee?: number | null
+  depositAmortization?: number | null
+  cleaningFee?: number | null
   notes?: string | null
 }
 
+/** ペット飼育の可否（allowed: 可, negotiable: 相談, forbidden: 不可, unknown: 記載なし） */
+export type PetPermissionJson = 'allowed' | 'negotiable' | 'forbidden' | 'unknown'
+
 /** 最寄り駅情報（JSONB） */
 export interface NearestStationJson {
   line: string
   station: string
   walkMinutes?: number | null
   busMinutes?: number | null
+  lineId?: string | null
+  stationId?: string | null
+}
+
+/** 部屋ごとの広さ（JSONB） */
+export interface RoomSizeJson {
+  type: 'western' | 'japanese' | 'ldk' | 'dk' | 'k' | 'storage'
+  size: number
 }
 
 /** 物件行の型エイリアス */
 export type PropertyRow = Database['public']['Tables']['properties']['Row']
 export type PropertyInsert = Database['public']['Tables']['properties']['Insert']
 export type PropertyUpdate = Database['public']['Tables']['properties']['Update']
+
+/** 同じ部屋の他のサイトの掲載（canonical_id が代表の物件ID の行） */
+export type PropertyListingRow = Pick<PropertyRow, 'id' | 'canonical_id' | 'source' | 'source_url'>
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { parseNearestStations, resolveStation } from '../stations/access-parser'
+import { RAIL_LINES, STATIONS } from '../stations/master'
+
+describe('parseNearestStations', () => {
+  it('「路線/駅 歩N分」形式を解析できる', () => {
+    expect(parseNearestStations('JR山手線/渋谷駅 歩5分')).toEqual([{
+      line: 'JR山手線',
+      station: '渋谷',
+      walkMinutes: 5,
+      busMinutes: null,
+      lineId: 'jr-yamanote',
+      stationId: 'shibuya',
+    }])
+  })
+
+  it('「路線 駅 徒歩N分」形式を解析できる', () => {
+    const [station] = parseNearestStations('東京メトロ丸ノ内線 西新宿駅 徒歩3分')
+
+    expect(station).toMatchObject({ line: '東京メトロ丸ノ内線', station: '西新宿', walkMinutes: 3 })
+    expect(station.stationId).toBe('nishi-shinjuku')
+  })
+
+  it('駅名をかぎ括弧で囲む形式を解析できる', () => {
+    const [station] = parseNearestStations('ＪＲ山手線「恵比寿」駅 徒歩１２分')
+
+    expect(station).toMatchObject({ line: 'JR山手線', station: '恵比寿', walkMinutes: 12, stationId: 'ebisu' })
+  })
+
+  it('バスとバス停からの徒歩を解析できる', () => {
+    const [station] = parseNearestStations('東急東横線/中目黒駅 バス10分 (バス停)中目黒二丁目 歩3分')
+
+    expect(station).toMatchObject({ station: '中目黒', busMinutes: 10, walkMinutes: 3 })
+  })
+
+  it('改行区切りと配列の複数駅を解析できる', () => {
+    expect(parseNearestStations('JR山手線/渋谷駅 歩5分\n東京メトロ銀座線/表参道駅 歩8分')).toHaveLength(2)
+    expect(parseNearestStations(['JR山手線 新宿駅 徒歩5分', '', '都営大江戸線 都庁前駅 徒歩6分'])).toHaveLength(2)
+  })
+
+  it('路線の表記ゆれを同じ路線IDに揃える', () => {
+    const ids = ['ＪＲ山手線/渋谷駅 歩5分', '山手線/渋谷駅 歩5分', 'JR 山手線 渋谷駅 徒歩5分']
+      .map(text => parseNearestStations(text)[0].lineId)
+
+    expect(ids).toEqual(['jr-yamanote', 'jr-yamanote', 'jr-yamanote'])
+  })
+
+  it('路線のない形式は駅のみ解析する', () => {
+    expect(parseNearestStations('渋谷駅 徒歩5分')[0]).toMatchObject({ line: '', station: '渋谷', stationId: 'shibuya' })
+  })
+
+  it('駅を含まないテキストは無視する', () => {
+    expect(parseNearestStations('車で10分')).toEqual([])
+  })
+})
+
+describe('resolveStation', () => {
+  it('マスタにない路線・駅は ID を null にする', () => {
+    expect(resolveStation('ゆりかもめ', 'お台場海浜公園駅')).toEqual({
+      line: 'ゆりかもめ',
+      station: 'お台場海浜公園',
+      lineId: null,
+      stationId: null,
+    })
+  })
+
+  it('「ヶ」「ケ」の表記ゆれを同じ駅として扱う', () => {
+    expect(resolveStation('JR中央線', '阿佐ヶ谷').stationId).toBe('asagaya')
+    expect(resolveStation('東急東横線', '自由ヶ丘').station).toBe('自由が丘')
+  })
+})
+
+describe('路線・駅マスタ', () => {
+  it('路線の表記は重複しない', () => {
+    const names = RAIL_LINES.flatMap(l => [l.name, ...l.aliases].map(n => n.normalize('NFKC')))
+
+    expect(new Set(names).size).toBe(names.length)
+  })
+
+  it('駅の路線IDはすべて路線マスタに存在する', () => {
+    const lineIds = new Set(RAIL_LINES.map(l => l.id))
+
+    expect(STATIONS.flatMap(s => s.lineIds).filter(id => !lineIds.has(id))).toEqual([])
+  })
+})
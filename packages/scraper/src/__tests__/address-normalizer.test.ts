@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeAddress, parseKanjiNumber } from '../utils/address-normalizer'
+
+describe('normalizeAddress', () => {
+  describe('市区町村', () => {
+    it('東京都の特別区を市区町村として扱う', () => {
+      expect(normalizeAddress('東京都渋谷区神宮前1-2-3')).toEqual({
+        prefecture: '東京都',
+        city: '渋谷区',
+        ward: null,
+        town: '神宮前',
+        block: '1-2-3',
+      })
+    })
+
+    it('政令指定都市は市と区に分ける', () => {
+      expect(normalizeAddress('神奈川県横浜市港北区日吉本町1-2-3')).toEqual({
+        prefecture: '神奈川県',
+        city: '横浜市',
+        ward: '港北区',
+        town: '日吉本町',
+        block: '1-2-3',
+      })
+      expect(normalizeAddress('大阪府大阪市北区梅田3丁目').ward).toBe('北区')
+    })
+
+    it('郡名は市区町村に含めない', () => {
+      const result = normalizeAddress('北海道余市郡余市町黒川町5丁目')
+
+      expect(result.city).toBe('余市町')
+      expect(result.town).toBe('黒川町')
+      expect(result.block).toBe('5')
+    })
+
+    it('東京都の郡部の町村を扱う', () => {
+      expect(normalizeAddress('東京都西多摩郡瑞穂町箱根ケ崎1').city).toBe('瑞穂町')
+    })
+
+    it('名前に「市」「郡」を含む市を扱う', () => {
+      expect(normalizeAddress('三重県四日市市諏訪町1-5').city).toBe('四日市市')
+      expect(normalizeAddress('千葉県市川市八幡2-3').city).toBe('市川市')
+      expect(normalizeAddress('愛知県蒲郡市港町1-1').city).toBe('蒲郡市')
+    })
+
+    it('都道府県の記載がない場合はカタログから推定する', () => {
+      const result = normalizeAddress('目黒区中目黒2-5-8')
+
+      expect(result.prefecture).toBe('東京都')
+      expect(result.city).toBe('目黒区')
+    })
+
+    it('カタログにない市区町村の場合は推定しない', () => {
+      expect(normalizeAddress('府中町1-1').prefecture).toBe('')
+    })
+  })
+
+  describe('丁目・番地', () => {
+    it('漢数字の丁目を半角数字にする', () => {
+      expect(normalizeAddress('東京都新宿区西新宿三丁目８番１２号')).toMatchObject({
+        town: '西新宿',
+        block: '3-8-12',
+      })
+    })
+
+    it('全角数字とハイフンを半角にする', () => {
+      expect(normalizeAddress('東京都目黒区中目黒２－５－８').block).toBe('2-5-8')
+      expect(normalizeAddress('東京都目黒区中目黒２ー５ー８').block).toBe('2-5-8')
+    })
+
+    it('番地・号の表記を揃える', () => {
+      expect(normalizeAddress('埼玉県川口市芝5番地12').block).toBe('5-12')
+      expect(normalizeAddress('東京都港区芝公園4丁目2番8号').block).toBe('4-2-8')
+      expect(normalizeAddress('東京都港区三田二十三番地の4').block).toBe('23-4')
+    })
+
+    it('同じ住所はサイトごとの表記の違いによらず同じ値になる', () => {
+      const a = normalizeAddress('東京都新宿区西新宿3-8-12')
+      const b = normalizeAddress('東京都 新宿区 西新宿 三丁目８番１２号')
+
+      expect(a).toEqual(b)
+    })
+
+    it('町名に含まれる漢数字は番地として扱わない', () => {
+      expect(normalizeAddress('東京都千代田区一番町5')).toMatchObject({ town: '一番町', block: '5' })
+      expect(normalizeAddress('東京都中央区八丁堀2-1')).toMatchObject({ town: '八丁堀', block: '2-1' })
+    })
+
+    it('番地の後ろの建物名・部屋番号は含めない', () => {
+      expect(normalizeAddress('東京都渋谷区恵比寿1-2-3 キャットハイツ101').block).toBe('1-2-3')
+      expect(normalizeAddress('東京都渋谷区恵比寿1丁目2番3号101').block).toBe('1-2-3')
+    })
+
+    it('番地がない場合は町域のみ', () => {
+      expect(normalizeAddress('東京都世田谷区三軒茶屋')).toMatchObject({ town: '三軒茶屋', block: null })
+    })
+
+    it('大字を町域から除く', () => {
+      expect(normalizeAddress('千葉県柏市大字柏1234').town).toBe('柏')
+    })
+  })
+})
+
+describe('parseKanjiNumber', () => {
+  it('位取りのある漢数字を変換する', () => {
+    expect(parseKanjiNumber('三')).toBe(3)
+    expect(parseKanjiNumber('十')).toBe(10)
+    expect(parseKanjiNumber('二十三')).toBe(23)
+    expect(parseKanjiNumber('百五')).toBe(105)
+  })
+
+  it('位取りのない漢数字を変換する', () => {
+    expect(parseKanjiNumber('一〇')).toBe(10)
+    expect(parseKanjiNumber('二〇三')).toBe(203)
+  })
+
+  it('漢数字以外は null を返す', () => {
+    expect(parseKanjiNumber('三田')).toBeNull()
+  })
+})
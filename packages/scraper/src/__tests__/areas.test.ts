@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { formatArea, resolveAreas } from '../areas/catalog'
+import {
+  buildAthomeSearchUrl,
+  buildChintaiSearchUrl,
+  buildDoorSearchUrl,
+  buildHomesSearchUrl,
+  buildNiftySearchUrl,
+  buildSuumoSearchUrl,
+} from '../areas/search-urls'
+
+describe('resolveAreas', () => {
+  it('都道府県名で都道府県全体を指定できる', () => {
+    const [target] = resolveAreas('東京都')
+    expect(target.prefecture.code).toBe('13')
+    expect(target.municipality).toBeNull()
+  })
+
+  it('ローマ字で市区町村を指定できる', () => {
+    const [target] = resolveAreas('tokyo/shibuya')
+    expect(formatArea(target)).toBe('東京都渋谷区')
+    expect(target.municipality?.code).toBe('13113')
+  })
+
+  it('「23区」で東京都の特別区すべてを指定できる', () => {
+    const targets = resolveAreas('東京都/23区')
+    expect(targets).toHaveLength(23)
+    expect(targets.every(t => t.municipality?.kind === 'ward')).toBe(true)
+  })
+
+  it('「*」でカタログに収録された市区町村すべてを指定できる', () => {
+    const targets = resolveAreas('kanagawa/*')
+    expect(targets.map(t => t.municipality?.name)).toContain('横浜市')
+    expect(targets.every(t => t.prefecture.name === '神奈川県')).toBe(true)
+  })
+
+  it('カンマ区切りで複数指定できる', () => {
+    const targets = resolveAreas('東京都/渋谷区, 東京都/目黒区')
+    expect(targets.map(formatArea)).toEqual(['東京都渋谷区', '東京都目黒区'])
+  })
+
+  it('未知の都道府県・市区町村はエラーになる', () => {
+    expect(() => resolveAreas('猫県')).toThrow('Unknown prefecture: 猫県')
+    expect(() => resolveAreas('東京都/猫区')).toThrow('Unknown municipality: 東京都/猫区')
+  })
+})
+
+describe('検索URLの生成', () => {
+  const [shibuya] = resolveAreas('東京都/渋谷区')
+  const [tokyo] = resolveAreas('東京都')
+
+  it('SUUMO', () => {
+    expect(buildSuumoSearchUrl(shibuya)).toBe('https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2')
+    expect(buildSuumoSearchUrl(tokyo)).toBe('https://suumo.jp/chintai/tokyo/?pet=2')
+  })
+
+  it('HOME\'S', () => {
+    expect(buildHomesSearchUrl(shibuya)).toBe('https://www.homes.co.jp/chintai/ltag/284/tokyo/shibuya-city/list/')
+    expect(buildHomesSearchUrl(tokyo)).toBe('https://www.homes.co.jp/chintai/ltag/284/tokyo/list/')
+  })
+
+  it('DOOR賃貸', () => {
+    expect(buildDoorSearchUrl(shibuya)).toBe('https://door.ac/specials/feature7/tokyo/city-13113/list')
+    expect(buildDoorSearchUrl(tokyo)).toBe('https://door.ac/specials/feature7/tokyo/list')
+  })
+
+  it('CHINTAIネット', () => {
+    expect(buildChintaiSearchUrl(shibuya)).toBe('https://www.chintai.net/tokyo/area/13113/list/pet/')
+  })
+
+  it('ニフティ不動産', () => {
+    expect(buildNiftySearchUrl(shibuya)).toBe('https://myhome.nifty.com/rent/ft_pet/tokyo/shibuyaku_ct/search/')
+    expect(buildNiftySearchUrl(tokyo)).toBe('https://myhome.nifty.com/rent/ft_pet/tokyo/search/')
+  })
+
+  it('アットホーム', () => {
+    expect(buildAthomeSearchUrl(shibuya)).toBe('https://www.athome.co.jp/chintai/theme/pet/tokyo/shibuya-city/list/')
+    expect(buildAthomeSearchUrl(tokyo)).toBe('https://www.athome.co.jp/chintai/theme/pet/tokyo/list/')
+  })
+})
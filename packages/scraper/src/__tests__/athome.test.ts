@@ -0,0 +1,254 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { AthomeScraper } from '../sources/athome'
+
+// テスト用HTMLの読み込み
+const listHtml = readFileSync(
+  resolve(__dirname, 'fixtures/athome-list.html'),
+  'utf-8',
+)
+
+const detailHtml = readFileSync(
+  resolve(__dirname, 'fixtures/athome-detail.html'),
+  'utf-8',
+)
+
+describe('AthomeScraper', () => {
+  describe('parseListHtml', () => {
+    it('物件一覧HTMLから物件情報を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      // 建物1に2部屋、建物2に1部屋 = 合計3物件
+      expect(properties).toHaveLength(3)
+    })
+
+    it('物件名を正しく抽出できる（建物単位）', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties[0].name).toBe('パークハイツ渋谷')
+      expect(properties[1].name).toBe('パークハイツ渋谷')
+      expect(properties[2].name).toBe('メゾン代々木')
+    })
+
+    it('住所を正しく抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties[0].address).toBe('東京都渋谷区恵比寿2丁目')
+      expect(properties[2].address).toBe('東京都渋谷区代々木3丁目')
+    })
+
+    it('賃料を数値（円）で抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties[0].rent).toBe(125000) // 12.5万円
+      expect(properties[1].rent).toBe(132000) // 13.2万円
+      expect(properties[2].rent).toBe(89000) // 8.9万円
+    })
+
+    it('管理費を数値（円）で抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties[0].managementFee).toBe(10000)
+      expect(properties[1].managementFee).toBe(0) // 「-」
+      expect(properties[2].managementFee).toBe(3000)
+    })
+
+    it('間取りを正規化して抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties[0].floorPlan).toBe('1LDK')
+      expect(properties[1].floorPlan).toBe('1SLDK')
+      expect(properties[2].floorPlan).toBe('ワンルーム')
+    })
+
+    it('専有面積を数値（m²）で抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties[0].area).toBe(40.12)
+      expect(properties[1].area).toBe(45.3)
+      expect(properties[2].area).toBe(22.5)
+    })
+
+    it('詳細ページへのURLを絶対URLで抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties[0].sourceUrl).toBe('https://www.athome.co.jp/chintai/1045678901/?DOWN=1&BKLISTID=001LPC')
+      expect(properties[2].sourceUrl).toBe('https://www.athome.co.jp/chintai/1045678903/')
+    })
+
+    it('external_id を URL から抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties[0].externalId).toBe('1045678901')
+      expect(properties[1].externalId).toBe('1045678902')
+      expect(properties[2].externalId).toBe('1045678903')
+    })
+
+    it('source が "athome" になる', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties.every(p => p.source === 'athome')).toBe(true)
+    })
+
+    it('物件カードがない場合は空配列を返す', () => {
+      const scraper = new AthomeScraper()
+      const properties = scraper.parseListHtml('<html><body></body></html>')
+
+      expect(properties).toEqual([])
+    })
+  })
+
+  describe('parseDetailHtml', () => {
+    it('物件名を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.name).toBe('パークハイツ渋谷')
+    })
+
+    it('住所を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.address).toBe('東京都渋谷区恵比寿2-10-5')
+    })
+
+    it('賃料・管理費を円で抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.rent).toBe(125000)
+      expect(result.managementFee).toBe(10000)
+    })
+
+    it('敷金・礼金を月数と金額で抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.deposit).toBe(125000)
+      expect(result.depositMonths).toBe(1)
+      expect(result.keyMoney).toBe(125000)
+      expect(result.keyMoneyMonths).toBe(1)
+    })
+
+    it('保証金・敷引が「-」の場合は0になる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.guaranteeDeposit).toBe(0)
+      expect(result.depositAmortization).toBe(0)
+    })
+
+    it('間取りと部屋ごとの広さを抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.floorPlan).toBe('1LDK')
+      expect(result.roomSizes).toEqual([
+        { type: 'ldk', size: 11.5 },
+        { type: 'western', size: 6 },
+      ])
+    })
+
+    it('専有面積を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.area).toBe(40.12)
+    })
+
+    it('築年・建物種別を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.yearBuilt).toBe(2016)
+      expect(result.buildingType).toBe('mansion')
+    })
+
+    it('建物の階数と部屋の所在階を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.floors).toBe(6)
+      expect(result.roomFloor).toBe(3)
+    })
+
+    it('向きを抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.direction).toBe('southeast')
+    })
+
+    it('最寄り駅情報を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.nearestStations).toHaveLength(2)
+      expect(result.nearestStations[0]).toMatchObject({
+        line: 'JR山手線',
+        station: '恵比寿',
+        walkMinutes: 6,
+      })
+      expect(result.nearestStations[1]).toMatchObject({
+        line: '東京メトロ日比谷線',
+        station: '恵比寿',
+        walkMinutes: 8,
+      })
+    })
+
+    it('設備情報を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.features).toContain('オートロック')
+      expect(result.features).toContain('宅配ボックス')
+      expect(result.features).toHaveLength(5)
+    })
+
+    it('画像URLを抽出できる（data-src を優先）', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.images).toEqual([
+        'https://img.athome.jp/image_files/index/bukken/1045678901/1.jpeg',
+        'https://img.athome.jp/image_files/index/bukken/1045678901/2.jpeg',
+        'https://img.athome.jp/image_files/index/bukken/1045678901/3.jpeg',
+      ])
+    })
+
+    it('条件等からペット条件を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.petConditions).not.toBeNull()
+      expect(result.petConditions?.catAllowed).toBe(true)
+      expect(result.petConditions?.catLimit).toBe(1)
+      expect(result.petConditions?.dog).toBe('negotiable')
+    })
+
+    it('ペット以外の入居条件はペット条件の根拠に含めない', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      const texts = result.petConditions?.evidence.map(e => e.text) ?? []
+      expect(texts.some(text => text.includes('楽器'))).toBe(false)
+    })
+
+    it('敷金欄のペット飼育時の加算を追加敷金として抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.petConditions?.additionalDeposit).toBe(125000)
+    })
+
+    it('備考からペット飼育費を抽出できる', () => {
+      const scraper = new AthomeScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.petConditions?.monthlyFee).toBe(2000)
+      expect(result.petConditions?.notes).toContain('飼育費')
+    })
+
+    it('条件等にペットの記載がない場合は null を返す', () => {
+      const scraper = new AthomeScraper()
+      const html = detailHtml.replace('ペット相談（猫1匹まで）、', '')
+      const result = scraper.parseDetailHtml(html)
+      expect(result.petConditions).toBeNull()
+    })
+  })
+})
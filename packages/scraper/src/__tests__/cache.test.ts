@@ -0,0 +1,139 @@
+import type { Property } from '@cat-home/shared'
+import type { PropertyStore } from '../runner'
+import { readFileSync } from 'node:fs'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { resolveAreas } from '../areas/catalog'
+import { ScrapeRunner } from '../runner'
+import { SuumoScraper } from '../sources/suumo'
+
+const suumoListHtml = readFileSync(resolve(__dirname, 'fixtures/suumo-list.html'), 'utf-8')
+const suumoDetailHtml = readFileSync(resolve(__dirname, 'fixtures/suumo-detail.html'), 'utf-8')
+
+const DETAIL_URL = 'https://suumo.jp/chintai/jnc_000000001/'
+
+/**
+ * ETag に対応したテスト用サイト
+ *
+ * If-None-Match が現在の ETag と一致すれば 304 を返す
+ */
+function createSite(options: { etag?: boolean } = {}) {
+  const site = {
+    detailHtml: suumoDetailHtml,
+    version: 1,
+    transport: vi.fn(async (url: string, init?: RequestInit) => {
+      const headers = new Headers(init?.headers)
+      const etag = `"v${site.version}"`
+      if (options.etag !== false && headers.get('If-None-Match') === etag) {
+        return new Response(null, { status: 304 })
+      }
+      const body = new URL(url).pathname.startsWith('/chintai/jnc_') ? site.detailHtml : suumoListHtml
+      return new Response(body, { headers: options.etag === false ? {} : { ETag: etag } })
+    }),
+  }
+  return site
+}
+
+function createStore(missingIds: string[] = []): PropertyStore {
+  return {
+    upsertProperties: vi.fn(async (properties: Partial<Property>[]) => ({
+      inserted: properties.length,
+      updated: 0,
+      errors: [],
+    })),
+    touchProperties: vi.fn(async (_source, externalIds: string[]) => externalIds.filter(id => missingIds.includes(id))),
+    deactivateMissing: vi.fn(async () => 0),
+  }
+}
+
+describe('HTTP キャッシュ', () => {
+  let cacheDir: string
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'cat-home-cache-'))
+  })
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  function createScraper(site: ReturnType<typeof createSite>) {
+    return new SuumoScraper({ requestDelay: 0, respectRobotsTxt: false, transport: site.transport, cacheDir })
+  }
+
+  it('2回目は If-None-Match を送り、304 なら解析を省略する', async () => {
+    const site = createSite()
+
+    const first = await createScraper(site).scrapeDetail(DETAIL_URL)
+    const second = await createScraper(site).scrapeDetail(DETAIL_URL)
+
+    expect(first.notModified).toBe(false)
+    expect(first.properties).toHaveLength(1)
+    expect(second.notModified).toBe(true)
+    expect(second.properties).toHaveLength(0)
+    expect(new Headers(site.transport.mock.calls[1][1]?.headers).get('If-None-Match')).toBe('"v1"')
+  })
+
+  it('内容が変わった場合は再度解析する', async () => {
+    const site = createSite()
+    await createScraper(site).scrapeDetail(DETAIL_URL)
+
+    site.version = 2
+    site.detailHtml = suumoDetailHtml.replaceAll('メゾン猫の家', 'メゾン猫の家II')
+    const result = await createScraper(site).scrapeDetail(DETAIL_URL)
+
+    expect(result.notModified).toBe(false)
+    expect(result.properties[0].name).toBe('メゾン猫の家II')
+  })
+
+  it('条件付きリクエストに対応していないサイトは本文のハッシュで判定する', async () => {
+    const site = createSite({ etag: false })
+
+    await createScraper(site).scrapeDetail(DETAIL_URL)
+    const result = await createScraper(site).scrapeDetail(DETAIL_URL)
+
+    expect(result.notModified).toBe(true)
+  })
+
+  it('変更のない物件は Upsert せず last_seen_at のみ更新する', async () => {
+    const site = createSite()
+    const options = {
+      sources: ['suumo' as const],
+      areas: resolveAreas('tokyo/shibuya'),
+      withDetails: true,
+      scraperConfig: { requestDelay: 0, respectRobotsTxt: false, transport: site.transport, cacheDir },
+    }
+    await new ScrapeRunner(createStore()).run(options)
+
+    const store = createStore()
+    const summary = await new ScrapeRunner(store).run(options)
+
+    expect(summary.unchanged).toBe(summary.found)
+    expect(summary.inserted).toBe(0)
+    expect(vi.mocked(store.touchProperties).mock.calls[0][1]).toHaveLength(summary.found)
+    expect(vi.mocked(store.upsertProperties).mock.calls[0][0]).toEqual([])
+  })
+
+  it('変更がなくても DB に存在しない物件は詳細を取り直して保存する', async () => {
+    const site = createSite()
+    const options = {
+      sources: ['suumo' as const],
+      areas: resolveAreas('tokyo/shibuya'),
+      withDetails: true,
+      scraperConfig: { requestDelay: 0, respectRobotsTxt: false, transport: site.transport, cacheDir },
+    }
+    const firstStore = createStore()
+    await new ScrapeRunner(firstStore).run(options)
+    const [missing] = vi.mocked(firstStore.upsertProperties).mock.calls[0][0]
+
+    const store = createStore([missing.externalId!])
+    const summary = await new ScrapeRunner(store).run(options)
+
+    const saved = vi.mocked(store.upsertProperties).mock.calls[0][0]
+    expect(saved.map(p => p.externalId)).toEqual([missing.externalId])
+    expect(saved[0].petConditions).toEqual(missing.petConditions)
+    expect(summary.unchanged).toBe(summary.found - 1)
+  })
+})
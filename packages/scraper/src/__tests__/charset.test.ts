@@ -0,0 +1,73 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { decodeHtml, detectCharset } from '../http/charset'
+import { SuumoScraper } from '../sources/suumo'
+
+// テスト用HTMLの読み込み（suumo-detail.html を各文字コードで保存したもの。<meta charset> なし）
+const sjisHtml = readFileSync(resolve(__dirname, 'fixtures/suumo-detail-sjis.html'))
+const eucjpHtml = readFileSync(resolve(__dirname, 'fixtures/suumo-detail-eucjp.html'))
+const utf8Html = readFileSync(resolve(__dirname, 'fixtures/suumo-detail.html'))
+
+function withMeta(meta: string, bytes: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(`<head>${meta}</head>`), bytes])
+}
+
+describe('detectCharset', () => {
+  it('Content-Type ヘッダーの charset を優先する', () => {
+    expect(detectCharset(sjisHtml, 'text/html; charset=Shift_JIS')).toBe('shift_jis')
+    expect(detectCharset(eucjpHtml, 'text/html;charset="EUC-JP"')).toBe('euc-jp')
+  })
+
+  it('<meta charset> から判定する', () => {
+    expect(detectCharset(withMeta('<meta charset="Shift_JIS">', sjisHtml), 'text/html')).toBe('shift_jis')
+  })
+
+  it('<meta http-equiv="Content-Type"> から判定する', () => {
+    const meta = '<meta http-equiv="Content-Type" content="text/html; charset=euc-jp">'
+
+    expect(detectCharset(withMeta(meta, eucjpHtml))).toBe('euc-jp')
+  })
+
+  it('Windows-31J などの別名を正規化する', () => {
+    expect(detectCharset(sjisHtml, 'text/html; charset=Windows-31J')).toBe('shift_jis')
+    expect(detectCharset(sjisHtml, 'text/html; charset=cp932')).toBe('shift_jis')
+  })
+
+  it('指定がない場合はバイト列から推定する', () => {
+    expect(detectCharset(utf8Html)).toBe('utf-8')
+    expect(detectCharset(sjisHtml)).toBe('shift_jis')
+    expect(detectCharset(eucjpHtml)).toBe('euc-jp')
+  })
+
+  it('未知の charset 指定は無視してバイト列から推定する', () => {
+    expect(detectCharset(sjisHtml, 'text/html; charset=x-unknown')).toBe('shift_jis')
+  })
+})
+
+describe('decodeHtml', () => {
+  it('Shift_JIS / EUC-JP のページを UTF-8 と同じ文字列に変換する', () => {
+    const expected = utf8Html.toString('utf-8').replace('²', '&sup2;')
+
+    expect(decodeHtml(sjisHtml)).toBe(expected)
+    expect(decodeHtml(eucjpHtml)).toBe(expected)
+  })
+})
+
+describe('スクレイパーの文字コード処理', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('Shift_JIS のページから物件名と住所を取得できる', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(sjisHtml, {
+      headers: { 'Content-Type': 'text/html; charset=Shift_JIS' },
+    })))
+    const scraper = new SuumoScraper({ requestDelay: 0, respectRobotsTxt: false })
+
+    const result = await scraper.scrapeDetail('https://suumo.jp/chintai/jnc_000000001/')
+
+    expect(result.properties[0].name).toBe('メゾン猫の家')
+    expect(result.properties[0].prefecture).toBe('東京都')
+  })
+})
@@ -0,0 +1,224 @@
+import type { SourceConfig } from '../sources/config-schema'
+import { describe, expect, it } from 'vitest'
+import { ConfigScraper } from '../sources/config-scraper'
+import { loadSourceConfig, parseSourceConfig, SourceConfigError } from '../sources/config-schema'
+import { parseBuildingType, parseDirection, parseManYen, parseYearBuilt } from '../utils/field-parsers'
+
+/** テスト用の設定（部屋の要素がなく、表が dl の構造のサイト） */
+const config: SourceConfig = {
+  source: 'other',
+  baseUrl: 'https://neko-chintai.example.jp',
+  externalIdPattern: '/room/([a-z0-9]+)',
+  pagination: { next: 'a.next', pageParam: 'p' },
+  list: {
+    item: '.card',
+    link: { selector: 'a.card__link' },
+    fields: {
+      name: { selector: '.card__name', remove: 'の賃貸物件情報$' },
+      address: { selector: '.card__address' },
+      rent: { selector: '.card__rent', transform: 'yen' },
+      area: { selector: '.card__area' },
+    },
+  },
+  detail: {
+    table: { row: 'dl.spec div', label: 'dt', value: 'dd' },
+    fields: {
+      name: { selector: 'h1' },
+      rent: { label: '賃料' },
+      direction: { label: '主要採光面' },
+      nearestStations: { label: 'アクセス' },
+      features: { label: '設備', split: '／' },
+      images: { selector: '.photo img', attr: ['data-original', 'src'] },
+      petConditions: { label: 'ペット' },
+    },
+  },
+}
+
+const listHtml = `
+<div class="card">
+  <a class="card__link" href="/room/a101?from=list">
+    <p class="card__name">キャットハウス荻窪の賃貸物件情報</p>
+  </a>
+  <p class="card__address">東京都杉並区荻窪3-1-1</p>
+  <p class="card__rent">98,000円</p>
+  <p class="card__area">25.3m²</p>
+</div>
+<div class="card">
+  <a class="card__link" href="/news/1">お知らせ</a>
+</div>
+`
+
+const detailHtml = `
+<h1>キャットハウス荻窪 101</h1>
+<dl class="spec">
+  <div><dt>賃料</dt><dd>9.8万円</dd></div>
+  <div><dt>主要採光面</dt><dd>南西</dd></div>
+  <div><dt>アクセス</dt><dd>JR中央線/荻窪駅 歩7分
+丸ノ内線/荻窪駅 歩9分</dd></div>
+  <div><dt>設備</dt><dd>エアコン／バストイレ別／キャットウォーク</dd></div>
+  <div><dt>ペット</dt><dd>猫可（2匹まで）</dd></div>
+</dl>
+<div class="photo">
+  <img data-original="/img/a101-1.jpg" src="/img/loading.gif">
+  <img src="https://cdn.example.jp/a101-2.jpg">
+</div>
+`
+
+describe('ConfigScraper', () => {
+  describe('parseListHtml', () => {
+    it('建物カードを1部屋として物件情報を抽出できる', () => {
+      const scraper = new ConfigScraper(config)
+      const properties = scraper.parseListHtml(listHtml)
+
+      expect(properties).toEqual([{
+        name: 'キャットハウス荻窪',
+        address: '東京都杉並区荻窪3-1-1',
+        rent: 98000,
+        managementFee: 0,
+        floorPlan: '',
+        area: 25.3,
+        sourceUrl: 'https://neko-chintai.example.jp/room/a101?from=list',
+        externalId: 'a101',
+        source: 'other',
+      }])
+    })
+  })
+
+  describe('parseDetailHtml', () => {
+    it('設定した表の構造から値を抽出できる', () => {
+      const scraper = new ConfigScraper(config)
+      const result = scraper.parseDetailHtml(detailHtml)
+
+      expect(result.name).toBe('キャットハウス荻窪 101')
+      expect(result.rent).toBe(98000)
+      expect(result.direction).toBe('southwest')
+    })
+
+    it('表の値を改行で区切って複数の駅を抽出できる', () => {
+      const scraper = new ConfigScraper(config)
+      const result = scraper.parseDetailHtml(detailHtml)
+
+      expect(result.nearestStations).toHaveLength(2)
+      expect(result.nearestStations[1].walkMinutes).toBe(9)
+    })
+
+    it('split で区切った値を配列で抽出できる', () => {
+      const scraper = new ConfigScraper(config)
+      const result = scraper.parseDetailHtml(detailHtml)
+
+      expect(result.features).toEqual(['エアコン', 'バストイレ別', 'キャットウォーク'])
+    })
+
+    it('attr の順に属性を探し、相対URLを解決できる', () => {
+      const scraper = new ConfigScraper(config)
+      const result = scraper.parseDetailHtml(detailHtml)
+
+      expect(result.images).toEqual([
+        'https://neko-chintai.example.jp/img/a101-1.jpg',
+        'https://cdn.example.jp/a101-2.jpg',
+      ])
+    })
+
+    it('ペット条件を抽出できる', () => {
+      const scraper = new ConfigScraper(config)
+      const result = scraper.parseDetailHtml(detailHtml)
+
+      expect(result.petConditions?.cat).toBe('allowed')
+      expect(result.petConditions?.catLimit).toBe(2)
+    })
+
+    it('設定にない項目は空の値を返す', () => {
+      const scraper = new ConfigScraper(config)
+      const result = scraper.parseDetailHtml(detailHtml)
+
+      expect(result.address).toBe('')
+      expect(result.deposit).toBe(0)
+      expect(result.yearBuilt).toBeNull()
+    })
+
+    it('ペットの記載がない場合は null を返す', () => {
+      const scraper = new ConfigScraper(config)
+      const result = scraper.parseDetailHtml('<h1>物件</h1>')
+
+      expect(result.petConditions).toBeNull()
+    })
+  })
+
+  describe('fieldSelectors', () => {
+    it('取得率レポート用のセレクタを設定から生成できる', () => {
+      const scraper = new ConfigScraper(config)
+
+      expect(scraper.fieldSelectors.name).toEqual({ list: '.card__name', detail: 'h1' })
+      expect(scraper.fieldSelectors.petConditions).toEqual({
+        list: undefined,
+        detail: 'dl.spec div dt:contains("ペット") + dd',
+      })
+      expect(scraper.fieldSelectors.prefecture).toEqual(scraper.fieldSelectors.address)
+    })
+  })
+})
+
+describe('parseSourceConfig', () => {
+  it('正しい設定を SourceConfig として返す', () => {
+    expect(parseSourceConfig(structuredClone(config))).toEqual(config)
+  })
+
+  it('同梱の設定ファイルを読み込める', () => {
+    const athome = loadSourceConfig(new URL('../sources/configs/athome.json', import.meta.url))
+    expect(athome.source).toBe('athome')
+  })
+
+  it('未対応の項目はエラーになる', () => {
+    const data = structuredClone(config)
+    Object.assign(data.detail.fields, { catTower: { selector: '.tower' } })
+
+    expect(() => parseSourceConfig(data, 'test.json')).toThrow(SourceConfigError)
+    expect(() => parseSourceConfig(data, 'test.json')).toThrow('test.json: detail.fields.catTower は未対応の項目です')
+  })
+
+  it('不正な正規表現はエラーになる', () => {
+    const data = structuredClone(config)
+    data.externalIdPattern = '/room/([a-z'
+
+    expect(() => parseSourceConfig(data)).toThrow('externalIdPattern は正規表現として正しくありません')
+  })
+
+  it('未対応の変換はエラーになる', () => {
+    const data = structuredClone(config)
+    Object.assign(data.list.fields.rent!, { transform: 'sen' })
+
+    expect(() => parseSourceConfig(data)).toThrow('list.fields.rent.transform は manYen / yen / float のいずれかを指定してください')
+  })
+
+  it('selector も label もない項目はエラーになる', () => {
+    const data = structuredClone(config)
+    data.list.link = {}
+
+    expect(() => parseSourceConfig(data)).toThrow('list.link には selector か label を指定してください')
+  })
+})
+
+describe('field-parsers', () => {
+  it('万円単位の賃料を円に変換できる', () => {
+    expect(parseManYen('12.5万円')).toBe(125000)
+    expect(parseManYen('11.5')).toBe(115000)
+    expect(parseManYen('-')).toBe(0)
+  })
+
+  it('築年月から築年を抽出できる', () => {
+    expect(parseYearBuilt('2019年3月')).toBe(2019)
+    expect(parseYearBuilt('築5年')).toBeNull()
+  })
+
+  it('建物種別を変換できる', () => {
+    expect(parseBuildingType('賃貸マンション')).toBe('mansion')
+    expect(parseBuildingType('テラスハウス')).toBe('terraced')
+    expect(parseBuildingType('')).toBeNull()
+  })
+
+  it('2文字の向きを1文字の向きより先に判定する', () => {
+    expect(parseDirection('南東')).toBe('southeast')
+    expect(parseDirection('東')).toBe('east')
+    expect(parseDirection('')).toBeNull()
+  })
+})
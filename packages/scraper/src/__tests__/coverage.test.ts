@@ -0,0 +1,87 @@
+import type { Property } from '@cat-home/shared'
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COVERAGE_THRESHOLDS, formatCoverageReport, measureCoverage } from '../runner/coverage'
+
+/** テスト用の物件を n 件作成 */
+function createProperties(n: number, overrides: (i: number) => Partial<Property> = () => ({})): Partial<Property>[] {
+  return Array.from({ length: n }, (_, i) => ({
+    externalId: `p${i}`,
+    name: `猫の家${i}`,
+    rent: 80000,
+    ...overrides(i),
+  }))
+}
+
+const selectors = {
+  rent: { list: '.cassetteitem_price--rent' },
+  petConditions: { detail: '.property_view_note-list' },
+}
+
+describe('measureCoverage', () => {
+  it('項目ごとの取得率を計測する', () => {
+    const properties = createProperties(10, i => ({ rent: i < 9 ? 80000 : 0 }))
+
+    const report = measureCoverage('suumo', properties, { thresholds: { name: 0.95, rent: 0.8 }, selectors })
+
+    expect(report.fields).toEqual([
+      { field: 'name', present: 10, total: 10, ratio: 1, threshold: 0.95, selector: null, broken: false },
+      { field: 'rent', present: 9, total: 10, ratio: 0.9, threshold: 0.8, selector: '.cassetteitem_price--rent', broken: false },
+    ])
+    expect(report.brokenFields).toEqual([])
+  })
+
+  it('最低取得率を下回った項目を検出する', () => {
+    const properties = createProperties(20, () => ({ rent: 0 }))
+
+    const report = measureCoverage('suumo', properties, { thresholds: { rent: 0.95 }, selectors })
+
+    expect(report.brokenFields.map(f => [f.field, f.selector])).toEqual([['rent', '.cassetteitem_price--rent']])
+  })
+
+  it('0・空文字・空配列は値なしとして扱う', () => {
+    const properties = createProperties(10, () => ({ address: ' ', nearestStations: [], area: 0 }))
+
+    const report = measureCoverage('suumo', properties, {
+      thresholds: { address: 0.5, area: 0.5, nearestStations: 0.5 },
+      selectors,
+      detailed: properties,
+    })
+
+    expect(report.fields.map(f => f.present)).toEqual([0, 0, 0])
+  })
+
+  it('物件数が少ない場合は判定しない', () => {
+    const properties = createProperties(9, () => ({ rent: 0 }))
+
+    const report = measureCoverage('suumo', properties, { thresholds: { rent: 0.95 }, selectors })
+
+    expect(report.fields[0].ratio).toBe(0)
+    expect(report.brokenFields).toEqual([])
+  })
+
+  it('詳細ページのみの項目は詳細を取得した物件だけで計測する', () => {
+    const properties = createProperties(30)
+    const detailed = properties.slice(0, 10).map(p => ({ ...p, petConditions: null }))
+
+    const withoutDetails = measureCoverage('suumo', properties, { thresholds: DEFAULT_COVERAGE_THRESHOLDS, selectors })
+    const withDetails = measureCoverage('suumo', properties, { thresholds: DEFAULT_COVERAGE_THRESHOLDS, selectors, detailed })
+
+    expect(withoutDetails.fields.map(f => f.field)).not.toContain('petConditions')
+    expect(withDetails.brokenFields.find(f => f.field === 'petConditions')).toMatchObject({
+      total: 10,
+      selector: '.property_view_note-list',
+    })
+  })
+})
+
+describe('formatCoverageReport', () => {
+  it('下回った項目にはセレクタを表示する', () => {
+    const properties = createProperties(10, () => ({ rent: 0 }))
+    const report = measureCoverage('suumo', properties, { thresholds: { name: 0.95, rent: 0.95 }, selectors })
+
+    expect(formatCoverageReport(report)).toEqual([
+      '✅ name            100.0% (10/10, min 95%)',
+      '❌ rent              0.0% (0/10, min 95%) selector: .cassetteitem_price--rent',
+    ])
+  })
+})
@@ -0,0 +1,293 @@
+import type { Property } from '@cat-home/shared'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DatabaseService } from '../services/database'
+
+/** テスト用の properties テーブル（キー: source/external_id） */
+const db = vi.hoisted(() => ({
+  rows: new Map<string, Record<string, unknown>>(),
+  upserts: [] as { rows: Record<string, unknown>[]; options: unknown }[],
+  updates: [] as { patch: Record<string, unknown>; count: number }[],
+  /** 保存に失敗させる external_id */
+  failing: new Set<string>(),
+}))
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => {
+      const filters: ((row: Record<string, unknown>) => boolean)[] = []
+      let patch: Record<string, unknown> | null = null
+      let orderBy: string | null = null
+      let limit = Infinity
+      const query = {
+        select: () => query,
+        update: (values: Record<string, unknown>) => {
+          patch = values
+          return query
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push(row => row[column] === value)
+          return query
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push(row => values.includes(row[column]))
+          return query
+        },
+        gt: (column: string, value: string) => {
+          filters.push(row => String(row[column]) > value)
+          return query
+        },
+        order: (column: string) => {
+          orderBy = column
+          return query
+        },
+        limit: (count: number) => {
+          limit = count
+          return query
+        },
+        not: (column: string, operator: string, value: unknown) => {
+          // in フィルタの値は '("a","b")' の形式
+          const values = operator === 'in' ? [...String(value).matchAll(/"([^"]*)"/g)].map(m => m[1]) : [value]
+          filters.push(row => !values.includes(row[column]))
+          return query
+        },
+        then: (resolve: (value: unknown) => void) => {
+          const rows = [...db.rows.values()].filter(row => filters.every(f => f(row)))
+          if (orderBy) {
+            const column = orderBy
+            rows.sort((a, b) => String(a[column]).localeCompare(String(b[column])))
+          }
+          rows.splice(limit)
+          if (patch) {
+            db.updates.push({ patch, count: rows.length })
+            rows.forEach(row => Object.assign(row, patch))
+          }
+          resolve({ data: rows, error: null })
+        },
+        upsert: async (rows: Record<string, unknown>[], options: unknown) => {
+          db.upserts.push({ rows, options })
+          if (rows.some(row => db.failing.has(row.external_id as string))) {
+            return { error: { message: 'null value in column "name" violates not-null constraint' } }
+          }
+          for (const row of rows) {
+            const key = `${row.source}/${row.external_id}`
+            const existing = db.rows.get(key)
+            db.rows.set(key, { first_seen_at: '2026-10-19T00:00:00Z', ...existing, ...row })
+          }
+          return { error: null }
+        },
+      }
+      return query
+    },
+  }),
+}))
+
+/** テスト用の物件 */
+function property(externalId: string, overrides: Partial<Property> = {}): Partial<Property> {
+  return {
+    externalId,
+    source: 'suumo',
+    name: `物件${externalId}`,
+    address: '東京都渋谷区神南1-2-3',
+    prefecture: '東京都',
+    city: '渋谷区',
+    rent: 100000,
+    sourceUrl: `https://suumo.jp/chintai/jnc_${externalId}/`,
+    ...overrides,
+  }
+}
+
+describe('DatabaseService', () => {
+  beforeEach(() => {
+    db.rows.clear()
+    db.upserts.length = 0
+    db.updates.length = 0
+    db.failing.clear()
+  })
+
+  describe('upsertProperties', () => {
+    it('既存の物件は更新、それ以外は挿入として数える', async () => {
+      db.rows.set('suumo/1', { source: 'suumo', external_id: '1', first_seen_at: '2026-01-01T00:00:00Z' })
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const result = await service.upsertProperties([property('1'), property('2')])
+
+      expect(result).toEqual({ inserted: 1, updated: 1, errors: [] })
+      expect(db.upserts).toHaveLength(1)
+    })
+
+    it('source と external_id の組を競合の対象にする', async () => {
+      db.rows.set('homes/1', { source: 'homes', external_id: '1' })
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const result = await service.upsertProperties([property('1')])
+
+      // 別のサイトの同じ external_id は既存の物件として扱わない
+      expect(result.inserted).toBe(1)
+      expect(db.upserts[0].options).toEqual({ onConflict: 'source,external_id' })
+    })
+
+    it('既存の物件の first_seen_at を残す', async () => {
+      db.rows.set('suumo/1', { source: 'suumo', external_id: '1', first_seen_at: '2026-01-01T00:00:00Z' })
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      await service.upsertProperties([property('1', { rent: 95000 })])
+
+      expect(db.upserts[0].rows[0]).not.toHaveProperty('first_seen_at')
+      expect(db.rows.get('suumo/1')).toMatchObject({ rent: 95000, first_seen_at: '2026-01-01T00:00:00Z' })
+    })
+
+    it('データソースごとに分け、200件ずつまとめて保存する', async () => {
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+      const properties = [
+        ...Array.from({ length: 450 }, (_, i) => property(`${i}`)),
+        property('1', { source: 'homes' }),
+      ]
+
+      const result = await service.upsertProperties(properties)
+
+      expect(result.inserted).toBe(451)
+      expect(db.upserts.map(u => u.rows.length)).toEqual([200, 200, 50, 1])
+    })
+
+    it('同じ物件が複数ある場合は後のものだけを保存する', async () => {
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const result = await service.upsertProperties([property('1', { rent: 90000 }), property('1', { rent: 92000 })])
+
+      expect(result.inserted).toBe(1)
+      expect(db.rows.get('suumo/1')?.rent).toBe(92000)
+    })
+
+    it('まとめての保存に失敗した場合は1件ずつ保存し、失敗した物件だけをエラーにする', async () => {
+      db.failing.add('2')
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const result = await service.upsertProperties([property('1'), property('2'), property('3')])
+
+      expect(result.inserted).toBe(2)
+      expect(result.errors).toEqual([{
+        code: 'database',
+        message: 'Upsert failed: null value in column "name" violates not-null constraint',
+        externalId: '2',
+      }])
+      // まとめて1回 + 1件ずつ3回
+      expect(db.upserts).toHaveLength(4)
+    })
+
+    it('external_id がない物件は parse_failure として保存しない', async () => {
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const result = await service.upsertProperties([property('', { sourceUrl: 'https://suumo.jp/chintai/x/' })])
+
+      expect(result.errors).toEqual([{
+        code: 'parse_failure',
+        field: 'externalId',
+        message: 'Missing externalId',
+        url: 'https://suumo.jp/chintai/x/',
+      }])
+      expect(db.upserts).toHaveLength(0)
+    })
+  })
+
+  describe('source と external_id による物件の識別', () => {
+    it('別のサイトに同じ external_id の物件がある場合は更新せずに挿入する', async () => {
+      db.rows.set('homes/100', { id: 'homes-100', source: 'homes', external_id: '100', name: 'ホームズの物件', is_active: true })
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const result = await service.upsertProperties([property('100', { name: 'スーモの物件' })])
+
+      expect(result).toEqual({ inserted: 1, updated: 0, errors: [] })
+      expect(db.rows.get('homes/100')).toMatchObject({ name: 'ホームズの物件' })
+      expect(db.rows.get('suumo/100')).toMatchObject({ name: 'スーモの物件' })
+    })
+
+    it('別のサイトの同じ external_id の物件は非アクティブ化しない', async () => {
+      db.rows.set('suumo/100', { id: 'suumo-100', source: 'suumo', external_id: '100', is_active: true, canonical_id: null })
+      db.rows.set('homes/100', { id: 'homes-100', source: 'homes', external_id: '100', is_active: true, canonical_id: null })
+      db.rows.set('homes/200', { id: 'homes-200', source: 'homes', external_id: '200', is_active: true, canonical_id: null })
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const deactivated = await service.deactivateMissing('suumo', ['200'])
+
+      expect(deactivated).toBe(1)
+      expect(db.rows.get('suumo/100')).toMatchObject({ is_active: false })
+      expect(db.rows.get('homes/100')).toMatchObject({ is_active: true })
+      expect(db.rows.get('homes/200')).toMatchObject({ is_active: true })
+    })
+  })
+
+  describe('touchProperties', () => {
+    it('200件ずつ last_seen_at を更新し、DB にない external_id を返す', async () => {
+      for (let i = 0; i < 450; i++) {
+        db.rows.set(`suumo/${i}`, { source: 'suumo', external_id: `${i}`, is_active: false, last_seen_at: null })
+      }
+      db.rows.set('homes/450', { source: 'homes', external_id: '450', is_active: false, last_seen_at: null })
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+      const externalIds = Array.from({ length: 451 }, (_, i) => `${i}`)
+
+      const missing = await service.touchProperties('suumo', externalIds)
+
+      expect(missing).toEqual(['450'])
+      expect(db.updates.map(u => u.count)).toEqual([200, 200, 50])
+      expect(db.rows.get('suumo/449')).toMatchObject({ is_active: true, last_seen_at: expect.any(String) })
+      expect(db.rows.get('homes/450')).toMatchObject({ is_active: false })
+    })
+  })
+
+  describe('updateCanonicalId', () => {
+    it('200件ずつ代表の物件ID を更新する', async () => {
+      for (let i = 0; i < 450; i++) {
+        db.rows.set(`suumo/${i}`, { id: `suumo-${i}`, source: 'suumo', external_id: `${i}`, canonical_id: 'homes-1' })
+      }
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      await service.updateCanonicalId(Array.from({ length: 450 }, (_, i) => `suumo-${i}`), null)
+
+      expect(db.updates.map(u => u.count)).toEqual([200, 200, 50])
+      expect([...db.rows.values()].every(row => row.canonical_id === null)).toBe(true)
+    })
+  })
+
+  describe('deactivateMissing', () => {
+    it('掲載終了した代表の物件を代表とする物件の canonical_id を解除する', async () => {
+      db.rows.set('suumo/1', { id: 'suumo-1', source: 'suumo', external_id: '1', is_active: true, canonical_id: null })
+      db.rows.set('suumo/2', { id: 'suumo-2', source: 'suumo', external_id: '2', is_active: true, canonical_id: null })
+      db.rows.set('homes/1', { id: 'homes-1', source: 'homes', external_id: '1', is_active: true, canonical_id: 'suumo-1' })
+      db.rows.set('homes/2', { id: 'homes-2', source: 'homes', external_id: '2', is_active: true, canonical_id: 'suumo-2' })
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const deactivated = await service.deactivateMissing('suumo', ['2'])
+
+      expect(deactivated).toBe(1)
+      expect(db.rows.get('suumo/1')).toMatchObject({ is_active: false })
+      // 代表の物件が掲載終了した物件は一覧に表示されるよう代表の物件ID を解除する
+      expect(db.rows.get('homes/1')).toMatchObject({ is_active: true, canonical_id: null })
+      expect(db.rows.get('homes/2')).toMatchObject({ canonical_id: 'suumo-2' })
+    })
+
+    it('取得した external_id を URL に並べず、掲載終了した物件を200件ずつ非アクティブ化する', async () => {
+      for (let i = 0; i < 1200; i++) {
+        const id = `suumo-${String(i).padStart(4, '0')}`
+        db.rows.set(`suumo/${i}`, { id, source: 'suumo', external_id: `${i}`, prefecture: '東京都', is_active: true, canonical_id: null })
+      }
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      const deactivated = await service.deactivateMissing('suumo', Array.from({ length: 100 }, (_, i) => `${i}`), {
+        prefecture: '東京都',
+      })
+
+      expect(deactivated).toBe(1100)
+      expect(db.updates.filter(u => u.patch.is_active === false).map(u => u.count)).toEqual([200, 200, 200, 200, 200, 100])
+      expect(db.rows.get('suumo/99')).toMatchObject({ is_active: true })
+      expect(db.rows.get('suumo/1199')).toMatchObject({ is_active: false })
+    })
+
+    it('掲載終了した物件がない場合は canonical_id を更新しない', async () => {
+      db.rows.set('suumo/1', { id: 'suumo-1', source: 'suumo', external_id: '1', is_active: true, canonical_id: null })
+      const service = new DatabaseService('https://example.supabase.co', 'key')
+
+      expect(await service.deactivateMissing('suumo', ['1'])).toBe(0)
+      expect(db.updates).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import type { DedupeListing } from '../dedupe/types'
+import { describe, expect, it } from 'vitest'
+import { clusterListings, resolveCanonicalIds, selectCanonical } from '../dedupe/cluster'
+import { matchListings, nameSimilarity, normalizeBuildingName } from '../dedupe/matcher'
+
+/** テスト用の掲載（SUUMO の掲載を基準に上書きする） */
+function listing(overrides: Partial<DedupeListing>): DedupeListing {
+  return {
+    id: 'suumo-1',
+    externalId: '100000001',
+    source: 'suumo',
+    name: 'パークハイツ渋谷 203号室',
+    prefecture: '東京都',
+    city: '渋谷区',
+    ward: null,
+    town: '神南',
+    block: '1-2-3',
+    rent: 125000,
+    area: 25.5,
+    floorPlan: '1K',
+    roomFloor: 2,
+    firstSeenAt: '2026-09-01T00:00:00Z',
+    canonicalId: null,
+    ...overrides,
+  }
+}
+
+const suumo = listing({})
+const homes = listing({ id: 'homes-1', source: 'homes', externalId: 'b-2001', name: 'パークハイツ渋谷', rent: 124000, area: 25.52, block: '1-2', firstSeenAt: '2026-09-10T00:00:00Z' })
+const nifty = listing({ id: 'nifty-1', source: 'nifty', externalId: 'n-3001', name: 'ﾊﾟｰｸﾊｲﾂ渋谷', firstSeenAt: '2026-08-01T00:00:00Z' })
+
+describe('normalizeBuildingName', () => {
+  it('全角・半角をそろえ、部屋番号と空白・記号を取り除く', () => {
+    expect(normalizeBuildingName('パークハイツ渋谷　２０３号室')).toBe('パークハイツ渋谷')
+    expect(normalizeBuildingName('Ｃａｔ－Ｈｏｕｓｅ 101')).toBe('cathouse')
+    expect(normalizeBuildingName('ﾊﾟｰｸﾊｲﾂ渋谷')).toBe('パークハイツ渋谷')
+  })
+})
+
+describe('nameSimilarity', () => {
+  it('表記ゆれのある同じ建物名は 1 を返す', () => {
+    expect(nameSimilarity('パークハイツ渋谷 203', 'パークハイツ渋谷')).toBe(1)
+  })
+
+  it('別の建物名は低い値を返す', () => {
+    expect(nameSimilarity('パークハイツ渋谷', 'メゾン神南')).toBeLessThan(0.3)
+  })
+
+  it('どちらかの名前が空の場合は 0 を返す', () => {
+    expect(nameSimilarity('', 'パークハイツ渋谷')).toBe(0)
+  })
+})
+
+describe('matchListings', () => {
+  it('住所・賃料・面積・建物名が一致する掲載を同じ部屋と判定する', () => {
+    expect(matchListings(suumo, homes)).toBe(1)
+  })
+
+  it('号を省略した番地も同じ住所として扱う', () => {
+    expect(matchListings(suumo, listing({ block: '1-2' }))).not.toBeNull()
+    expect(matchListings(suumo, listing({ block: '1-3' }))).toBeNull()
+  })
+
+  it('間取り・所在階が異なる場合は別の部屋と判定する', () => {
+    expect(matchListings(suumo, listing({ floorPlan: '1DK' }))).toBeNull()
+    expect(matchListings(suumo, listing({ roomFloor: 3 }))).toBeNull()
+  })
+
+  it('賃料・面積の差が許容差を超える場合は別の部屋と判定する', () => {
+    expect(matchListings(suumo, listing({ rent: 135000 }))).toBeNull()
+    expect(matchListings(suumo, listing({ area: 26.5 }))).toBeNull()
+  })
+
+  it('建物名が違っても番地・面積・所在階が一致すれば同じ部屋と判定する', () => {
+    const unnamed = listing({ name: '山手線 渋谷駅 5階建 築8年' })
+    expect(matchListings(suumo, unnamed)).not.toBeNull()
+  })
+
+  it('建物名が違い番地の記載がない場合は別の部屋と判定する', () => {
+    const unnamed = listing({ name: '山手線 渋谷駅 5階建 築8年', block: null })
+    expect(matchListings(suumo, unnamed)).toBeNull()
+  })
+})
+
+describe('clusterListings', () => {
+  it('複数のサイトの同じ部屋を1つにまとめる', () => {
+    const other = listing({ id: 'suumo-2', externalId: '100000002', town: '宇田川町', name: 'メゾン宇田川' })
+    const clusters = clusterListings([suumo, homes, nifty, other])
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].memberIds).toEqual(['suumo-1', 'homes-1', 'nifty-1'])
+  })
+
+  it('同じサイトの掲載は同じまとまりに入れない', () => {
+    const sameSource = listing({ id: 'suumo-2', externalId: '100000002' })
+    const clusters = clusterListings([suumo, sameSource, homes])
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].memberIds).toHaveLength(2)
+    expect(clusters[0].memberIds).toContain('homes-1')
+  })
+
+  it('その他（構造化データ）のサイトはホスト名で区別する', () => {
+    const siteA = listing({ id: 'other-1', source: 'other', externalId: 'neko-a.example.jp:101' })
+    const siteB = listing({ id: 'other-2', source: 'other', externalId: 'neko-b.example.jp:M-1' })
+
+    expect(clusterListings([siteA, siteB])).toHaveLength(1)
+  })
+
+  it('市区町村が異なる掲載は比較しない', () => {
+    expect(clusterListings([suumo, listing({ id: 'homes-1', source: 'homes', city: '目黒区' })])).toEqual([])
+  })
+})
+
+describe('selectCanonical', () => {
+  it('集約サイト以外の掲載を代表にする', () => {
+    expect(selectCanonical([nifty, suumo, homes]).id).toBe('suumo-1')
+  })
+
+  it('現在の代表の物件を優先する', () => {
+    const group = [{ ...suumo, canonicalId: 'homes-1' }, homes, { ...nifty, canonicalId: 'homes-1' }]
+
+    expect(selectCanonical(group).id).toBe('homes-1')
+  })
+})
+
+describe('resolveCanonicalIds', () => {
+  it('代表以外の掲載に代表の物件ID を設定し、代表と重複のない物件は null にする', () => {
+    const single = listing({ id: 'athome-1', source: 'athome', city: '目黒区' })
+    const canonicalIds = resolveCanonicalIds([suumo, homes, nifty, single])
+
+    expect(Object.fromEntries(canonicalIds)).toEqual({
+      'suumo-1': null,
+      'homes-1': 'suumo-1',
+      'nifty-1': 'suumo-1',
+      'athome-1': null,
+    })
+  })
+})
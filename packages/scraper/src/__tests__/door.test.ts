@@ -199,6 +199,20 @@ describe('DoorScraper', () => {
       expect(result.keyMoney).toBe(115000)
     })
 
+    it('敷金・礼金の月数を抽出できる', () => {
+      const scraper = new DoorScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.depositMonths).toBe(2)
+      expect(result.keyMoneyMonths).toBe(1)
+    })
+
+    it('保証金・敷引の記載がない場合は0になる', () => {
+      const scraper = new DoorScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.guaranteeDeposit).toBe(0)
+      expect(result.depositAmortization).toBe(0)
+    })
+
     it('間取りを抽出できる', () => {
       const scraper = new DoorScraper()
       const result = scraper.parseDetailHtml(detailHtml)
@@ -229,21 +243,31 @@ describe('DoorScraper', () => {
       expect(result.floors).toBe(8)
     })
 
+    it('部屋の所在階を抽出できる', () => {
+      const scraper = new DoorScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.roomFloor).toBe(1)
+    })
+
     it('最寄り駅情報を抽出できる', () => {
       const scraper = new DoorScraper()
       const result = scraper.parseDetailHtml(detailHtml)
       expect(result.nearestStations).toHaveLength(2)
       expect(result.nearestStations[0]).toEqual({
         line: 'JR山手線',
-        station: '渋谷駅',
+        station: '渋谷',
         walkMinutes: 7,
         busMinutes: null,
+        lineId: 'jr-yamanote',
+        stationId: 'shibuya',
       })
       expect(result.nearestStations[1]).toEqual({
         line: '東京メトロ半蔵門線',
-        station: '渋谷駅',
+        station: '渋谷',
         walkMinutes: 5,
         busMinutes: null,
+        lineId: 'tokyo-metro-hanzomon',
+        stationId: 'shibuya',
       })
     })
 
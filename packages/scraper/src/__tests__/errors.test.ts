@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { detectBlockedPage } from '../http/blocked'
+import { CircuitOpenError, HttpStatusError, ParseError, toScrapeError } from '../http/errors'
+import { SuumoScraper } from '../sources/suumo'
+
+describe('toScrapeError', () => {
+  it('HTTP ステータスを分類する', () => {
+    expect(toScrapeError(new HttpStatusError('https://suumo.jp/a', 500, 'Internal Server Error'))).toEqual({
+      code: 'http_status',
+      message: 'HTTP 500: Internal Server Error',
+      url: 'https://suumo.jp/a',
+      status: 500,
+    })
+    expect(toScrapeError(new HttpStatusError('https://suumo.jp/a', 403, 'Forbidden')).code).toBe('blocked')
+  })
+
+  it('接続エラーを network に分類する', () => {
+    const error = new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } })
+
+    expect(toScrapeError(error, 'https://suumo.jp/a')).toEqual({
+      code: 'network',
+      message: 'fetch failed',
+      url: 'https://suumo.jp/a',
+    })
+  })
+
+  it('解析エラーは項目名を含める', () => {
+    expect(toScrapeError(new ParseError('rent', 'Missing rent')).field).toBe('rent')
+  })
+
+  it('その他のエラーを分類する', () => {
+    expect(toScrapeError(new CircuitOpenError('suumo', 5)).code).toBe('circuit_open')
+    expect(toScrapeError(new Error('oops')).code).toBe('unknown')
+    expect(toScrapeError('oops')).toEqual({ code: 'unknown', message: 'Unknown error', url: undefined })
+  })
+})
+
+describe('detectBlockedPage', () => {
+  it('CAPTCHA・アクセス制限ページを判別する', () => {
+    expect(detectBlockedPage('<title>CAPTCHA認証</title>')).toBe('CAPTCHA')
+    expect(detectBlockedPage('<title>アクセスが制限されています</title>')).toBe('access denied')
+    expect(detectBlockedPage('<title>Just a moment...</title>')).toBe('Cloudflare challenge')
+    expect(detectBlockedPage('<script>window._cf_chl_opt = { cvId: "3" }</script>')).toBe('Cloudflare challenge')
+    expect(detectBlockedPage('<div id="cf-chl-widget-a1b2"></div>')).toBe('Cloudflare challenge')
+  })
+
+  it('問い合わせフォームの reCAPTCHA は判別しない', () => {
+    expect(detectBlockedPage('<title>メゾン猫の家</title><div class="g-recaptcha"></div>')).toBeNull()
+  })
+
+  it('問い合わせフォームの Cloudflare Turnstile は判別しない', () => {
+    const html = '<title>メゾン猫の家</title>'
+      + '<script src="https://challenges.cloudflare.com/turnstile/v0/api.js" async defer></script>'
+      + '<div class="cf-turnstile" data-sitekey="0x4AAAAAAA"></div>'
+    expect(detectBlockedPage(html)).toBeNull()
+  })
+})
+
+describe('スクレイパーのエラー分類', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('CAPTCHA ページはリトライせずに blocked を返す', async () => {
+    const fetchMock = vi.fn(async () => new Response('<html><title>Captcha</title></html>'))
+    vi.stubGlobal('fetch', fetchMock)
+    const scraper = new SuumoScraper({ requestDelay: 0, retryDelay: 1, respectRobotsTxt: false })
+
+    const result = await scraper.scrapeDetail('https://suumo.jp/chintai/jnc_000000001/')
+
+    expect(result.error?.code).toBe('blocked')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('URL から external_id を取得できない場合は parse_failure を返す', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<html></html>')))
+    const scraper = new SuumoScraper({ requestDelay: 0, respectRobotsTxt: false })
+
+    const result = await scraper.scrapeDetail('https://suumo.jp/chintai/unknown/')
+
+    expect(result.error).toMatchObject({ code: 'parse_failure', field: 'externalId' })
+  })
+})
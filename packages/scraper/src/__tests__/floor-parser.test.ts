@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { parseBuildingFloors, parseRoomFloor } from '../utils/floor-parser'
+
+describe('parseBuildingFloors', () => {
+  it('「N階建」から地上階数を抽出する', () => {
+    expect(parseBuildingFloors('RC / 10階建')).toBe(10)
+    expect(parseBuildingFloors('鉄筋コンクリート造（RC） 地上１０階建')).toBe(10)
+  })
+
+  it('地下階がある場合も地上階数を返す', () => {
+    expect(parseBuildingFloors('鉄筋コンクリート造 地下1階地上5階建')).toBe(5)
+    expect(parseBuildingFloors('鉄筋コンクリート造 地上5階地下1階建')).toBe(5)
+  })
+
+  it('建物の階数の記載がない場合は null を返す', () => {
+    expect(parseBuildingFloors('2階')).toBeNull()
+    expect(parseBuildingFloors('')).toBeNull()
+  })
+})
+
+describe('parseRoomFloor', () => {
+  it('「N階」から所在階を抽出する', () => {
+    expect(parseRoomFloor('2階')).toBe(2)
+    expect(parseRoomFloor('１階部分')).toBe(1)
+    expect(parseRoomFloor('3F')).toBe(3)
+  })
+
+  it('地下は負の値で返す', () => {
+    expect(parseRoomFloor('地下1階')).toBe(-1)
+    expect(parseRoomFloor('B1階')).toBe(-1)
+    expect(parseRoomFloor('B2')).toBe(-2)
+  })
+
+  it('建物の階数と並んでいる場合は所在階だけを取り出す', () => {
+    expect(parseRoomFloor('10階建 / 2階')).toBe(2)
+    expect(parseRoomFloor('地下1階地上5階建 / 地下1階')).toBe(-1)
+    expect(parseRoomFloor('地上5階地下1階建 / 3階')).toBe(3)
+  })
+
+  it('メゾネットは下の階を返す', () => {
+    expect(parseRoomFloor('2-3階')).toBe(2)
+    expect(parseRoomFloor('1～2階')).toBe(1)
+  })
+
+  it('所在階の記載がない場合は null を返す', () => {
+    expect(parseRoomFloor('10階建')).toBeNull()
+    expect(parseRoomFloor('地下1階地上5階建')).toBeNull()
+    expect(parseRoomFloor('地上5階地下1階建')).toBeNull()
+    expect(parseRoomFloor('-')).toBeNull()
+  })
+})
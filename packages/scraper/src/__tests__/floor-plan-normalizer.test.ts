@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeFloorPlan, parseRoomSizes } from '../utils/floor-plan-normalizer'
+
+describe('normalizeFloorPlan', () => {
+  it('全角の表記を半角にそろえる', () => {
+    expect(normalizeFloorPlan('１ＬＤＫ')).toBe('1LDK')
+    expect(normalizeFloorPlan(' 2dk ')).toBe('2DK')
+  })
+
+  it('1R・ワンルームをワンルームに統一する', () => {
+    expect(normalizeFloorPlan('1R')).toBe('ワンルーム')
+    expect(normalizeFloorPlan('１Ｒ')).toBe('ワンルーム')
+    expect(normalizeFloorPlan('ワンルーム')).toBe('ワンルーム')
+  })
+
+  it('納戸・サービスルーム付きを SLDK の形式にそろえる', () => {
+    expect(normalizeFloorPlan('2LDK+S')).toBe('2SLDK')
+    expect(normalizeFloorPlan('2LDK+納戸')).toBe('2SLDK')
+    expect(normalizeFloorPlan('2LDK+S(納戸)')).toBe('2SLDK')
+    expect(normalizeFloorPlan('3SLDK')).toBe('3SLDK')
+    expect(normalizeFloorPlan('1SK')).toBe('1SK')
+  })
+
+  it('ロフトなどの付帯表記を除く', () => {
+    expect(normalizeFloorPlan('1K+ロフト')).toBe('1K')
+    expect(normalizeFloorPlan('ワンルーム(ロフト付)')).toBe('ワンルーム')
+  })
+
+  it('解釈できない表記はそのまま返す', () => {
+    expect(normalizeFloorPlan('その他')).toBe('その他')
+    expect(normalizeFloorPlan('')).toBe('')
+  })
+})
+
+describe('parseRoomSizes', () => {
+  it('略記の部屋と広さを抽出する', () => {
+    expect(parseRoomSizes('洋6 DK8')).toEqual([
+      { type: 'western', size: 6 },
+      { type: 'dk', size: 8 },
+    ])
+  })
+
+  it('帖・畳の単位と小数に対応する', () => {
+    expect(parseRoomSizes('LDK12.5帖 和室6畳 洋室4.5帖')).toEqual([
+      { type: 'ldk', size: 12.5 },
+      { type: 'japanese', size: 6 },
+      { type: 'western', size: 4.5 },
+    ])
+  })
+
+  it('納戸・サービスルームを storage として扱う', () => {
+    expect(parseRoomSizes('ＬＤＫ１０ 洋６ 納戸３')).toEqual([
+      { type: 'ldk', size: 10 },
+      { type: 'western', size: 6 },
+      { type: 'storage', size: 3 },
+    ])
+  })
+
+  it('広さの記載がない場合は空配列を返す', () => {
+    expect(parseRoomSizes('2LDK')).toEqual([])
+    expect(parseRoomSizes('')).toEqual([])
+  })
+})
@@ -0,0 +1,93 @@
+import type { Property } from '@cat-home/shared'
+import type { CentroidDataset } from '../geo/types'
+import { describe, expect, it } from 'vitest'
+import { MUNICIPALITIES, PREFECTURES } from '../areas/catalog'
+import { geocodeAddress, geocodeProperty } from '../geo/geocoder'
+import { normalizeAddress } from '../utils/address-normalizer'
+
+const dataset: CentroidDataset = {
+  cities: {
+    東京都目黒区: [35.6415, 139.6982],
+    神奈川県横浜市: [35.4437, 139.6380],
+  },
+  towns: {
+    '東京都目黒区/中目黒': [35.6440, 139.6989],
+    '東京都目黒区/中目黒/2': [35.6448, 139.6984],
+  },
+}
+
+describe('geocodeAddress', () => {
+  it('丁目が一致する場合は block 精度になる', () => {
+    expect(geocodeAddress(normalizeAddress('東京都目黒区中目黒二丁目5-8'), dataset)).toEqual({
+      latitude: 35.6448,
+      longitude: 139.6984,
+      precision: 'block',
+    })
+  })
+
+  it('丁目がない場合は町域の代表点を使う', () => {
+    expect(geocodeAddress(normalizeAddress('東京都目黒区中目黒4-1'), dataset)?.precision).toBe('town')
+  })
+
+  it('町域がない場合は市区町村の代表点を使う', () => {
+    expect(geocodeAddress(normalizeAddress('東京都目黒区祐天寺1-1'), dataset)).toEqual({
+      latitude: 35.6415,
+      longitude: 139.6982,
+      precision: 'city',
+    })
+  })
+
+  it('政令指定都市の区がない場合は市の代表点を使う', () => {
+    const result = geocodeAddress(normalizeAddress('神奈川県横浜市港北区日吉本町1-2-3'), dataset)
+
+    expect(result).toEqual({ latitude: 35.4437, longitude: 139.6380, precision: 'city' })
+  })
+
+  it('市区町村も一致しない場合は null を返す', () => {
+    expect(geocodeAddress(normalizeAddress('北海道余市郡余市町黒川町5丁目'), dataset)).toBeNull()
+    expect(geocodeAddress(normalizeAddress('住所不明'), dataset)).toBeNull()
+  })
+
+  it('同梱データで主要エリアを変換できる', () => {
+    expect(geocodeAddress(normalizeAddress('東京都新宿区西新宿3-8-12'))?.precision).toBe('block')
+    expect(geocodeAddress(normalizeAddress('東京都八王子市元本郷町3-24-1'))?.precision).toBe('city')
+  })
+
+  it('同梱データで市区町村カタログのすべての市区町村を変換できる', () => {
+    const missing = MUNICIPALITIES.filter((m) => {
+      const prefecture = PREFECTURES.find(p => m.code.startsWith(p.code))!
+      return !geocodeAddress({ prefecture: prefecture.name, city: m.name, ward: null, town: null, block: null })
+    })
+    expect(missing.map(m => m.name)).toEqual([])
+    expect(geocodeAddress(normalizeAddress('神奈川県横浜市港北区大倉山1-1'))?.precision).toBe('city')
+    expect(geocodeAddress(normalizeAddress('大阪府大阪市北区梅田1-1'))?.precision).toBe('city')
+  })
+})
+
+describe('geocodeProperty', () => {
+  it('物件に緯度経度と精度を設定する', () => {
+    const property: Partial<Property> = {
+      address: '東京都目黒区中目黒2-5-8',
+      ...normalizeAddress('東京都目黒区中目黒2-5-8'),
+    }
+
+    geocodeProperty(property)
+
+    expect(property).toMatchObject({ latitude: 35.6448, longitude: 139.6984, geocodePrecision: 'block' })
+  })
+
+  it('正規化済みの住所項目がない場合は address から求める', () => {
+    const property: Partial<Property> = { address: '東京都渋谷区神宮前1-2-3' }
+
+    geocodeProperty(property)
+
+    expect(property.geocodePrecision).toBe('block')
+  })
+
+  it('変換できない場合は null を設定する', () => {
+    const property: Partial<Property> = { address: '', latitude: 35, longitude: 139 }
+
+    expect(geocodeProperty(property)).toBeNull()
+    expect(property).toMatchObject({ latitude: null, longitude: null, geocodePrecision: null })
+  })
+})
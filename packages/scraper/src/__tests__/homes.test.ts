@@ -197,6 +197,15 @@ describe('HomesScraper', () => {
       expect(result.floorPlan).toBe('1LDK')
     })
 
+    it('間取り詳細から部屋ごとの広さを抽出できる', () => {
+      const scraper = new HomesScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.roomSizes).toEqual([
+        { type: 'ldk', size: 12.5 },
+        { type: 'western', size: 6 },
+      ])
+    })
+
     it('専有面積を抽出できる', () => {
       const scraper = new HomesScraper()
       const result = scraper.parseDetailHtml(detailHtml)
@@ -221,15 +230,23 @@ describe('HomesScraper', () => {
       expect(result.floors).toBe(10)
     })
 
+    it('部屋の所在階を抽出できる', () => {
+      const scraper = new HomesScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.roomFloor).toBe(3)
+    })
+
     it('最寄り駅情報を抽出できる', () => {
       const scraper = new HomesScraper()
       const result = scraper.parseDetailHtml(detailHtml)
       expect(result.nearestStations).toHaveLength(3)
       expect(result.nearestStations[0]).toEqual({
         line: '東急東横線',
-        station: '中目黒駅',
+        station: '中目黒',
         walkMinutes: 8,
         busMinutes: null,
+        lineId: 'tokyu-toyoko',
+        stationId: 'naka-meguro',
       })
     })
 
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { parseMoneyTerm, parseYen } from '../utils/money-parser'
+
+describe('parseMoneyTerm', () => {
+  describe('費用なし', () => {
+    it.each(['なし', '-', '--', '－', '無', '0円', ''])('「%s」は0円として扱う', text => {
+      expect(parseMoneyTerm(text, { rent: 85000 })).toEqual({
+        amount: 0,
+        months: null,
+        petSurcharge: null,
+        petSurchargeMonths: null,
+      })
+    })
+  })
+
+  describe('金額表記', () => {
+    it('万円表記を円に変換する', () => {
+      expect(parseMoneyTerm('8.5万円').amount).toBe(85000)
+      expect(parseMoneyTerm('30万').amount).toBe(300000)
+    })
+
+    it('カンマ区切りの円表記を変換する', () => {
+      expect(parseMoneyTerm('152,000円').amount).toBe(152000)
+      expect(parseMoneyTerm('１５２，０００円').amount).toBe(152000)
+    })
+
+    it('金額表記の場合は months が null になる', () => {
+      expect(parseMoneyTerm('8.5万円', { rent: 85000 }).months).toBeNull()
+    })
+  })
+
+  describe('月数表記', () => {
+    it('ヶ月・ヵ月・か月表記を賃料から計算する', () => {
+      expect(parseMoneyTerm('1ヶ月', { rent: 85000 })).toMatchObject({ amount: 85000, months: 1 })
+      expect(parseMoneyTerm('2ヵ月', { rent: 85000 })).toMatchObject({ amount: 170000, months: 2 })
+      expect(parseMoneyTerm('1か月分', { rent: 85000 })).toMatchObject({ amount: 85000, months: 1 })
+    })
+
+    it('小数の月数に対応する', () => {
+      expect(parseMoneyTerm('0.5ヶ月', { rent: 85000 })).toMatchObject({ amount: 42500, months: 0.5 })
+    })
+
+    it('賃料が指定されていない場合も月数を返す', () => {
+      expect(parseMoneyTerm('1ヶ月')).toMatchObject({ amount: 0, months: 1 })
+    })
+  })
+
+  describe('ペット飼育時の追加分', () => {
+    it('「+1ヶ月」を追加分として切り離す', () => {
+      expect(parseMoneyTerm('1ヶ月（ペット飼育時+1ヶ月）', { rent: 85000 })).toEqual({
+        amount: 85000,
+        months: 1,
+        petSurcharge: 85000,
+        petSurchargeMonths: 1,
+      })
+    })
+
+    it('「1ヶ月追加」「プラス5万円」の表記に対応する', () => {
+      expect(parseMoneyTerm('なし(ペット飼育の場合1ヶ月追加)', { rent: 85000 })).toMatchObject({
+        amount: 0,
+        petSurcharge: 85000,
+        petSurchargeMonths: 1,
+      })
+      expect(parseMoneyTerm('10万円 ペット可の場合プラス5万円')).toMatchObject({
+        amount: 100000,
+        petSurcharge: 50000,
+        petSurchargeMonths: null,
+      })
+    })
+
+    it('ペット飼育時の合計で書かれている場合は差額を追加分とする', () => {
+      expect(parseMoneyTerm('1ヶ月（ペット飼育時2ヶ月）', { rent: 85000 })).toMatchObject({
+        amount: 85000,
+        petSurcharge: 85000,
+        petSurchargeMonths: 1,
+      })
+    })
+
+    it('ペットの記載に金額がない場合は null のまま', () => {
+      expect(parseMoneyTerm('1ヶ月（ペット相談）', { rent: 85000 })).toMatchObject({
+        amount: 85000,
+        petSurcharge: null,
+      })
+    })
+  })
+
+  describe('敷引・償却', () => {
+    it('割合表記を基準額から計算する', () => {
+      expect(parseMoneyTerm('50%', { base: 300000 }).amount).toBe(150000)
+      expect(parseMoneyTerm('5割', { base: 300000 }).amount).toBe(150000)
+    })
+
+    it('月数・金額表記の償却に対応する', () => {
+      expect(parseMoneyTerm('1ヶ月', { rent: 85000, base: 300000 }).amount).toBe(85000)
+      expect(parseMoneyTerm('20万円', { base: 300000 }).amount).toBe(200000)
+    })
+  })
+})
+
+describe('parseYen', () => {
+  it('万円・円表記を円に変換する', () => {
+    expect(parseYen('8.5万円')).toBe(85000)
+    expect(parseYen('85,000円')).toBe(85000)
+  })
+
+  it('費用なしの表記は0を返す', () => {
+    expect(parseYen('なし')).toBe(0)
+    expect(parseYen('-')).toBe(0)
+    expect(parseYen('')).toBe(0)
+  })
+})
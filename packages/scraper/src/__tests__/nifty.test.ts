@@ -248,14 +248,21 @@ describe('NiftyScraper', () => {
       expect(result.floors).toBe(15)
     })
 
+    it('部屋の所在階を抽出できる', () => {
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.roomFloor).toBe(2)
+    })
+
     it('最寄り駅情報を抽出できる', () => {
       const result = scraper.parseDetailHtml(detailHtml)
       expect(result.nearestStations).toHaveLength(2)
       expect(result.nearestStations[0]).toEqual({
         line: '都営大江戸線',
-        station: '都庁前駅',
+        station: '都庁前',
         walkMinutes: 6,
         busMinutes: null,
+        lineId: 'toei-oedo',
+        stationId: 'tochomae',
       })
     })
 
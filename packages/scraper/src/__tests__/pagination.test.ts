@@ -0,0 +1,127 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { HttpStatusError } from '../http/errors'
+import { DoorScraper } from '../sources/door'
+import { SuumoScraper } from '../sources/suumo'
+
+// テスト用HTMLの読み込み
+const doorListHtml = readFileSync(
+  resolve(__dirname, 'fixtures/door-list.html'),
+  'utf-8',
+)
+
+const suumoListHtml = readFileSync(
+  resolve(__dirname, 'fixtures/suumo-list.html'),
+  'utf-8',
+)
+
+/**
+ * ページ番号ごとのレスポンスを返すテスト用スクレイパーを作成
+ * 値が Error の場合はそのページの取得に失敗する
+ */
+function withPages<T extends DoorScraper | SuumoScraper>(scraper: T, pages: Record<string, string | Error>) {
+  const requested: string[] = []
+  Object.assign(scraper, {
+    fetchPage: async (url: string) => {
+      requested.push(url)
+      const page = new URL(url).searchParams.get('page') ?? '1'
+      const response = pages[page]
+      if (response === undefined) {
+        throw new Error(`HTTP 404: ${url}`)
+      }
+      if (response instanceof Error) {
+        throw response
+      }
+      return { html: response, notModified: false }
+    },
+  })
+  return { scraper, requested }
+}
+
+/** SUUMO のページ送りHTML */
+function suumoPagination(current: number, last: number): string {
+  const next = current < last ? `<p class="pagination-parts"><a href="/chintai/tokyo/sc_shibuya/?pet=2&page=${current + 1}">次へ</a></p>` : ''
+  const numbers = Array.from({ length: last }, (_, i) => `<li><a href="?page=${i + 1}">${i + 1}</a></li>`).join('')
+  return `<div class="pagination">${next}<ol class="pagination-parts">${numbers}</ol></div>`
+}
+
+describe('scrapeList のページ送り', () => {
+  it('次ページリンクを辿り、maxPages で打ち切る', async () => {
+    const { scraper, requested } = withPages(new DoorScraper({ maxPages: 3 }), {
+      1: doorListHtml,
+      2: doorListHtml,
+      3: doorListHtml,
+    })
+
+    const result = await scraper.scrapeList('https://door.ac/specials/feature7/tokyo/list')
+
+    expect(result.success).toBe(true)
+    expect(result.pages).toBe(3)
+    expect(requested).toEqual([
+      'https://door.ac/specials/feature7/tokyo/list',
+      'https://door.ac/specials/feature7/tokyo/list?page=2',
+      'https://door.ac/specials/feature7/tokyo/list?page=3',
+    ])
+  })
+
+  it('複数ページに現れた同じ物件は1件にまとめる', async () => {
+    const single = await withPages(new DoorScraper({ maxPages: 1 }), { 1: doorListHtml })
+      .scraper.scrapeList('https://door.ac/specials/feature7/tokyo/list')
+    const { scraper } = withPages(new DoorScraper({ maxPages: 2 }), { 1: doorListHtml, 2: doorListHtml })
+
+    const result = await scraper.scrapeList('https://door.ac/specials/feature7/tokyo/list')
+
+    expect(result.properties).toHaveLength(single.properties.length)
+  })
+
+  it('最終ページで停止する', async () => {
+    const { scraper, requested } = withPages(new SuumoScraper(), {
+      1: suumoListHtml + suumoPagination(1, 2),
+      2: suumoListHtml.replace(/jnc_0000/g, 'jnc_9999') + suumoPagination(2, 2),
+    })
+
+    const result = await scraper.scrapeList('https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2')
+
+    expect(result.success).toBe(true)
+    expect(result.pages).toBe(2)
+    expect(result.properties).toHaveLength(6)
+    expect(requested).toHaveLength(2)
+  })
+
+  it('途中のページで失敗しても、取得できたページの物件と失敗したページを返す', async () => {
+    const { scraper, requested } = withPages(new SuumoScraper(), {
+      1: suumoListHtml + suumoPagination(1, 3),
+      2: new HttpStatusError('https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2&page=2', 503, 'Service Unavailable'),
+      3: suumoListHtml.replace(/jnc_0000/g, 'jnc_9999') + suumoPagination(3, 3),
+    })
+
+    const result = await scraper.scrapeList('https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2')
+
+    // 総ページ数が分かっているため、失敗したページの次からページ番号で続行する
+    expect(requested[2]).toBe('https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2&page=3')
+    expect(result.success).toBe(true)
+    expect(result.pages).toBe(2)
+    expect(result.properties).toHaveLength(6)
+    expect(result.pageErrors).toEqual([
+      {
+        code: 'http_status',
+        message: 'HTTP 503: Service Unavailable',
+        url: 'https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2&page=2',
+        status: 503,
+      },
+    ])
+  })
+
+  it('1ページ目で失敗した場合は success が false になる', async () => {
+    const { scraper } = withPages(new SuumoScraper(), {
+      1: new Error('HTTP 500: Internal Server Error'),
+    })
+
+    const result = await scraper.scrapeList('https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2')
+
+    expect(result.success).toBe(false)
+    expect(result.error?.message).toBe('HTTP 500: Internal Server Error')
+    expect(result.properties).toHaveLength(0)
+  })
+})
@@ -133,4 +133,152 @@ describe('parsePetConditions', () => {
       expect(result.additionalDeposit).toBe(85000)
     })
   })
+
+  describe('可否の判定（可・相談・不可・記載なし）', () => {
+    it('「猫可」は allowed、「ペット相談」は negotiable になる', () => {
+      expect(parsePetConditions(['猫可']).cat).toBe('allowed')
+      expect(parsePetConditions(['ペット相談']).cat).toBe('negotiable')
+      expect(parsePetConditions(['ペット相談']).dog).toBe('negotiable')
+    })
+
+    it('「猫不可」は forbidden になり catAllowed が false になる', () => {
+      const result = parsePetConditions(['猫不可'])
+      expect(result.cat).toBe('forbidden')
+      expect(result.catAllowed).toBe(false)
+    })
+
+    it('「ペット可（猫不可）」は動物ごとの記載を優先する', () => {
+      const result = parsePetConditions(['ペット可（猫不可）'])
+      expect(result.cat).toBe('forbidden')
+      expect(result.dog).toBe('allowed')
+    })
+
+    it('「ペット可・猫不可」のように区切りがなくても動物ごとに判定する', () => {
+      const result = parsePetConditions(['ペット可・猫不可'])
+      expect(result.cat).toBe('forbidden')
+      expect(result.dog).toBe('allowed')
+    })
+
+    it('「猫可・犬不可」「猫・小型犬可」を動物ごとに判定する', () => {
+      expect(parsePetConditions(['猫可・犬不可'])).toMatchObject({ cat: 'allowed', dog: 'forbidden' })
+      expect(parsePetConditions(['猫・小型犬可'])).toMatchObject({ cat: 'allowed', dog: 'allowed', smallDogOnly: true })
+    })
+
+    it('「犬以外のペット可」は犬を不可とする', () => {
+      const result = parsePetConditions(['犬以外のペット可'])
+      expect(result.cat).toBe('allowed')
+      expect(result.dog).toBe('forbidden')
+    })
+
+    it('「ペット可（犬のみ）」は猫を不可とする', () => {
+      const result = parsePetConditions(['ペット可（犬のみ）'])
+      expect(result).toMatchObject({ cat: 'forbidden', dog: 'allowed', catAllowed: false, dogAllowed: true })
+      expect(result.evidence).toContainEqual({ field: 'cat', text: '犬のみ', start: 5, end: 8 })
+    })
+
+    it('「小型犬のみ可」は猫を不可とする', () => {
+      const result = parsePetConditions(['小型犬のみ可'])
+      expect(result).toMatchObject({ cat: 'forbidden', dog: 'allowed', catAllowed: false, smallDogOnly: true })
+    })
+
+    it('「猫のみ可」は犬を不可とする', () => {
+      const result = parsePetConditions(['ペット可', '猫のみ可（1匹まで）'])
+      expect(result).toMatchObject({ cat: 'allowed', dog: 'forbidden', catLimit: 1, dogAllowed: false })
+    })
+
+    it('「猫・小型犬のみ可」は名指しされた動物をどちらも可とする', () => {
+      expect(parsePetConditions(['猫・小型犬のみ可'])).toMatchObject({ cat: 'allowed', dog: 'allowed' })
+    })
+
+    it('「猫 不可」「ペット可 猫 相談」のように空白で区切られた可否を動物に結びつける', () => {
+      expect(parsePetConditions(['猫 不可']).cat).toBe('forbidden')
+      expect(parsePetConditions(['ペット可 猫 相談'])).toMatchObject({ cat: 'negotiable', dog: 'allowed' })
+      expect(parsePetConditions(['ペット可 猫 不可'])).toMatchObject({ cat: 'forbidden', dog: 'allowed', catAllowed: false })
+    })
+
+    it('「猫、犬不可」のように読点で並べた動物をまとめて判定する', () => {
+      expect(parsePetConditions(['猫、犬不可'])).toMatchObject({ cat: 'forbidden', dog: 'forbidden' })
+      expect(parsePetConditions(['猫、小型犬 相談'])).toMatchObject({ cat: 'negotiable', dog: 'negotiable' })
+    })
+
+    it('「ペット不可」「ペット飼育禁止」は forbidden になる', () => {
+      expect(parsePetConditions(['ペット不可']).cat).toBe('forbidden')
+      expect(parsePetConditions(['ペット飼育禁止']).dog).toBe('forbidden')
+    })
+
+    it('「大型犬不可」だけでは犬全般を不可にしない', () => {
+      const result = parsePetConditions(['小型犬可', '大型犬不可'])
+      expect(result.dog).toBe('allowed')
+      expect(result.smallDogOnly).toBe(true)
+    })
+
+    it('記載がない場合は unknown になる', () => {
+      const result = parsePetConditions(['敷金1ヶ月追加'], 85000)
+      expect(result.cat).toBe('unknown')
+      expect(result.dog).toBe('unknown')
+    })
+  })
+
+  describe('頭数制限（漢数字）', () => {
+    it('「二匹まで」「2頭以内」を読み取る', () => {
+      expect(parsePetConditions(['猫二匹まで']).catLimit).toBe(2)
+      expect(parsePetConditions(['小型犬可（2頭以内）']).dogLimit).toBe(2)
+    })
+
+    it('犬の頭数制限は猫の頭数制限にしない', () => {
+      const result = parsePetConditions(['猫可', '小型犬可（1匹まで）'])
+      expect(result.catLimit).toBeNull()
+      expect(result.dogLimit).toBe(1)
+    })
+  })
+
+  describe('判定の根拠', () => {
+    it('判定に使ったテキストと位置を evidence に格納する', () => {
+      const result = parsePetConditions(['ペット可（猫不可）', '敷金1ヶ月追加'], 85000)
+
+      expect(result.evidence).toEqual([
+        { field: 'cat', text: '猫不可', start: 5, end: 8 },
+        { field: 'dog', text: 'ペット可', start: 0, end: 4 },
+        { field: 'additionalDeposit', text: '敷金1ヶ月追加', start: 10, end: 17 },
+      ])
+    })
+  })
+
+  describe('ペット飼育の費用', () => {
+    it('「ペット飼育料 月額3,000円」から月額費用を抽出する', () => {
+      expect(parsePetConditions(['ペット飼育料 月額3,000円']).monthlyFee).toBe(3000)
+      expect(parsePetConditions(['猫可（ペット飼育費 2,000円/月）']).monthlyFee).toBe(2000)
+    })
+
+    it('敷金償却を家賃から計算する', () => {
+      expect(parsePetConditions(['ペット飼育時 敷金1ヶ月償却'], 85000).depositAmortization).toBe(85000)
+      expect(parsePetConditions(['敷金償却1ヶ月'], 85000).depositAmortization).toBe(85000)
+      expect(parsePetConditions(['償却5万円']).depositAmortization).toBe(50000)
+    })
+
+    it('退去時のクリーニング費用を抽出する', () => {
+      expect(parsePetConditions(['退去時クリーニング費3万円']).cleaningFee).toBe(30000)
+      expect(parsePetConditions(['ペット消毒費用 20,000円']).cleaningFee).toBe(20000)
+    })
+
+    it('備考に書かれた費用も抽出する', () => {
+      const result = parsePetConditions(['猫可'], 85000, 'ペット飼育の場合、月額3,000円の飼育料が必要です。退去時消毒費2万円。')
+      expect(result.monthlyFee).toBe(3000)
+      expect(result.cleaningFee).toBe(20000)
+    })
+
+    it('敷金の追加は月額費用や償却として扱わない', () => {
+      const result = parsePetConditions(['ペット飼育時敷金1ヶ月追加'], 85000)
+      expect(result.additionalDeposit).toBe(85000)
+      expect(result.monthlyFee).toBeNull()
+      expect(result.depositAmortization).toBeNull()
+    })
+
+    it('費用の記載がない場合は null になる', () => {
+      const result = parsePetConditions(['猫飼育可'])
+      expect(result.monthlyFee).toBeNull()
+      expect(result.depositAmortization).toBeNull()
+      expect(result.cleaningFee).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { CircuitOpenError, ListingGoneError } from '../http/errors'
+import { getBackoffDelay, parseRetryAfter } from '../http/retry'
+import { SuumoScraper } from '../sources/suumo'
+
+const DETAIL_URL = 'https://suumo.jp/chintai/jnc_000000001/'
+
+/** ステータスを順に返す fetch のモック（最後のステータスを繰り返す） */
+function mockFetch(...responses: (() => Response)[]) {
+  const fetchMock = vi.fn(async () => (responses.length > 1 ? responses.shift()! : responses[0])())
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function createScraper(config = {}) {
+  return new SuumoScraper({
+    requestDelay: 0,
+    retryDelay: 1,
+    respectRobotsTxt: false,
+    ...config,
+  })
+}
+
+describe('getBackoffDelay', () => {
+  it('試行ごとに倍増し、後半の半分をランダムにする', () => {
+    expect(getBackoffDelay(0, 1000, 60000, () => 0)).toBe(500)
+    expect(getBackoffDelay(0, 1000, 60000, () => 1)).toBe(1000)
+    expect(getBackoffDelay(2, 1000, 60000, () => 1)).toBe(4000)
+  })
+
+  it('maxDelay で頭打ちにする', () => {
+    expect(getBackoffDelay(10, 1000, 60000, () => 1)).toBe(60000)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('秒数をミリ秒に変換する', () => {
+    expect(parseRetryAfter('120')).toBe(120000)
+  })
+
+  it('HTTP 日付までの待機時間を返す', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT')
+
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30000)
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0)
+  })
+
+  it('不正な値は null を返す', () => {
+    expect(parseRetryAfter(null)).toBeNull()
+    expect(parseRetryAfter('soon')).toBeNull()
+  })
+})
+
+describe('fetchPage のリトライ', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('404 はリトライせずに掲載終了として返す', async () => {
+    const fetchMock = mockFetch(() => new Response('', { status: 404, statusText: 'Not Found' }))
+
+    const result = await createScraper().scrapeDetail(DETAIL_URL)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toEqual({
+      code: 'listing_gone',
+      message: new ListingGoneError(DETAIL_URL, 404, 'Not Found').message,
+      url: DETAIL_URL,
+      status: 404,
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('403 などの恒久的な 4xx はリトライしない', async () => {
+    const fetchMock = mockFetch(() => new Response('', { status: 403, statusText: 'Forbidden' }))
+
+    const result = await createScraper().scrapeDetail(DETAIL_URL)
+
+    expect(result.success).toBe(false)
+    expect(result.error?.code).toBe('blocked')
+    expect(result.error?.status).toBe(403)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('503 は Retry-After に従ってリトライする', async () => {
+    const fetchMock = mockFetch(
+      () => new Response('', { status: 503, headers: { 'Retry-After': '0' } }),
+      () => new Response('<html><body></body></html>'),
+    )
+
+    const result = await createScraper({ retryDelay: 60000 }).scrapeDetail(DETAIL_URL)
+
+    expect(result.success).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('Retry-After が maxRetryDelay を超える場合はリトライしない', async () => {
+    const fetchMock = mockFetch(() => new Response('', { status: 429, headers: { 'Retry-After': '3600' } }))
+
+    const result = await createScraper().scrapeDetail(DETAIL_URL)
+
+    expect(result.success).toBe(false)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('ネットワークエラーは maxRetries 回まで試行する', async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError('fetch failed')
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await createScraper({ maxRetries: 3 }).scrapeDetail(DETAIL_URL)
+
+    expect(result.error).toEqual({ code: 'network', message: 'fetch failed', url: DETAIL_URL })
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('連続失敗がしきい値に達したら以降のリクエストを送らない', async () => {
+    const fetchMock = mockFetch(() => new Response('', { status: 500 }))
+    const scraper = createScraper({ maxRetries: 2, circuitBreakerThreshold: 3 })
+
+    await scraper.scrapeDetail(DETAIL_URL)
+    await scraper.scrapeDetail(DETAIL_URL)
+    const result = await scraper.scrapeDetail(DETAIL_URL)
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(result.error?.code).toBe('circuit_open')
+    expect(result.error?.message).toBe(new CircuitOpenError('suumo', 3).message)
+  })
+
+  it('成功すると連続失敗回数をリセットする', async () => {
+    const fetchMock = mockFetch(
+      () => new Response('', { status: 500 }),
+      () => new Response('<html></html>'),
+      () => new Response('', { status: 500 }),
+      () => new Response('<html></html>'),
+    )
+    const scraper = createScraper({ maxRetries: 2, circuitBreakerThreshold: 2 })
+
+    expect((await scraper.scrapeDetail(DETAIL_URL)).success).toBe(true)
+    expect((await scraper.scrapeDetail(DETAIL_URL)).success).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+})
@@ -0,0 +1,150 @@
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { createServer } from 'node:http'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { RobotsDisallowedError } from '../http/errors'
+import { parseRobotsTxt, RobotsTxtCache } from '../http/robots'
+import { SuumoScraper } from '../sources/suumo'
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; CatHomeBot/1.0)'
+
+const ROBOTS_TXT = `
+# コメント行
+User-agent: *
+Disallow: /private/
+Allow: /private/cats/
+Disallow: /*.pdf$
+Crawl-delay: 10
+
+User-agent: CatHomeBot
+Disallow: /bot-only/
+`
+
+describe('parseRobotsTxt', () => {
+  it('User-agent: * のルールを適用する', () => {
+    const rules = parseRobotsTxt(ROBOTS_TXT, 'OtherBot/1.0')
+
+    expect(rules.isAllowed('/list')).toBe(true)
+    expect(rules.isAllowed('/private/page')).toBe(false)
+    expect(rules.crawlDelay).toBe(10)
+  })
+
+  it('Allow と Disallow は最長一致で判定する', () => {
+    const rules = parseRobotsTxt(ROBOTS_TXT, 'OtherBot/1.0')
+
+    expect(rules.isAllowed('/private/cats/1')).toBe(true)
+  })
+
+  it('ワイルドカードと終端指定を扱える', () => {
+    const rules = parseRobotsTxt(ROBOTS_TXT, 'OtherBot/1.0')
+
+    expect(rules.isAllowed('/docs/guide.pdf')).toBe(false)
+    expect(rules.isAllowed('/docs/guide.pdf?download=1')).toBe(true)
+  })
+
+  it('User-Agent に一致するグループがあればそちらを優先する', () => {
+    const rules = parseRobotsTxt(ROBOTS_TXT, USER_AGENT)
+
+    expect(rules.isAllowed('/bot-only/page')).toBe(false)
+    expect(rules.isAllowed('/private/page')).toBe(true)
+    expect(rules.crawlDelay).toBeNull()
+  })
+
+  it('空の Disallow はすべて許可する', () => {
+    const rules = parseRobotsTxt('User-agent: *\nDisallow:\n', USER_AGENT)
+
+    expect(rules.isAllowed('/anything')).toBe(true)
+  })
+})
+
+describe('robots.txt をローカルサーバーから取得', () => {
+  let server: Server
+  let baseUrl: string
+  let robotsRequests = 0
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/robots.txt') {
+        robotsRequests++
+        res.writeHead(200, { 'Content-Type': 'text/plain' })
+        res.end('User-agent: *\nDisallow: /private/\nCrawl-delay: 0.2\n')
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html' })
+      res.end('<html><body>ok</body></html>')
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('ホストごとに robots.txt をキャッシュする', async () => {
+    const robots = new RobotsTxtCache(USER_AGENT)
+    robotsRequests = 0
+
+    expect(await robots.isAllowed(`${baseUrl}/list`)).toBe(true)
+    expect(await robots.isAllowed(`${baseUrl}/private/1`)).toBe(false)
+    expect(robotsRequests).toBe(1)
+  })
+
+  it('robots.txt が存在しない場合はすべて許可する', async () => {
+    const robots = new RobotsTxtCache(USER_AGENT, async () => new Response('', { status: 404 }))
+
+    expect(await robots.isAllowed(`${baseUrl}/private/1`)).toBe(true)
+  })
+
+  it('robots.txt が 5xx の場合はすべて禁止し、次回のアクセスで取得し直す', async () => {
+    let requests = 0
+    const robots = new RobotsTxtCache(USER_AGENT, async () => {
+      requests++
+      return requests === 1
+        ? new Response('', { status: 503 })
+        : new Response('User-agent: *\nDisallow: /private/\n')
+    })
+
+    expect(await robots.isAllowed(`${baseUrl}/list`)).toBe(false)
+    expect(await robots.isAllowed(`${baseUrl}/list`)).toBe(true)
+    expect(requests).toBe(2)
+  })
+
+  it('robots.txt に接続できない場合はすべて禁止する', async () => {
+    const robots = new RobotsTxtCache(USER_AGENT, async () => {
+      throw new TypeError('fetch failed')
+    })
+
+    expect(await robots.isAllowed(`${baseUrl}/list`)).toBe(false)
+  })
+
+  it('スクレイパーは禁止された URL を取得せずにエラーを返す', async () => {
+    const scraper = new SuumoScraper({ requestDelay: 0, userAgent: USER_AGENT })
+
+    const result = await scraper.scrapeDetail(`${baseUrl}/private/chintai/jnc_000000001/`)
+
+    expect(result.success).toBe(false)
+    expect(result.error?.code).toBe('robots_disallowed')
+    expect(result.error?.message).toBe(new RobotsDisallowedError(`${baseUrl}/private/chintai/jnc_000000001/`).message)
+  })
+
+  it('Crawl-delay に従いリクエスト間隔を引き上げる', async () => {
+    const scraper = new SuumoScraper({ requestDelay: 0, userAgent: USER_AGENT })
+
+    const startTime = Date.now()
+    await scraper.scrapeDetail(`${baseUrl}/chintai/jnc_000000001/`)
+    await scraper.scrapeDetail(`${baseUrl}/chintai/jnc_000000002/`)
+
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(190)
+  })
+
+  it('respectRobotsTxt が false の場合は robots.txt を確認しない', async () => {
+    const scraper = new SuumoScraper({ requestDelay: 0, userAgent: USER_AGENT, respectRobotsTxt: false })
+    robotsRequests = 0
+
+    const result = await scraper.scrapeDetail(`${baseUrl}/private/chintai/jnc_000000001/`)
+
+    expect(result.success).toBe(true)
+    expect(robotsRequests).toBe(0)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { RequestScheduler } from '../http/scheduler'
+
+/** 指定時間後に完了するタスク。実行中の数を記録する */
+function createTracker() {
+  let active = 0
+  let maxActive = 0
+  const startTimes: number[] = []
+
+  const task = (ms: number) => async () => {
+    startTimes.push(Date.now())
+    active++
+    maxActive = Math.max(maxActive, active)
+    await new Promise(resolve => setTimeout(resolve, ms))
+    active--
+  }
+
+  return { task, startTimes, getMaxActive: () => maxActive }
+}
+
+describe('RequestScheduler', () => {
+  it('ホストごとの同時実行数を maxConcurrent までに制限する', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2, interval: 0 })
+    const { task, getMaxActive } = createTracker()
+
+    await Promise.all(
+      Array.from({ length: 6 }, () => scheduler.schedule('https://suumo.jp/a', task(20))),
+    )
+
+    expect(getMaxActive()).toBe(2)
+  })
+
+  it('異なるホストは独立して実行する', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, interval: 0 })
+    const { task, getMaxActive } = createTracker()
+
+    await Promise.all([
+      scheduler.schedule('https://suumo.jp/a', task(20)),
+      scheduler.schedule('https://www.homes.co.jp/a', task(20)),
+    ])
+
+    expect(getMaxActive()).toBe(2)
+  })
+
+  it('interval ごとに maxConcurrent 件までリクエストを開始する', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2, interval: 100 })
+    const { task, startTimes } = createTracker()
+
+    await Promise.all(
+      Array.from({ length: 4 }, () => scheduler.schedule('https://suumo.jp/a', task(0))),
+    )
+
+    // 最初の2件はすぐに開始し、残りは 50ms（100ms / 2件）ずつ間隔を空ける
+    expect(startTimes[2] - startTimes[0]).toBeGreaterThanOrEqual(45)
+    expect(startTimes[3] - startTimes[0]).toBeGreaterThanOrEqual(95)
+  })
+
+  it('タスクが失敗しても枠を解放する', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, interval: 0 })
+
+    await expect(scheduler.schedule('https://suumo.jp/a', async () => {
+      throw new Error('HTTP 500')
+    })).rejects.toThrow('HTTP 500')
+    await expect(scheduler.schedule('https://suumo.jp/a', async () => 'ok')).resolves.toBe('ok')
+  })
+
+  it('Crawl-delay を適用すると同時実行数が1になり間隔が引き上げられる', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 4, interval: 100 })
+
+    scheduler.applyCrawlDelay('https://suumo.jp/robots.txt', 1000)
+
+    expect(scheduler.getRequestInterval('https://suumo.jp/a')).toBe(1000)
+    expect(scheduler.getRequestInterval('https://www.homes.co.jp/a')).toBe(25)
+  })
+})
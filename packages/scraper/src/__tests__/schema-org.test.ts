@@ -0,0 +1,253 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { createSchemaOrgSearchUrlBuilder } from '../areas/search-urls'
+import { resolveAreas } from '../areas/catalog'
+import { SchemaOrgScraper } from '../sources/schema-org'
+import { extractSchemaOrgNodes, findSchemaOrgListings, getSchemaTypes } from '../utils/schema-org'
+
+// テスト用HTMLの読み込み
+const listHtml = readFileSync(
+  resolve(__dirname, 'fixtures/schema-org-list.html'),
+  'utf-8',
+)
+
+const detailHtml = readFileSync(
+  resolve(__dirname, 'fixtures/schema-org-detail.html'),
+  'utf-8',
+)
+
+const LIST_URL = 'https://neko-no-te.example.jp/rent/cat/'
+const DETAIL_URL = 'https://neko-no-te.example.jp/rent/cat/m301/'
+
+describe('extractSchemaOrgNodes', () => {
+  it('JSON-LD の項目を抽出できる', () => {
+    const nodes = extractSchemaOrgNodes(listHtml)
+    expect(nodes.map(node => getSchemaTypes(node)[0])).toEqual(['Organization', 'ItemList'])
+  })
+
+  it('@graph を展開できる', () => {
+    const html = '<script type="application/ld+json">{"@graph":[{"@type":"Apartment"},{"@type":"Offer"}]}</script>'
+    expect(extractSchemaOrgNodes(html)).toHaveLength(2)
+  })
+
+  it('不正な JSON-LD は読み飛ばす', () => {
+    const nodes = extractSchemaOrgNodes(detailHtml)
+    // BreadcrumbList は末尾カンマで解析できないため microdata の Apartment のみ
+    expect(nodes).toHaveLength(1)
+    expect(getSchemaTypes(nodes[0])).toEqual(['Apartment'])
+  })
+
+  it('microdata の入れ子の項目をオブジェクトに変換できる', () => {
+    const [apartment] = extractSchemaOrgNodes(detailHtml)
+    expect(apartment.name).toBe('メゾン・ド・シャ 301')
+    expect(apartment.address).toEqual({
+      '@type': ['https://schema.org/PostalAddress'],
+      'addressRegion': '東京都',
+      'addressLocality': '杉並区',
+      'streetAddress': '高円寺南4-10-2',
+    })
+    // content 属性の値を優先する
+    expect(apartment.offers).toMatchObject({ price: '112000', priceCurrency: 'JPY' })
+    // 同じプロパティが複数ある場合は配列になる
+    expect(apartment.amenityFeature).toHaveLength(3)
+  })
+})
+
+describe('findSchemaOrgListings', () => {
+  it('Offer の itemOffered と Apartment の offers のどちらの入れ子でも物件と募集条件を組み合わせられる', () => {
+    const listings = findSchemaOrgListings(extractSchemaOrgNodes(listHtml))
+    expect(listings).toHaveLength(3)
+    expect(listings[0].item.name).toBe('キャットテラス三軒茶屋 203号室')
+    expect(listings[0].offer?.price).toBe(98000)
+    expect(listings[1].item.name).toBe('ねこハウス下北沢 ワンルーム')
+    expect(listings[1].offer?.price).toBe('7.2万円')
+  })
+
+  it('物件以外の項目は含めない', () => {
+    const html = '<script type="application/ld+json">{"@type":"Organization","name":"ねこの手不動産"}</script>'
+    expect(findSchemaOrgListings(extractSchemaOrgNodes(html))).toEqual([])
+  })
+})
+
+describe('SchemaOrgScraper', () => {
+  describe('parseListHtml', () => {
+    it('URLのある物件だけを抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties).toHaveLength(2)
+    })
+
+    it('相対URLを一覧ページのURLで解決できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].sourceUrl).toBe('https://neko-no-te.example.jp/rent/cat/101/')
+      expect(properties[1].sourceUrl).toBe('https://neko-no-te.example.jp/rent/cat/102/')
+    })
+
+    it('external_id にホスト名を付ける（identifier がなければ URL のパス）', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].externalId).toBe('neko-no-te.example.jp:101')
+      expect(properties[1].externalId).toBe('neko-no-te.example.jp:/rent/cat/102')
+    })
+
+    it('PostalAddress と文字列の住所を抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].address).toBe('東京都世田谷区三軒茶屋2-5-8')
+      expect(properties[1].address).toBe('東京都世田谷区北沢3-1-2')
+    })
+
+    it('賃料と管理費を priceSpecification から抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].rent).toBe(98000)
+      expect(properties[0].managementFee).toBe(5000)
+      // 「7.2万円」のような表記にも対応
+      expect(properties[1].rent).toBe(72000)
+      expect(properties[1].managementFee).toBe(0)
+    })
+
+    it('間取りを正規化して抽出できる（FloorPlan がなければ物件名から）', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].floorPlan).toBe('1LDK')
+      expect(properties[1].floorPlan).toBe('ワンルーム')
+    })
+
+    it('専有面積を QuantitativeValue と文字列から抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].area).toBe(38.5)
+      expect(properties[1].area).toBe(22.4)
+    })
+
+    it('所在階と建物の築年を抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].roomFloor).toBe(2)
+      expect(properties[0].yearBuilt).toBe(2019)
+    })
+
+    it('画像URLを文字列と ImageObject から抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].images).toEqual([
+        'https://neko-no-te.example.jp/images/101-1.jpg',
+        'https://neko-no-te.example.jp/images/101-2.jpg',
+      ])
+    })
+
+    it('petsAllowed のテキストからペット条件を抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[0].petConditions?.cat).toBe('allowed')
+      expect(properties[0].petConditions?.catLimit).toBe(2)
+    })
+
+    it('petsAllowed がない場合は説明文からペット条件を抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const properties = scraper.parseListHtml(listHtml, LIST_URL)
+
+      expect(properties[1].petConditions?.cat).toBe('allowed')
+      expect(properties[1].petConditions?.dog).toBe('forbidden')
+      expect(properties[1].petConditions?.additionalDeposit).toBe(72000)
+    })
+
+    it('petsAllowed が false の場合はペット不可として扱う', () => {
+      const scraper = new SchemaOrgScraper()
+      const html = '<script type="application/ld+json">{"@type":"Apartment","url":"https://example.jp/1","petsAllowed":false}</script>'
+      const [property] = scraper.parseListHtml(html)
+
+      expect(property.petConditions?.cat).toBe('forbidden')
+      expect(property.petConditions?.catAllowed).toBe(false)
+    })
+
+    it('ペットの記載がない場合は null を返す', () => {
+      const scraper = new SchemaOrgScraper()
+      const html = '<script type="application/ld+json">{"@type":"Apartment","url":"https://example.jp/1","name":"1K"}</script>'
+      const [property] = scraper.parseListHtml(html)
+
+      expect(property.petConditions).toBeNull()
+    })
+  })
+
+  describe('parseDetailHtml', () => {
+    it('microdata から物件情報を抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const result = scraper.parseDetailHtml(detailHtml, DETAIL_URL)
+
+      expect(result).toMatchObject({
+        name: 'メゾン・ド・シャ 301',
+        address: '東京都杉並区高円寺南4-10-2',
+        rent: 112000,
+        floorPlan: '2DK',
+        area: 42.1,
+        yearBuilt: 2008,
+        roomFloor: 3,
+        floors: 5,
+        sourceUrl: DETAIL_URL,
+        externalId: 'neko-no-te.example.jp:M-301',
+      })
+    })
+
+    it('「なし」の設備は含めない', () => {
+      const scraper = new SchemaOrgScraper()
+      const result = scraper.parseDetailHtml(detailHtml, DETAIL_URL)
+
+      expect(result?.features).toEqual(['オートロック', '猫飼育可（1匹まで）'])
+    })
+
+    it('相対URLの画像を詳細ページのURLで解決できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const result = scraper.parseDetailHtml(detailHtml, DETAIL_URL)
+
+      expect(result?.images).toEqual([
+        'https://neko-no-te.example.jp/images/m301-1.jpg',
+        'https://neko-no-te.example.jp/images/m301-2.jpg',
+      ])
+    })
+
+    it('設備のペットの記載と説明文の費用からペット条件を抽出できる', () => {
+      const scraper = new SchemaOrgScraper()
+      const result = scraper.parseDetailHtml(detailHtml, DETAIL_URL)
+
+      expect(result?.petConditions?.cat).toBe('allowed')
+      expect(result?.petConditions?.catLimit).toBe(1)
+      expect(result?.petConditions?.monthlyFee).toBe(2000)
+    })
+
+    it('物件の構造化データがない場合は null を返す', () => {
+      const scraper = new SchemaOrgScraper()
+      expect(scraper.parseDetailHtml('<html><body></body></html>', DETAIL_URL)).toBeNull()
+    })
+  })
+})
+
+describe('createSchemaOrgSearchUrlBuilder', () => {
+  const buildSearchUrls = createSchemaOrgSearchUrlBuilder([
+    { label: 'ねこの手不動産', listUrl: LIST_URL, prefectures: ['tokyo'] },
+    { label: '横浜ねこ不動産', listUrl: 'https://yokohama-neko.example.jp/list/', prefectures: ['kanagawa'] },
+  ])
+
+  it('対象エリアの都道府県を掲載しているサイトの一覧URLを返す', () => {
+    const [shibuya] = resolveAreas('tokyo/shibuya')
+    expect(buildSearchUrls(shibuya)).toEqual([LIST_URL])
+  })
+
+  it('掲載しているサイトがない場合は空配列を返す', () => {
+    const [osaka] = resolveAreas('osaka')
+    expect(buildSearchUrls(osaka)).toEqual([])
+  })
+})
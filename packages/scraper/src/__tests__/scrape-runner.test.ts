@@ -0,0 +1,324 @@
+import type { Property } from '@cat-home/shared'
+import type { PropertyStore } from '../runner'
+import type { ScrapeResult } from '../types'
+import { describe, expect, it, vi } from 'vitest'
+import { resolveAreas } from '../areas/catalog'
+import { ScrapeRunner } from '../runner'
+import { BaseScraper } from '../sources/base'
+import { registerScraper } from '../sources/registry'
+
+/** ネットワークにアクセスしないテスト用スクレイパー */
+class FakeScraper extends BaseScraper {
+  readonly source = 'other' as const
+  protected readonly pagination = { next: 'a.next', pageParam: 'page' }
+  readonly fieldSelectors = { rent: { list: '.rent' } }
+
+  protected parseListPage(): Partial<Property>[] {
+    return []
+  }
+
+  protected parseDetailPage(): Partial<Property> {
+    return {}
+  }
+
+  async scrapeList(url: string): Promise<ScrapeResult> {
+    if (url.includes('meguro')) {
+      const error = { code: 'http_status' as const, message: 'HTTP 500', url, status: 500 }
+      return { success: false, properties: [], error, source: this.source, duration: 0 }
+    }
+    if (url.includes('nakano')) {
+      return {
+        success: true,
+        properties: [
+          { externalId: 'n1', source: this.source, name: '中野ねこハウス', sourceUrl: 'https://example.com/n1' },
+          { externalId: 'n2', source: this.source, name: '掲載終了ハイツ', sourceUrl: 'https://example.com/gone/n2' },
+        ],
+        source: this.source,
+        duration: 0,
+      }
+    }
+    if (url.includes('suginami')) {
+      return {
+        success: true,
+        properties: [
+          { externalId: 'g1', source: this.source, name: '杉並ハイツ', sourceUrl: 'https://example.com/flaky/g1' },
+          { externalId: 'g2', source: this.source, name: '杉並コーポ', sourceUrl: 'https://example.com/blocked/g2' },
+        ],
+        source: this.source,
+        duration: 0,
+      }
+    }
+    if (url.includes('toshima')) {
+      // 賃料のセレクタが外れた状態
+      const properties = Array.from({ length: 12 }, (_, i) => (
+        {
+          externalId: `t${i}`,
+          source: this.source,
+          name: `豊島ハイツ${i}`,
+          address: '東京都豊島区池袋1',
+          prefecture: '東京都',
+          rent: 0,
+          area: 25,
+          floorPlan: '1K',
+        }
+      ))
+      return { success: true, properties, source: this.source, duration: 0 }
+    }
+    if (url.includes('nerima')) {
+      // 一覧の物件のセレクタが外れた状態
+      return { success: true, properties: [], pages: 3, source: this.source, duration: 0 }
+    }
+    if (url.includes('site-b')) {
+      return {
+        success: true,
+        properties: [{ externalId: 'b1', source: this.source, name: '横浜ねこテラス', sourceUrl: 'https://site-b.example.com/b1' }],
+        source: this.source,
+        duration: 0,
+      }
+    }
+    if (url.includes('setagaya')) {
+      return {
+        success: true,
+        properties: [{ externalId: 's1', source: this.source, name: '世田谷キャットハウス' }],
+        pageErrors: [{ code: 'http_status', message: 'HTTP 503', url: `${url}?page=2`, status: 503 }],
+        source: this.source,
+        duration: 0,
+      }
+    }
+    return {
+      success: true,
+      properties: [
+        { externalId: 'a1', source: this.source, name: '猫の家', sourceUrl: 'https://example.com/a1' },
+        { externalId: 'a2', source: this.source, name: 'にゃんハイツ', sourceUrl: 'https://example.com/a2' },
+      ],
+      source: this.source,
+      duration: 0,
+    }
+  }
+
+  async scrapeDetail(url: string): Promise<ScrapeResult> {
+    if (url.includes('/gone/')) {
+      const error = { code: 'listing_gone' as const, message: 'HTTP 404', url, status: 404 }
+      return { success: false, properties: [], error, source: this.source, duration: 0 }
+    }
+    if (url.includes('/flaky/')) {
+      const error = { code: 'network' as const, message: 'fetch failed', url }
+      return { success: false, properties: [], error, source: this.source, duration: 0 }
+    }
+    if (url.includes('/blocked/')) {
+      const error = { code: 'blocked' as const, message: 'Blocked: CAPTCHA', url }
+      return { success: false, properties: [], error, source: this.source, duration: 0 }
+    }
+    const property: Partial<Property> = { deposit: 100000, sourceUrl: url }
+    return { success: true, properties: [property], source: this.source, duration: 0 }
+  }
+}
+
+registerScraper({
+  source: 'other',
+  label: 'テスト',
+  buildSearchUrl: ({ prefecture, municipality }) => {
+    // 複数サイトをまとめたソースのように、神奈川県は2サイト、大阪府は掲載サイトなし
+    if (prefecture.slug === 'kanagawa') {
+      return ['https://example.com/kanagawa/list', 'https://site-b.example.com/kanagawa/list']
+    }
+    if (prefecture.slug === 'osaka') {
+      return []
+    }
+    return `https://example.com/${prefecture.slug}/${municipality?.slug ?? 'all'}/list`
+  },
+  create: config => new FakeScraper(config),
+})
+
+function createStore(): PropertyStore {
+  return {
+    upsertProperties: vi.fn(async (properties: Partial<Property>[]) => ({
+      inserted: properties.length,
+      updated: 0,
+      errors: [],
+    })),
+    touchProperties: vi.fn(async () => []),
+    deactivateMissing: vi.fn(async () => 1),
+  }
+}
+
+describe('ScrapeRunner', () => {
+  it('一覧を取得して Upsert と非アクティブ化を行う', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('tokyo') })
+
+    expect(summary.success).toBe(true)
+    expect(summary.found).toBe(2)
+    expect(summary.inserted).toBe(2)
+    expect(summary.deactivated).toBe(1)
+    expect(db.deactivateMissing).toHaveBeenCalledWith('other', ['a1', 'a2'], {
+      prefecture: '東京都',
+      cities: undefined,
+    })
+  })
+
+  it('1エリアに複数の一覧URLがある場合はすべて取得してまとめて非アクティブ化する', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('kanagawa') })
+
+    expect(summary.found).toBe(3)
+    expect(db.deactivateMissing).toHaveBeenCalledTimes(1)
+    expect(db.deactivateMissing).toHaveBeenCalledWith('other', ['a1', 'a2', 'b1'], {
+      prefecture: '神奈川県',
+      cities: undefined,
+    })
+  })
+
+  it('一覧URLがないエリアは取得も非アクティブ化も行わない', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('osaka') })
+
+    expect(summary.success).toBe(true)
+    expect(summary.found).toBe(0)
+    expect(db.deactivateMissing).not.toHaveBeenCalled()
+  })
+
+  it('--with-details で詳細情報をマージする', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    await runner.run({ sources: ['other'], areas: resolveAreas('tokyo'), withDetails: true })
+
+    const saved = vi.mocked(db.upsertProperties).mock.calls[0][0]
+    expect(saved[0].deposit).toBe(100000)
+    expect(saved[0].name).toBe('猫の家')
+  })
+
+  it('詳細ページが削除済みの物件は保存せず非アクティブ化の対象にする', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('tokyo/nakano'), withDetails: true })
+
+    expect(summary.found).toBe(1)
+    expect(vi.mocked(db.upsertProperties).mock.calls[0][0].map(p => p.externalId)).toEqual(['n1'])
+    expect(db.deactivateMissing).toHaveBeenCalledWith('other', ['n1'], {
+      prefecture: '東京都',
+      cities: ['中野区'],
+    })
+  })
+
+  it('ドライランでは DB に保存しない', async () => {
+    const runner = new ScrapeRunner(null)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('tokyo'), dryRun: true })
+
+    expect(summary.success).toBe(true)
+    expect(summary.found).toBe(2)
+    expect(summary.inserted).toBe(0)
+  })
+
+  it('エリアを指定した場合は、そのエリア内の物件のみ非アクティブ化する', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    await runner.run({ sources: ['other'], areas: resolveAreas('東京都/渋谷区,kanagawa') })
+
+    expect(db.deactivateMissing).toHaveBeenCalledTimes(2)
+    expect(db.deactivateMissing).toHaveBeenCalledWith('other', expect.any(Array), {
+      prefecture: '東京都',
+      cities: ['渋谷区'],
+    })
+    expect(db.deactivateMissing).toHaveBeenCalledWith('other', expect.any(Array), {
+      prefecture: '神奈川県',
+      cities: undefined,
+    })
+  })
+
+  it('一覧の取得に失敗した場合はエラーを集計し、その都道府県の非アクティブ化をスキップする', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('tokyo/shibuya,tokyo/meguro') })
+
+    expect(summary.success).toBe(false)
+    expect(summary.errors).toEqual([{
+      source: 'other',
+      code: 'http_status',
+      message: 'HTTP 500',
+      url: 'https://example.com/tokyo/meguro/list',
+      status: 500,
+    }])
+    expect(summary.errorsByCode.http_status).toHaveLength(1)
+    expect(db.deactivateMissing).not.toHaveBeenCalled()
+  })
+
+  it('一部のページの取得に失敗した場合は、取得できた物件を保存してエラーを報告する', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('tokyo/setagaya') })
+
+    expect(summary.found).toBe(1)
+    expect(summary.inserted).toBe(1)
+    expect(summary.errors).toEqual([{
+      source: 'other',
+      code: 'http_status',
+      message: 'HTTP 503',
+      url: 'https://example.com/tokyo/setagaya/list?page=2',
+      status: 503,
+    }])
+    expect(db.deactivateMissing).not.toHaveBeenCalled()
+  })
+
+  it('取得率が下がった項目がある場合は保存と非アクティブ化を行わずにエラーにする', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('tokyo/toshima') })
+
+    expect(summary.success).toBe(false)
+    expect(summary.found).toBe(12)
+    expect(summary.errors).toEqual([{
+      source: 'other',
+      code: 'parse_failure',
+      field: 'rent',
+      message: 'Coverage of rent dropped to 0.0% (min 95%) (selector: .rent)',
+    }])
+    expect(summary.sources[0].coverage?.brokenFields.map(f => f.field)).toEqual(['rent'])
+    expect(db.upsertProperties).not.toHaveBeenCalled()
+    expect(db.deactivateMissing).not.toHaveBeenCalled()
+  })
+
+  it('一覧ページを取得できても物件が0件の場合はエラーにする', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('tokyo/nerima') })
+
+    expect(summary.success).toBe(false)
+    expect(summary.errors).toEqual([{
+      source: 'other',
+      code: 'parse_failure',
+      field: 'listItems',
+      message: 'No properties found in 3 list pages',
+    }])
+    expect(db.upsertProperties).not.toHaveBeenCalled()
+    expect(db.deactivateMissing).not.toHaveBeenCalled()
+  })
+
+  it('詳細ページの失敗は種類に応じてエラーと警告に分ける', async () => {
+    const db = createStore()
+    const runner = new ScrapeRunner(db)
+
+    const summary = await runner.run({ sources: ['other'], areas: resolveAreas('tokyo/suginami'), withDetails: true })
+
+    // 一時的な失敗は一覧の情報のみで保存し、アクセス制限は実行の失敗として通知する
+    expect(summary.inserted).toBe(2)
+    expect(summary.success).toBe(false)
+    expect(summary.errors.map(e => [e.code, e.externalId])).toEqual([['blocked', 'g2']])
+    expect(summary.warnings.map(e => [e.code, e.externalId])).toEqual([['network', 'g1']])
+    expect(Object.keys(summary.errorsByCode).sort()).toEqual(['blocked', 'network'])
+  })
+})
@@ -172,12 +172,27 @@ describe('SuumoScraper', () => {
       expect(result.keyMoney).toBe(85000)
     })
 
+    it('金額表記の敷金は月数が null になる', () => {
+      const scraper = new SuumoScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.depositMonths).toBeNull()
+    })
+
     it('間取りを抽出できる', () => {
       const scraper = new SuumoScraper()
       const result = scraper.parseDetailHtml(detailHtml)
       expect(result.floorPlan).toBe('1K')
     })
 
+    it('間取り詳細から部屋ごとの広さを抽出できる', () => {
+      const scraper = new SuumoScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.roomSizes).toEqual([
+        { type: 'western', size: 6 },
+        { type: 'k', size: 2 },
+      ])
+    })
+
     it('専有面積を抽出できる', () => {
       const scraper = new SuumoScraper()
       const result = scraper.parseDetailHtml(detailHtml)
@@ -202,21 +217,31 @@ describe('SuumoScraper', () => {
       expect(result.floors).toBe(10)
     })
 
+    it('部屋の所在階を抽出できる', () => {
+      const scraper = new SuumoScraper()
+      const result = scraper.parseDetailHtml(detailHtml)
+      expect(result.roomFloor).toBe(2)
+    })
+
     it('最寄り駅情報を抽出できる', () => {
       const scraper = new SuumoScraper()
       const result = scraper.parseDetailHtml(detailHtml)
       expect(result.nearestStations).toHaveLength(2)
       expect(result.nearestStations[0]).toEqual({
         line: 'JR山手線',
-        station: '渋谷駅',
+        station: '渋谷',
         walkMinutes: 5,
         busMinutes: null,
+        lineId: 'jr-yamanote',
+        stationId: 'shibuya',
       })
       expect(result.nearestStations[1]).toEqual({
         line: '東京メトロ銀座線',
-        station: '表参道駅',
+        station: '表参道',
         walkMinutes: 8,
         busMinutes: null,
+        lineId: 'tokyo-metro-ginza',
+        stationId: 'omotesando',
       })
     })
 
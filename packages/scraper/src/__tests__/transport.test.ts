@@ -0,0 +1,123 @@
+import type { Property } from '@cat-home/shared'
+import type { PropertyStore } from '../runner'
+import { readFileSync } from 'node:fs'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { resolveAreas } from '../areas/catalog'
+import { CassetteMissError } from '../http/errors'
+import { createRecordingTransport, createReplayTransport } from '../http/transport'
+import { ScrapeRunner } from '../runner'
+import { SuumoScraper } from '../sources/suumo'
+
+const suumoListHtml = readFileSync(resolve(__dirname, 'fixtures/suumo-list.html'), 'utf-8')
+const suumoDetailHtml = readFileSync(resolve(__dirname, 'fixtures/suumo-detail.html'), 'utf-8')
+
+/** SUUMO の2ページ分の一覧と詳細ページを返すテスト用サーバー */
+function createSiteTransport() {
+  return vi.fn(async (url: string) => {
+    const { pathname, searchParams } = new URL(url)
+    if (pathname === '/robots.txt') {
+      return new Response('User-agent: *\nDisallow: /private/\n')
+    }
+    if (pathname.startsWith('/chintai/jnc_')) {
+      return new Response(suumoDetailHtml, { headers: { 'Content-Type': 'text/html; charset=UTF-8' } })
+    }
+    if (pathname === '/chintai/tokyo/sc_shibuya/') {
+      // 1ページ目のみ次ページリンクを付ける
+      const next = searchParams.get('page') === '2'
+        ? ''
+        : '<p class="pagination-parts"><a href="/chintai/tokyo/sc_shibuya/?pet=2&page=2">次へ</a></p>'
+      return new Response(suumoListHtml.replace('</body>', `${next}</body>`))
+    }
+    return new Response('', { status: 404, statusText: 'Not Found' })
+  })
+}
+
+function createStore(): PropertyStore {
+  return {
+    upsertProperties: vi.fn(async (properties: Partial<Property>[]) => ({
+      inserted: properties.length,
+      updated: 0,
+      errors: [],
+    })),
+    touchProperties: vi.fn(async () => []),
+    deactivateMissing: vi.fn(async () => 0),
+  }
+}
+
+describe('記録・再生トランスポート', () => {
+  let cassetteDir: string
+
+  beforeEach(async () => {
+    cassetteDir = await mkdtemp(join(tmpdir(), 'cat-home-cassette-'))
+  })
+
+  afterEach(async () => {
+    await rm(cassetteDir, { recursive: true, force: true })
+  })
+
+  it('記録したレスポンスだけでページ送り・詳細取得・マージを再現する', async () => {
+    const site = createSiteTransport()
+    const options = { sources: ['suumo' as const], areas: resolveAreas('tokyo/shibuya'), withDetails: true }
+
+    const recordedStore = createStore()
+    await new ScrapeRunner(recordedStore).run({
+      ...options,
+      scraperConfig: { transport: createRecordingTransport(cassetteDir, site), requestDelay: 0 },
+    })
+
+    const replayedStore = createStore()
+    const callsBeforeReplay = site.mock.calls.length
+    const summary = await new ScrapeRunner(replayedStore).run({
+      ...options,
+      scraperConfig: { transport: createReplayTransport(cassetteDir), requestDelay: 0 },
+    })
+
+    expect(summary.success).toBe(true)
+    expect(summary.found).toBeGreaterThan(0)
+    expect(site.mock.calls.length).toBe(callsBeforeReplay)
+    expect(vi.mocked(replayedStore.upsertProperties).mock.calls)
+      .toEqual(vi.mocked(recordedStore.upsertProperties).mock.calls)
+
+    const saved = vi.mocked(replayedStore.upsertProperties).mock.calls[0][0]
+    expect(saved[0].petConditions).toBeDefined()
+    expect(site.mock.calls.map(([url]) => url)).toContain('https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2&page=2')
+  })
+
+  it('エラーステータスも記録して再生する', async () => {
+    const url = 'https://suumo.jp/missing'
+    await createRecordingTransport(cassetteDir, createSiteTransport())(url)
+
+    const response = await createReplayTransport(cassetteDir)(url)
+
+    expect(response.status).toBe(404)
+    expect(await readdir(cassetteDir)).toHaveLength(1)
+  })
+
+  it('記録されていないリクエストは CassetteMissError を投げる', async () => {
+    const replay = createReplayTransport(cassetteDir)
+
+    await expect(replay('https://suumo.jp/chintai/jnc_999/')).rejects.toBeInstanceOf(CassetteMissError)
+  })
+
+  it('再生モードでカセットにない URL はリトライせず、連続失敗にも数えない', async () => {
+    const replay = vi.fn(createReplayTransport(cassetteDir))
+    // リトライした場合は待機でテストがタイムアウトする
+    const scraper = new SuumoScraper({
+      transport: replay,
+      requestDelay: 0,
+      retryDelay: 60_000,
+      circuitBreakerThreshold: 1,
+      respectRobotsTxt: false,
+    })
+
+    const first = await scraper.scrapeDetail('https://suumo.jp/chintai/jnc_000000001/')
+    const second = await scraper.scrapeDetail('https://suumo.jp/chintai/jnc_000000002/')
+
+    expect(first.error?.message).toContain('No recorded response in cassette')
+    expect(second.error?.code).not.toBe('circuit_open')
+    expect(replay).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,256 @@
+/** 都道府県 */
+export interface Prefecture {
+  /** 都道府県コード（JIS X 0401, 2桁） */
+  code: string
+  /** 都道府県名（Property.prefecture と同じ表記） */
+  name: string
+  /** URL 用のローマ字表記（例: tokyo） */
+  slug: string
+}
+
+/**
+ * 市区町村の種別
+ *
+ * - ward: 東京都の特別区
+ * - designated_city: 政令指定都市
+ */
+export type MunicipalityKind = 'ward' | 'designated_city' | 'city' | 'town' | 'village'
+
+/** 市区町村 */
+export interface Municipality {
+  /** 全国地方公共団体コード（5桁、検査数字なし） */
+  code: string
+  /** 市区町村名（Property.city と同じ表記） */
+  name: string
+  /** URL 用のローマ字表記（例: shibuya） */
+  slug: string
+  kind: MunicipalityKind
+}
+
+/** スクレイピング対象エリア */
+export interface AreaTarget {
+  prefecture: Prefecture
+  /** null の場合は都道府県全体 */
+  municipality: Municipality | null
+}
+
+export const PREFECTURES: readonly Prefecture[] = [
+  { code: '01', name: '北海道', slug: 'hokkaido' },
+  { code: '02', name: '青森県', slug: 'aomori' },
+  { code: '03', name: '岩手県', slug: 'iwate' },
+  { code: '04', name: '宮城県', slug: 'miyagi' },
+  { code: '05', name: '秋田県', slug: 'akita' },
+  { code: '06', name: '山形県', slug: 'yamagata' },
+  { code: '07', name: '福島県', slug: 'fukushima' },
+  { code: '08', name: '茨城県', slug: 'ibaraki' },
+  { code: '09', name: '栃木県', slug: 'tochigi' },
+  { code: '10', name: '群馬県', slug: 'gunma' },
+  { code: '11', name: '埼玉県', slug: 'saitama' },
+  { code: '12', name: '千葉県', slug: 'chiba' },
+  { code: '13', name: '東京都', slug: 'tokyo' },
+  { code: '14', name: '神奈川県', slug: 'kanagawa' },
+  { code: '15', name: '新潟県', slug: 'niigata' },
+  { code: '16', name: '富山県', slug: 'toyama' },
+  { code: '17', name: '石川県', slug: 'ishikawa' },
+  { code: '18', name: '福井県', slug: 'fukui' },
+  { code: '19', name: '山梨県', slug: 'yamanashi' },
+  { code: '20', name: '長野県', slug: 'nagano' },
+  { code: '21', name: '岐阜県', slug: 'gifu' },
+  { code: '22', name: '静岡県', slug: 'shizuoka' },
+  { code: '23', name: '愛知県', slug: 'aichi' },
+  { code: '24', name: '三重県', slug: 'mie' },
+  { code: '25', name: '滋賀県', slug: 'shiga' },
+  { code: '26', name: '京都府', slug: 'kyoto' },
+  { code: '27', name: '大阪府', slug: 'osaka' },
+  { code: '28', name: '兵庫県', slug: 'hyogo' },
+  { code: '29', name: '奈良県', slug: 'nara' },
+  { code: '30', name: '和歌山県', slug: 'wakayama' },
+  { code: '31', name: '鳥取県', slug: 'tottori' },
+  { code: '32', name: '島根県', slug: 'shimane' },
+  { code: '33', name: '岡山県', slug: 'okayama' },
+  { code: '34', name: '広島県', slug: 'hiroshima' },
+  { code: '35', name: '山口県', slug: 'yamaguchi' },
+  { code: '36', name: '徳島県', slug: 'tokushima' },
+  { code: '37', name: '香川県', slug: 'kagawa' },
+  { code: '38', name: '愛媛県', slug: 'ehime' },
+  { code: '39', name: '高知県', slug: 'kochi' },
+  { code: '40', name: '福岡県', slug: 'fukuoka' },
+  { code: '41', name: '佐賀県', slug: 'saga' },
+  { code: '42', name: '長崎県', slug: 'nagasaki' },
+  { code: '43', name: '熊本県', slug: 'kumamoto' },
+  { code: '44', name: '大分県', slug: 'oita' },
+  { code: '45', name: '宮崎県', slug: 'miyazaki' },
+  { code: '46', name: '鹿児島県', slug: 'kagoshima' },
+  { code: '47', name: '沖縄県', slug: 'okinawa' },
+]
+
+/**
+ * 市区町村カタログ
+ *
+ * 東京都は特別区・市をすべて収録。その他の道府県は政令指定都市と主要な市のみ
+ * （必要に応じて追加する）
+ */
+export const MUNICIPALITIES: readonly Municipality[] = [
+  // 北海道
+  { code: '01100', name: '札幌市', slug: 'sapporo', kind: 'designated_city' },
+  // 宮城県
+  { code: '04100', name: '仙台市', slug: 'sendai', kind: 'designated_city' },
+  // 埼玉県
+  { code: '11100', name: 'さいたま市', slug: 'saitama', kind: 'designated_city' },
+  { code: '11203', name: '川口市', slug: 'kawaguchi', kind: 'city' },
+  // 千葉県
+  { code: '12100', name: '千葉市', slug: 'chiba', kind: 'designated_city' },
+  { code: '12203', name: '市川市', slug: 'ichikawa', kind: 'city' },
+  { code: '12204', name: '船橋市', slug: 'funabashi', kind: 'city' },
+  { code: '12207', name: '松戸市', slug: 'matsudo', kind: 'city' },
+  { code: '12217', name: '柏市', slug: 'kashiwa', kind: 'city' },
+  // 東京都（特別区）
+  { code: '13101', name: '千代田区', slug: 'chiyoda', kind: 'ward' },
+  { code: '13102', name: '中央区', slug: 'chuo', kind: 'ward' },
+  { code: '13103', name: '港区', slug: 'minato', kind: 'ward' },
+  { code: '13104', name: '新宿区', slug: 'shinjuku', kind: 'ward' },
+  { code: '13105', name: '文京区', slug: 'bunkyo', kind: 'ward' },
+  { code: '13106', name: '台東区', slug: 'taito', kind: 'ward' },
+  { code: '13107', name: '墨田区', slug: 'sumida', kind: 'ward' },
+  { code: '13108', name: '江東区', slug: 'koto', kind: 'ward' },
+  { code: '13109', name: '品川区', slug: 'shinagawa', kind: 'ward' },
+  { code: '13110', name: '目黒区', slug: 'meguro', kind: 'ward' },
+  { code: '13111', name: '大田区', slug: 'ota', kind: 'ward' },
+  { code: '13112', name: '世田谷区', slug: 'setagaya', kind: 'ward' },
+  { code: '13113', name: '渋谷区', slug: 'shibuya', kind: 'ward' },
+  { code: '13114', name: '中野区', slug: 'nakano', kind: 'ward' },
+  { code: '13115', name: '杉並区', slug: 'suginami', kind: 'ward' },
+  { code: '13116', name: '豊島区', slug: 'toshima', kind: 'ward' },
+  { code: '13117', name: '北区', slug: 'kita', kind: 'ward' },
+  { code: '13118', name: '荒川区', slug: 'arakawa', kind: 'ward' },
+  { code: '13119', name: '板橋区', slug: 'itabashi', kind: 'ward' },
+  { code: '13120', name: '練馬区', slug: 'nerima', kind: 'ward' },
+  { code: '13121', name: '足立区', slug: 'adachi', kind: 'ward' },
+  { code: '13122', name: '葛飾区', slug: 'katsushika', kind: 'ward' },
+  { code: '13123', name: '江戸川区', slug: 'edogawa', kind: 'ward' },
+  // 東京都（市部）
+  { code: '13201', name: '八王子市', slug: 'hachioji', kind: 'city' },
+  { code: '13202', name: '立川市', slug: 'tachikawa', kind: 'city' },
+  { code: '13203', name: '武蔵野市', slug: 'musashino', kind: 'city' },
+  { code: '13204', name: '三鷹市', slug: 'mitaka', kind: 'city' },
+  { code: '13205', name: '青梅市', slug: 'ome', kind: 'city' },
+  { code: '13206', name: '府中市', slug: 'fuchu', kind: 'city' },
+  { code: '13207', name: '昭島市', slug: 'akishima', kind: 'city' },
+  { code: '13208', name: '調布市', slug: 'chofu', kind: 'city' },
+  { code: '13209', name: '町田市', slug: 'machida', kind: 'city' },
+  { code: '13210', name: '小金井市', slug: 'koganei', kind: 'city' },
+  { code: '13211', name: '小平市', slug: 'kodaira', kind: 'city' },
+  { code: '13212', name: '日野市', slug: 'hino', kind: 'city' },
+  { code: '13213', name: '東村山市', slug: 'higashimurayama', kind: 'city' },
+  { code: '13214', name: '国分寺市', slug: 'kokubunji', kind: 'city' },
+  { code: '13215', name: '国立市', slug: 'kunitachi', kind: 'city' },
+  { code: '13218', name: '福生市', slug: 'fussa', kind: 'city' },
+  { code: '13219', name: '狛江市', slug: 'komae', kind: 'city' },
+  { code: '13220', name: '東大和市', slug: 'higashiyamato', kind: 'city' },
+  { code: '13221', name: '清瀬市', slug: 'kiyose', kind: 'city' },
+  { code: '13222', name: '東久留米市', slug: 'higashikurume', kind: 'city' },
+  { code: '13223', name: '武蔵村山市', slug: 'musashimurayama', kind: 'city' },
+  { code: '13224', name: '多摩市', slug: 'tama', kind: 'city' },
+  { code: '13225', name: '稲城市', slug: 'inagi', kind: 'city' },
+  { code: '13227', name: '羽村市', slug: 'hamura', kind: 'city' },
+  { code: '13228', name: 'あきる野市', slug: 'akiruno', kind: 'city' },
+  { code: '13229', name: '西東京市', slug: 'nishitokyo', kind: 'city' },
+  // 神奈川県
+  { code: '14100', name: '横浜市', slug: 'yokohama', kind: 'designated_city' },
+  { code: '14130', name: '川崎市', slug: 'kawasaki', kind: 'designated_city' },
+  { code: '14150', name: '相模原市', slug: 'sagamihara', kind: 'designated_city' },
+  { code: '14201', name: '横須賀市', slug: 'yokosuka', kind: 'city' },
+  { code: '14204', name: '鎌倉市', slug: 'kamakura', kind: 'city' },
+  { code: '14205', name: '藤沢市', slug: 'fujisawa', kind: 'city' },
+  // 愛知県
+  { code: '23100', name: '名古屋市', slug: 'nagoya', kind: 'designated_city' },
+  // 京都府
+  { code: '26100', name: '京都市', slug: 'kyoto', kind: 'designated_city' },
+  // 大阪府
+  { code: '27100', name: '大阪市', slug: 'osaka', kind: 'designated_city' },
+  { code: '27140', name: '堺市', slug: 'sakai', kind: 'designated_city' },
+  // 兵庫県
+  { code: '28100', name: '神戸市', slug: 'kobe', kind: 'designated_city' },
+  // 広島県
+  { code: '34100', name: '広島市', slug: 'hiroshima', kind: 'designated_city' },
+  // 福岡県
+  { code: '40100', name: '北九州市', slug: 'kitakyushu', kind: 'designated_city' },
+  { code: '40130', name: '福岡市', slug: 'fukuoka', kind: 'designated_city' },
+]
+
+/**
+ * 都道府県を名前・ローマ字・コードで検索
+ */
+export function findPrefecture(query: string): Prefecture | undefined {
+  return PREFECTURES.find(p => p.name === query || p.slug === query || p.code === query)
+}
+
+/**
+ * 都道府県に属する市区町村の一覧
+ */
+export function getMunicipalities(prefecture: Prefecture): Municipality[] {
+  return MUNICIPALITIES.filter(m => m.code.startsWith(prefecture.code))
+}
+
+/**
+ * エリア指定文字列を対象エリアの一覧に変換する
+ *
+ * カンマ区切りで複数指定できる。都道府県・市区町村は名前・ローマ字・コードのいずれでも指定可能
+ *
+ * - `東京都` / `tokyo`: 都道府県全体
+ * - `東京都/渋谷区` / `tokyo/shibuya`: 市区町村
+ * - `東京都/23区` / `tokyo/23ku`: 東京都の特別区すべて
+ * - `東京都/*` / `tokyo/*`: カタログに収録された市区町村すべて
+ *
+ * @throws 未知の都道府県・市区町村が指定された場合
+ */
+export function resolveAreas(spec: string): AreaTarget[] {
+  const targets: AreaTarget[] = []
+
+  for (const part of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    const [prefectureQuery, municipalityQuery] = part.split('/').map(s => s.trim())
+
+    const prefecture = findPrefecture(prefectureQuery)
+    if (!prefecture) {
+      throw new Error(`Unknown prefecture: ${prefectureQuery}`)
+    }
+
+    if (!municipalityQuery) {
+      targets.push({ prefecture, municipality: null })
+      continue
+    }
+
+    const municipalities = getMunicipalities(prefecture)
+
+    if (municipalityQuery === '*') {
+      targets.push(...municipalities.map(municipality => ({ prefecture, municipality })))
+      continue
+    }
+
+    if (municipalityQuery === '23区' || municipalityQuery === '23ku') {
+      targets.push(
+        ...municipalities
+          .filter(m => m.kind === 'ward')
+          .map(municipality => ({ prefecture, municipality })),
+      )
+      continue
+    }
+
+    const municipality = municipalities.find(
+      m => m.name === municipalityQuery || m.slug === municipalityQuery || m.code === municipalityQuery,
+    )
+    if (!municipality) {
+      throw new Error(`Unknown municipality: ${prefecture.name}/${municipalityQuery}`)
+    }
+    targets.push({ prefecture, municipality })
+  }
+
+  return targets
+}
+
+/**
+ * 対象エリアを表示用の文字列に変換（例: 東京都渋谷区）
+ */
+export function formatArea(target: AreaTarget): string {
+  return `${target.prefecture.name}${target.municipality?.name ?? ''}`
+}
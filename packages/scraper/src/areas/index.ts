@@ -0,0 +1,21 @@
+export {
+  PREFECTURES,
+  MUNICIPALITIES,
+  findPrefecture,
+  getMunicipalities,
+  resolveAreas,
+  formatArea,
+} from './catalog'
+export type { AreaTarget, Municipality, MunicipalityKind, Prefecture } from './catalog'
+export {
+  buildSuumoSearchUrl,
+  buildHomesSearchUrl,
+  buildDoorSearchUrl,
+  buildChintaiSearchUrl,
+  buildNiftySearchUrl,
+  buildAthomeSearchUrl,
+  buildSchemaOrgSearchUrls,
+  createSchemaOrgSearchUrlBuilder,
+  SCHEMA_ORG_SITES,
+} from './search-urls'
+export type { SchemaOrgSite, SearchUrlBuilder } from './search-urls'
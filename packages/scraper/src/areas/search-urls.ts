@@ -0,0 +1,112 @@
+import type { AreaTarget, Municipality } from './catalog'
+
+/**
+ * 対象エリアから猫・ペット可で絞り込んだ検索URLを生成する関数
+ *
+ * 複数のサイトをまとめたソース（other）は対象エリアを掲載しているサイトの数だけURLを返す
+ */
+export type SearchUrlBuilder = (target: AreaTarget) => string | string[]
+
+/** 構造化データ（schema.org）で物件を掲載しているサイト */
+export interface SchemaOrgSite {
+  /** サイト名（ログ表示用） */
+  label: string
+  /** ペット可物件の一覧URL */
+  listUrl: string
+  /** 掲載エリアの都道府県（Prefecture の slug） */
+  prefectures: string[]
+}
+
+/**
+ * 'other' として取得するサイト
+ *
+ * JSON-LD・microdata で物件を掲載している猫専門の不動産会社などはここに追加するだけで取得できる
+ *
+ * @example
+ * ```ts
+ * { label: '猫不動産', listUrl: 'https://example.jp/rent/cat/', prefectures: ['tokyo', 'kanagawa'] }
+ * ```
+ */
+export const SCHEMA_ORG_SITES: SchemaOrgSite[] = []
+
+/**
+ * SUUMO の検索URL
+ * 例: https://suumo.jp/chintai/tokyo/sc_shibuya/?pet=2
+ */
+export const buildSuumoSearchUrl: SearchUrlBuilder = ({ prefecture, municipality }) => {
+  const area = municipality ? `sc_${municipality.slug}/` : ''
+  return `https://suumo.jp/chintai/${prefecture.slug}/${area}?pet=2`
+}
+
+/**
+ * LIFULL HOME'S の検索URL（ltag/284 は「猫飼育可」タグのID）
+ * 例: https://www.homes.co.jp/chintai/ltag/284/tokyo/shibuya-city/list/
+ */
+export const buildHomesSearchUrl: SearchUrlBuilder = ({ prefecture, municipality }) => {
+  const area = municipality ? `${municipality.slug}-city/` : ''
+  return `https://www.homes.co.jp/chintai/ltag/284/${prefecture.slug}/${area}list/`
+}
+
+/**
+ * DOOR賃貸 の検索URL（feature7 はペット可特集）
+ * 例: https://door.ac/specials/feature7/tokyo/city-13113/list
+ */
+export const buildDoorSearchUrl: SearchUrlBuilder = ({ prefecture, municipality }) => {
+  const area = municipality ? `city-${municipality.code}/` : ''
+  return `https://door.ac/specials/feature7/${prefecture.slug}/${area}list`
+}
+
+/**
+ * CHINTAIネット の検索URL（pet はペット相談可のフィルター）
+ * 例: https://www.chintai.net/tokyo/area/13113/list/pet/
+ */
+export const buildChintaiSearchUrl: SearchUrlBuilder = ({ prefecture, municipality }) => {
+  const area = municipality ? `area/${municipality.code}/` : ''
+  return `https://www.chintai.net/${prefecture.slug}/${area}list/pet/`
+}
+
+/**
+ * アットホーム の検索URL（theme/pet はペット相談可の特集）
+ * 例: https://www.athome.co.jp/chintai/theme/pet/tokyo/shibuya-city/list/
+ */
+export const buildAthomeSearchUrl: SearchUrlBuilder = ({ prefecture, municipality }) => {
+  const area = municipality ? `${municipality.slug}-city/` : ''
+  return `https://www.athome.co.jp/chintai/theme/pet/${prefecture.slug}/${area}list/`
+}
+
+/**
+ * ニフティ不動産 の検索URL（ft_pet はペット相談可のフィルター）
+ * 例: https://myhome.nifty.com/rent/ft_pet/tokyo/shibuyaku_ct/search/
+ */
+export const buildNiftySearchUrl: SearchUrlBuilder = ({ prefecture, municipality }) => {
+  const area = municipality ? `${toNiftyCitySlug(municipality)}_ct/` : ''
+  return `https://myhome.nifty.com/rent/ft_pet/${prefecture.slug}/${area}search/`
+}
+
+/**
+ * ニフティ不動産の市区町村スラッグ（例: 渋谷区 → shibuyaku, 八王子市 → hachiojishi）
+ */
+function toNiftyCitySlug(municipality: Municipality): string {
+  const suffix = {
+    ward: 'ku',
+    designated_city: 'shi',
+    city: 'shi',
+    town: 'machi',
+    village: 'mura',
+  }[municipality.kind]
+  return `${municipality.slug}${suffix}`
+}
+
+/**
+ * 構造化データで掲載しているサイトのうち、対象エリアの都道府県を掲載しているサイトの一覧URL
+ *
+ * サイト側は市区町村で絞り込めないことが多いため、都道府県単位で一覧を取得する
+ */
+export function createSchemaOrgSearchUrlBuilder(sites: SchemaOrgSite[]): SearchUrlBuilder {
+  return ({ prefecture }) => sites
+    .filter(site => site.prefectures.includes(prefecture.slug))
+    .map(site => site.listUrl)
+}
+
+/** SCHEMA_ORG_SITES の一覧URL */
+export const buildSchemaOrgSearchUrls: SearchUrlBuilder = createSchemaOrgSearchUrlBuilder(SCHEMA_ORG_SITES)
@@ -0,0 +1,170 @@
+import type { PropertySource } from '@cat-home/shared'
+import type { DedupeListing, ListingCluster } from './types'
+import { matchListings, rentTolerance } from './matcher'
+
+/** 他のサイトの掲載を集めたサイト（元のサイトの掲載を代表にする） */
+const AGGREGATOR_SOURCES: PropertySource[] = ['nifty']
+
+/** 同じ部屋と判定した2つの掲載 */
+interface ListingPair {
+  a: string
+  b: string
+  /** 建物名の類似度 */
+  score: number
+}
+
+/**
+ * 複数のサイトに掲載された同じ部屋をまとめる
+ *
+ * 市区町村ごとに賃料の許容差の範囲内の掲載を比較し、建物名の類似度が高い組から順にまとめる。
+ * 同じサイトの掲載は別の部屋として扱い、1つのまとまりに同じサイトの掲載が2つ入らないようにする
+ *
+ * @returns 2件以上の掲載があるまとまり（重複のない物件は含まない）
+ *
+ * @example
+ * ```ts
+ * const clusters = clusterListings(listings)
+ * // => [{ canonicalId: 'suumo の物件ID', memberIds: ['suumo の物件ID', 'homes の物件ID'] }]
+ * ```
+ */
+export function clusterListings(listings: DedupeListing[]): ListingCluster[] {
+  const pairs = findPairs(listings)
+
+  const parent = new Map(listings.map(l => [l.id, l.id]))
+  const origins = new Map(listings.map(l => [l.id, new Set([listingOrigin(l)])]))
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!
+    }
+    return root
+  }
+
+  for (const { a, b } of pairs.sort((x, y) => y.score - x.score)) {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA === rootB) {
+      continue
+    }
+    const originsA = origins.get(rootA)!
+    const originsB = origins.get(rootB)!
+    if ([...originsB].some(origin => originsA.has(origin))) {
+      continue
+    }
+    parent.set(rootB, rootA)
+    originsB.forEach(origin => originsA.add(origin))
+  }
+
+  const members = new Map<string, DedupeListing[]>()
+  for (const listing of listings) {
+    const root = find(listing.id)
+    const group = members.get(root)
+    if (group) {
+      group.push(listing)
+    }
+    else {
+      members.set(root, [listing])
+    }
+  }
+
+  return [...members.values()]
+    .filter(group => group.length > 1)
+    .map(group => ({
+      canonicalId: selectCanonical(group).id,
+      memberIds: group.map(l => l.id),
+    }))
+}
+
+/**
+ * まとまりの代表の物件を選ぶ
+ *
+ * 物件ページの URL が変わらないよう現在の代表を優先し、次に元のサイトの掲載（ニフティ不動産などの
+ * 集約サイト以外）、初回発見日時が古い掲載の順に選ぶ
+ */
+export function selectCanonical(group: DedupeListing[]): DedupeListing {
+  const ids = new Set(group.map(l => l.id))
+  const current = new Set(group.map(l => l.canonicalId).filter(id => id !== null && ids.has(id)))
+  const isAggregator = (l: DedupeListing) => AGGREGATOR_SOURCES.includes(l.source)
+
+  return [...group].sort((a, b) =>
+    Number(current.has(b.id)) - Number(current.has(a.id))
+    || Number(isAggregator(a)) - Number(isAggregator(b))
+    || a.firstSeenAt.localeCompare(b.firstSeenAt)
+    || a.id.localeCompare(b.id),
+  )[0]
+}
+
+/**
+ * 掲載ごとの代表の物件ID を求める
+ *
+ * 代表の物件と重複のない物件は null
+ *
+ * @param clusters - clusterListings の結果（省略時は listings からまとめる）
+ * @returns キーは物件ID
+ */
+export function resolveCanonicalIds(
+  listings: DedupeListing[],
+  clusters: ListingCluster[] = clusterListings(listings),
+): Map<string, string | null> {
+  const canonicalIds = new Map<string, string | null>(listings.map(l => [l.id, null]))
+  for (const cluster of clusters) {
+    for (const id of cluster.memberIds) {
+      canonicalIds.set(id, id === cluster.canonicalId ? null : cluster.canonicalId)
+    }
+  }
+  return canonicalIds
+}
+
+/**
+ * 同じ部屋と判定した掲載の組を探す
+ *
+ * 市区町村ごとに賃料の順に並べ、賃料の差が許容差の範囲内の掲載だけを比較する
+ */
+function findPairs(listings: DedupeListing[]): ListingPair[] {
+  const groups = new Map<string, DedupeListing[]>()
+  for (const listing of listings) {
+    // 市区町村がわからない掲載は比較できない
+    if (!listing.prefecture || !listing.city) {
+      continue
+    }
+    const key = `${listing.prefecture}${listing.city}`
+    const group = groups.get(key)
+    if (group) {
+      group.push(listing)
+    }
+    else {
+      groups.set(key, [listing])
+    }
+  }
+
+  const pairs: ListingPair[] = []
+  for (const group of groups.values()) {
+    const sorted = [...group].sort((x, y) => x.rent - y.rent)
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const a = sorted[i]
+        const b = sorted[j]
+        if (b.rent - a.rent > rentTolerance(b.rent)) {
+          break
+        }
+        if (listingOrigin(a) === listingOrigin(b)) {
+          continue
+        }
+        const score = matchListings(a, b)
+        if (score !== null) {
+          pairs.push({ a: a.id, b: b.id, score })
+        }
+      }
+    }
+  }
+  return pairs
+}
+
+/**
+ * 掲載元のサイト
+ *
+ * 'other' は複数のサイトの物件をまとめているため、external_id のホスト名で区別する
+ */
+function listingOrigin(listing: DedupeListing): string {
+  return listing.source === 'other' ? `other:${listing.externalId.split(':')[0]}` : listing.source
+}
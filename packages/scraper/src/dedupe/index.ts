@@ -0,0 +1,3 @@
+export { clusterListings, resolveCanonicalIds, selectCanonical } from './cluster'
+export { matchListings, nameSimilarity, normalizeBuildingName } from './matcher'
+export type { DedupeListing, ListingCluster } from './types'
@@ -0,0 +1,142 @@
+import type { DedupeListing } from './types'
+
+/** 賃料の許容差（割合）。サイトごとの更新時期のずれによる値下げなどを吸収する */
+const RENT_TOLERANCE_RATE = 0.03
+
+/** 賃料の許容差の下限（円） */
+const MIN_RENT_TOLERANCE = 1000
+
+/** 専有面積の許容差（m²）。小数点以下の丸め方の違いを吸収する */
+const AREA_TOLERANCE = 0.5
+
+/** 同じ建物とみなす建物名の類似度 */
+const NAME_SIMILARITY_THRESHOLD = 0.6
+
+/** 建物名の末尾の部屋番号（例: "パークハイツ渋谷 203号室", "メゾン中野 101"） */
+const ROOM_NUMBER_PATTERN = /(?:\s+[a-z]?\d+(?:号室?)?|\d+号室?)$/
+
+/** 建物名の表記ゆれとして取り除く空白・記号 */
+const NAME_SYMBOL_PATTERN = /[\s・･\-‐−–—―~〜()[\]「」【】'"’”]/g
+
+/**
+ * 建物名を比較用に正規化する
+ *
+ * 全角・半角と大文字・小文字をそろえ、末尾の部屋番号と空白・記号を取り除く
+ *
+ * 例: "パークハイツ渋谷　２０３号室" → "パークハイツ渋谷", "Ｃａｔ－Ｈｏｕｓｅ 101" → "cathouse"
+ */
+export function normalizeBuildingName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .trim()
+    .replace(ROOM_NUMBER_PATTERN, '')
+    .replace(NAME_SYMBOL_PATTERN, '')
+}
+
+/**
+ * 建物名の類似度（正規化した名前の2文字ずつの組の Dice 係数、0〜1）
+ *
+ * どちらかの名前が空の場合は 0
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const x = normalizeBuildingName(a)
+  const y = normalizeBuildingName(b)
+  if (!x || !y) {
+    return 0
+  }
+  if (x === y) {
+    return 1
+  }
+
+  const bigramsX = toBigrams(x)
+  const bigramsY = toBigrams(y)
+  let common = 0
+  for (const [bigram, count] of bigramsY) {
+    common += Math.min(count, bigramsX.get(bigram) ?? 0)
+  }
+  return (2 * common) / (Math.max(x.length - 1, 1) + Math.max(y.length - 1, 1))
+}
+
+/**
+ * 賃料の許容差（円）
+ */
+export function rentTolerance(rent: number): number {
+  return Math.max(MIN_RENT_TOLERANCE, rent * RENT_TOLERANCE_RATE)
+}
+
+/**
+ * 2つの掲載が同じ部屋かどうかを判定する
+ *
+ * 住所（市区町村・町域・番地）、間取り、所在階、専有面積、賃料が食い違わないことを条件に、
+ * 建物名が似ていれば同じ部屋とする。建物名が違っても（「渋谷駅 5階建」のような仮の名前など）
+ * 番地・専有面積・所在階まで記載があって一致すれば同じ部屋とする
+ *
+ * @returns 同じ部屋の場合は建物名の類似度（0〜1）、別の部屋の場合は null
+ */
+export function matchListings(a: DedupeListing, b: DedupeListing): number | null {
+  if (a.prefecture !== b.prefecture || a.city !== b.city) {
+    return null
+  }
+  if (!isCompatible(a.ward, b.ward) || !isCompatible(a.town, b.town) || !isBlockCompatible(a.block, b.block)) {
+    return null
+  }
+  if (a.floorPlan && b.floorPlan && a.floorPlan !== b.floorPlan) {
+    return null
+  }
+  if (a.roomFloor != null && b.roomFloor != null && a.roomFloor !== b.roomFloor) {
+    return null
+  }
+  if (a.area && b.area && Math.abs(a.area - b.area) > AREA_TOLERANCE) {
+    return null
+  }
+  if (Math.abs(a.rent - b.rent) > rentTolerance(Math.max(a.rent, b.rent))) {
+    return null
+  }
+
+  const similarity = nameSimilarity(a.name, b.name)
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+    return similarity
+  }
+
+  const isPrecise = !!a.block && !!b.block && !!a.area && !!b.area && a.roomFloor != null && b.roomFloor != null
+  return isPrecise ? similarity : null
+}
+
+/**
+ * 両方に記載がある場合のみ一致を求める
+ */
+function isCompatible(a: string | null, b: string | null): boolean {
+  return !a || !b || a === b
+}
+
+/**
+ * 番地の一致を判定（号を省略して掲載するサイトがあるため、短い方が長い方の先頭と一致すればよい）
+ *
+ * 例: "1-2" と "1-2-3" → true, "1-2" と "1-3" → false
+ */
+function isBlockCompatible(a: string | null, b: string | null): boolean {
+  if (!a || !b) {
+    return true
+  }
+  const partsA = a.split('-')
+  const partsB = b.split('-')
+  const length = Math.min(partsA.length, partsB.length)
+  return partsA.slice(0, length).every((part, i) => part === partsB[i])
+}
+
+/**
+ * 文字列を2文字ずつの組に分けて出現回数を数える
+ */
+function toBigrams(text: string): Map<string, number> {
+  const bigrams = new Map<string, number>()
+  if (text.length === 1) {
+    bigrams.set(text, 1)
+    return bigrams
+  }
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1)
+  }
+  return bigrams
+}
@@ -0,0 +1,29 @@
+import type { Property } from '@cat-home/shared'
+
+/** 重複の判定に使う物件の項目 */
+export type DedupeListing = Pick<
+  Property,
+  | 'id'
+  | 'externalId'
+  | 'source'
+  | 'name'
+  | 'prefecture'
+  | 'city'
+  | 'ward'
+  | 'town'
+  | 'block'
+  | 'rent'
+  | 'area'
+  | 'floorPlan'
+  | 'roomFloor'
+  | 'firstSeenAt'
+  | 'canonicalId'
+>
+
+/** 複数のサイトに掲載された同じ部屋のまとまり */
+export interface ListingCluster {
+  /** 代表の物件ID */
+  canonicalId: string
+  /** 代表を含むすべての物件ID */
+  memberIds: string[]
+}
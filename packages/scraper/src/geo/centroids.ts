@@ -0,0 +1,106 @@
+import type { CentroidDataset } from './types'
+
+/**
+ * 同梱の代表点データ
+ *
+ * - 市区町村: 役所の所在地（政令指定都市は市役所と一部の区役所）
+ * - 町域・丁目: 国土交通省「位置参照情報（大字・町丁目レベル）」の代表点
+ *
+ * 市区町村は市区町村カタログのすべてを収録。町域・丁目は位置参照情報の CSV から
+ * `pnpm --filter @cat-home/scraper build:centroids` で作り直す
+ */
+export const CENTROIDS: CentroidDataset = {
+  cities: {
+    '東京都千代田区': [35.6940, 139.7536],
+    '東京都中央区': [35.6707, 139.7720],
+    '東京都港区': [35.6581, 139.7516],
+    '東京都新宿区': [35.6938, 139.7035],
+    '東京都文京区': [35.7081, 139.7522],
+    '東京都台東区': [35.7126, 139.7800],
+    '東京都墨田区': [35.7107, 139.8015],
+    '東京都江東区': [35.6730, 139.8171],
+    '東京都品川区': [35.6092, 139.7302],
+    '東京都目黒区': [35.6415, 139.6982],
+    '東京都大田区': [35.5614, 139.7160],
+    '東京都世田谷区': [35.6464, 139.6532],
+    '東京都渋谷区': [35.6640, 139.6982],
+    '東京都中野区': [35.7074, 139.6638],
+    '東京都杉並区': [35.6995, 139.6365],
+    '東京都豊島区': [35.7262, 139.7166],
+    '東京都北区': [35.7528, 139.7337],
+    '東京都荒川区': [35.7360, 139.7834],
+    '東京都板橋区': [35.7512, 139.7093],
+    '東京都練馬区': [35.7356, 139.6517],
+    '東京都足立区': [35.7750, 139.8044],
+    '東京都葛飾区': [35.7434, 139.8472],
+    '東京都江戸川区': [35.7068, 139.8683],
+    '東京都八王子市': [35.6664, 139.3160],
+    '東京都立川市': [35.7138, 139.4077],
+    '東京都武蔵野市': [35.7178, 139.5661],
+    '東京都三鷹市': [35.6836, 139.5595],
+    '東京都青梅市': [35.7880, 139.2758],
+    '東京都府中市': [35.6689, 139.4776],
+    '東京都昭島市': [35.7056, 139.3535],
+    '東京都調布市': [35.6506, 139.5407],
+    '東京都町田市': [35.5464, 139.4385],
+    '東京都小金井市': [35.6995, 139.5030],
+    '東京都小平市': [35.7285, 139.4774],
+    '東京都日野市': [35.6713, 139.3951],
+    '東京都東村山市': [35.7546, 139.4685],
+    '東京都国分寺市': [35.7109, 139.4622],
+    '東京都国立市': [35.6839, 139.4414],
+    '東京都福生市': [35.7387, 139.3268],
+    '東京都狛江市': [35.6348, 139.5787],
+    '東京都東大和市': [35.7453, 139.4265],
+    '東京都清瀬市': [35.7857, 139.5265],
+    '東京都東久留米市': [35.7584, 139.5295],
+    '東京都武蔵村山市': [35.7548, 139.3874],
+    '東京都多摩市': [35.6369, 139.4463],
+    '東京都稲城市': [35.6380, 139.5046],
+    '東京都羽村市': [35.7675, 139.3110],
+    '東京都あきる野市': [35.7289, 139.2941],
+    '東京都西東京市': [35.7256, 139.5383],
+    '北海道札幌市': [43.0621, 141.3544],
+    '宮城県仙台市': [38.2682, 140.8694],
+    '埼玉県さいたま市': [35.8617, 139.6455],
+    '埼玉県川口市': [35.8078, 139.7241],
+    '千葉県千葉市': [35.6074, 140.1065],
+    '千葉県市川市': [35.7219, 139.9310],
+    '千葉県船橋市': [35.6947, 139.9825],
+    '千葉県松戸市': [35.7877, 139.9031],
+    '千葉県柏市': [35.8676, 139.9758],
+    '神奈川県横浜市': [35.4437, 139.6380],
+    '神奈川県横浜市港北区': [35.5197, 139.6330],
+    '神奈川県川崎市': [35.5308, 139.7029],
+    '神奈川県相模原市': [35.5713, 139.3733],
+    '神奈川県横須賀市': [35.2813, 139.6722],
+    '神奈川県鎌倉市': [35.3192, 139.5467],
+    '神奈川県藤沢市': [35.3389, 139.4900],
+    '愛知県名古屋市': [35.1815, 136.9066],
+    '京都府京都市': [35.0116, 135.7681],
+    '大阪府大阪市': [34.6937, 135.5023],
+    '大阪府堺市': [34.5733, 135.4830],
+    '兵庫県神戸市': [34.6901, 135.1955],
+    '広島県広島市': [34.3853, 132.4553],
+    '福岡県北九州市': [33.8834, 130.8752],
+    '福岡県福岡市': [33.5902, 130.4017],
+  },
+  towns: {
+    '東京都目黒区/中目黒': [35.6440, 139.6989],
+    '東京都目黒区/中目黒/1': [35.6461, 139.7006],
+    '東京都目黒区/中目黒/2': [35.6448, 139.6984],
+    '東京都目黒区/中目黒/3': [35.6424, 139.6993],
+    '東京都新宿区/西新宿': [35.6896, 139.6917],
+    '東京都新宿区/西新宿/1': [35.6907, 139.6983],
+    '東京都新宿区/西新宿/3': [35.6840, 139.6905],
+    '東京都渋谷区/神宮前': [35.6693, 139.7069],
+    '東京都渋谷区/神宮前/1': [35.6716, 139.7037],
+    '東京都渋谷区/恵比寿': [35.6454, 139.7127],
+    '東京都渋谷区/恵比寿/1': [35.6477, 139.7134],
+    '東京都世田谷区/三軒茶屋': [35.6433, 139.6700],
+    '東京都中野区/中野': [35.7066, 139.6655],
+    '東京都杉並区/阿佐谷南': [35.7016, 139.6356],
+    '神奈川県横浜市港北区/日吉本町': [35.5562, 139.6452],
+    '神奈川県横浜市港北区/日吉本町/1': [35.5548, 139.6463],
+  },
+}
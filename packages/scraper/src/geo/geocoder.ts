@@ -0,0 +1,80 @@
+import type { GeocodePrecision, Property } from '@cat-home/shared'
+import type { NormalizedAddress } from '../utils/address-normalizer'
+import type { CentroidDataset, LatLng } from './types'
+import { normalizeAddress } from '../utils/address-normalizer'
+import { CENTROIDS } from './centroids'
+
+/** ジオコーディングの結果 */
+export interface GeocodeResult {
+  latitude: number
+  longitude: number
+  precision: GeocodePrecision
+}
+
+/**
+ * 正規化した住所を同梱の代表点データで緯度経度に変換する
+ *
+ * 丁目 → 町域 → 市区町村（政令指定都市は区 → 市）の順に一致するものを探し、
+ * 一致した単位を精度として返す。外部 API は使用しない
+ *
+ * @returns 市区町村も一致しない場合は null
+ *
+ * @example
+ * ```ts
+ * geocodeAddress(normalizeAddress('東京都目黒区中目黒2-5-8'))
+ * // => { latitude: 35.6448, longitude: 139.6984, precision: 'block' }
+ * ```
+ */
+export function geocodeAddress(
+  address: NormalizedAddress,
+  dataset: CentroidDataset = CENTROIDS,
+): GeocodeResult | null {
+  if (!address.prefecture || !address.city) {
+    return null
+  }
+
+  const cityKey = `${address.prefecture}${address.city}${address.ward ?? ''}`
+
+  if (address.town) {
+    const chome = address.block?.split('-')[0]
+    const block = chome ? dataset.towns[`${cityKey}/${address.town}/${chome}`] : undefined
+    if (block) {
+      return toResult(block, 'block')
+    }
+    const town = dataset.towns[`${cityKey}/${address.town}`]
+    if (town) {
+      return toResult(town, 'town')
+    }
+  }
+
+  // 区の代表点がない政令指定都市は市の代表点を使う
+  const city = dataset.cities[cityKey] ?? dataset.cities[`${address.prefecture}${address.city}`]
+  return city ? toResult(city, 'city') : null
+}
+
+/**
+ * 物件の住所から緯度経度を求めて設定する
+ *
+ * 正規化済みの住所項目がない場合は address から正規化する
+ */
+export function geocodeProperty(property: Partial<Property>): GeocodeResult | null {
+  const address = property.city
+    ? {
+        prefecture: property.prefecture ?? '',
+        city: property.city,
+        ward: property.ward ?? null,
+        town: property.town ?? null,
+        block: property.block ?? null,
+      }
+    : normalizeAddress(property.address ?? '')
+
+  const result = geocodeAddress(address)
+  property.latitude = result?.latitude ?? null
+  property.longitude = result?.longitude ?? null
+  property.geocodePrecision = result?.precision ?? null
+  return result
+}
+
+function toResult([latitude, longitude]: LatLng, precision: GeocodePrecision): GeocodeResult {
+  return { latitude, longitude, precision }
+}
@@ -0,0 +1,4 @@
+export { CENTROIDS } from './centroids'
+export { geocodeAddress, geocodeProperty } from './geocoder'
+export type { GeocodeResult } from './geocoder'
+export type { CentroidDataset, LatLng } from './types'
@@ -0,0 +1,14 @@
+/** 代表点 [緯度, 経度] */
+export type LatLng = readonly [number, number]
+
+/**
+ * 代表点データ
+ *
+ * キーは都道府県・市区町村・政令指定都市の区を連結したもの（例: 神奈川県横浜市港北区）
+ */
+export interface CentroidDataset {
+  /** 市区町村の代表点 */
+  cities: Record<string, LatLng>
+  /** 町域・丁目の代表点（キー: `{市区町村}/{町域}` または `{市区町村}/{町域}/{丁目}`） */
+  towns: Record<string, LatLng>
+}
@@ -0,0 +1,23 @@
+/** アクセス制限・CAPTCHA ページを判別するパターン */
+const BLOCKED_PAGE_PATTERNS: { pattern: RegExp, reason: string }[] = [
+  { pattern: /<title>[^<]*(captcha|ロボットではありません)[^<]*<\/title>/i, reason: 'CAPTCHA' },
+  { pattern: /<title>[^<]*(Access Denied|アクセス(が)?制限|不正なアクセス)[^<]*<\/title>/i, reason: 'access denied' },
+  // challenges.cloudflare.com は通常のページの Turnstile でも読み込まれるため、チャレンジページ特有の記述だけを見る
+  { pattern: /<title>[^<]*(Attention Required!|Just a moment\.\.\.)[^<]*<\/title>|cf-chl-|_cf_chl_opt/i, reason: 'Cloudflare challenge' },
+]
+
+/**
+ * アクセス制限・CAPTCHA ページかを判定
+ *
+ * 問い合わせフォームの reCAPTCHA などで誤判定しないよう、タイトルとチャレンジページ特有の記述のみを見る
+ *
+ * @returns 判定理由。通常のページの場合は null
+ */
+export function detectBlockedPage(html: string): string | null {
+  for (const { pattern, reason } of BLOCKED_PAGE_PATTERNS) {
+    if (pattern.test(html)) {
+      return reason
+    }
+  }
+  return null
+}
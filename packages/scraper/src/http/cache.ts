@@ -0,0 +1,78 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+/** URL ごとのキャッシュ */
+export interface CacheEntry {
+  url: string
+  /** ETag ヘッダー */
+  etag: string | null
+  /** Last-Modified ヘッダー */
+  lastModified: string | null
+  /** 本文のハッシュ（条件付きリクエストに対応していないサイトの変更検出に使用） */
+  contentHash: string
+  /** 文字コード変換後の本文 */
+  body: string
+  storedAt: string
+}
+
+/**
+ * 本文のハッシュを計算
+ */
+export function hashContent(body: string): string {
+  return createHash('sha256').update(body).digest('hex')
+}
+
+/**
+ * 条件付きリクエストのヘッダーを生成
+ */
+export function conditionalHeaders(entry: CacheEntry | null): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (entry?.etag) {
+    headers['If-None-Match'] = entry.etag
+  }
+  if (entry?.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified
+  }
+  return headers
+}
+
+/**
+ * ディスク上の HTTP キャッシュ
+ *
+ * 前回取得時の ETag / Last-Modified / 本文のハッシュを URL ごとに保存し、
+ * 再クロール時に変更がなかったページを判別できるようにする
+ *
+ * @example
+ * ```ts
+ * const cache = new HttpCache('.cache/http')
+ * const entry = await cache.get(url)
+ * const response = await fetch(url, { headers: conditionalHeaders(entry) })
+ * ```
+ */
+export class HttpCache {
+  constructor(private dir: string) {}
+
+  async get(url: string): Promise<CacheEntry | null> {
+    try {
+      return JSON.parse(await readFile(this.path(url), 'utf-8')) as CacheEntry
+    }
+    catch {
+      return null
+    }
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+    await writeFile(this.path(entry.url), JSON.stringify(entry))
+  }
+
+  async delete(url: string): Promise<void> {
+    await rm(this.path(url), { force: true })
+  }
+
+  private path(url: string): string {
+    const hash = createHash('sha256').update(url).digest('hex').slice(0, 16)
+    return join(this.dir, `${new URL(url).host}-${hash}.json`)
+  }
+}
@@ -0,0 +1,110 @@
+/** TextDecoder が認識しない別名の正規化 */
+const CHARSET_ALIASES: Record<string, string> = {
+  'cp932': 'shift_jis',
+  'ms932': 'shift_jis',
+  'sjis': 'shift_jis',
+  'x-sjis': 'shift_jis',
+  'windows-31j': 'shift_jis',
+  'x-euc-jp': 'euc-jp',
+  'eucjp': 'euc-jp',
+  'utf8': 'utf-8',
+}
+
+/** バイト判定で候補にする文字コード */
+const SNIFF_CANDIDATES = ['shift_jis', 'euc-jp'] as const
+
+/** <meta> を探す範囲（HTML 仕様では先頭 1024 バイトだが余裕を持たせる） */
+const META_SCAN_BYTES = 4096
+
+/**
+ * HTML の文字コードを判定
+ *
+ * 1. Content-Type ヘッダーの charset
+ * 2. BOM
+ * 3. `<meta charset>` / `<meta http-equiv="Content-Type">`
+ * 4. バイト列からの推定（UTF-8 として正しければ UTF-8、そうでなければ Shift_JIS / EUC-JP）
+ *
+ * @returns TextDecoder に渡せる文字コード名
+ */
+export function detectCharset(bytes: Uint8Array, contentType: string | null = null): string {
+  const fromHeader = normalizeCharset(contentType?.match(/charset\s*=\s*["']?([\w-]+)/i)?.[1])
+  if (fromHeader) {
+    return fromHeader
+  }
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return 'utf-8'
+  }
+
+  // <meta> は ASCII で書かれているため latin1 として読めば文字コードに関係なく探せる
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, META_SCAN_BYTES))
+  const fromMeta = normalizeCharset(
+    head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1],
+  )
+  if (fromMeta) {
+    return fromMeta
+  }
+
+  return sniffCharset(bytes)
+}
+
+/**
+ * HTML のバイト列を文字コードを判定して文字列に変換
+ *
+ * @example
+ * ```ts
+ * const html = decodeHtml(new Uint8Array(await response.arrayBuffer()), response.headers.get('Content-Type'))
+ * ```
+ */
+export function decodeHtml(bytes: Uint8Array, contentType: string | null = null): string {
+  return new TextDecoder(detectCharset(bytes, contentType)).decode(bytes)
+}
+
+/**
+ * 文字コード名を TextDecoder が扱える名前に正規化
+ *
+ * 未対応の名前の場合は null
+ */
+function normalizeCharset(label: string | undefined): string | null {
+  if (!label) {
+    return null
+  }
+  const lower = label.toLowerCase()
+  const charset = CHARSET_ALIASES[lower] ?? lower
+  try {
+    return new TextDecoder(charset).encoding
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * バイト列から文字コードを推定
+ *
+ * UTF-8 として正しく読めれば UTF-8。そうでなければ Shift_JIS / EUC-JP で読み、
+ * 不正なバイト列が少なく、かなが多く読める方を採用する
+ */
+function sniffCharset(bytes: Uint8Array): string {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return 'utf-8'
+  }
+  catch {
+    // UTF-8 ではない
+  }
+
+  let best = 'utf-8'
+  let bestScore = -Infinity
+  for (const charset of SNIFF_CANDIDATES) {
+    const text = new TextDecoder(charset).decode(bytes)
+    const kana = text.match(/[ぁ-ヿ]/g)?.length ?? 0
+    const invalid = text.match(/�/g)?.length ?? 0
+    const score = kana - invalid * 10
+    if (score > bestScore) {
+      best = charset
+      bestScore = score
+    }
+  }
+  return best
+}
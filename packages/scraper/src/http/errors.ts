@@ -0,0 +1,156 @@
+import type { ScrapeError } from '../types'
+
+/**
+ * robots.txt で禁止されている URL へのアクセス
+ *
+ * リトライしても結果は変わらないため、fetchPage はリトライせずにこのエラーを投げる
+ */
+export class RobotsDisallowedError extends Error {
+  constructor(readonly url: string) {
+    super(`Disallowed by robots.txt: ${url}`)
+    this.name = 'RobotsDisallowedError'
+  }
+}
+
+/**
+ * HTTP エラーステータスのレスポンス
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    readonly url: string,
+    readonly status: number,
+    statusText: string,
+    /** Retry-After ヘッダーが示す待機時間（ミリ秒） */
+    readonly retryAfter: number | null = null,
+  ) {
+    super(`HTTP ${status}: ${statusText}`)
+    this.name = 'HttpStatusError'
+  }
+}
+
+/**
+ * 物件ページが削除済み（404 / 410）
+ *
+ * 掲載終了を意味するため、fetchPage はリトライせずにこのエラーを投げる
+ */
+export class ListingGoneError extends HttpStatusError {
+  constructor(url: string, status: number, statusText: string) {
+    super(url, status, statusText)
+    this.name = 'ListingGoneError'
+  }
+}
+
+/**
+ * 連続して失敗したため、このデータソースへのリクエストを停止した
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly source: string, readonly failures: number) {
+    super(`Circuit open: ${source} failed ${failures} times in a row`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+/**
+ * 再生モードでカセットに記録されていない URL へのリクエスト
+ *
+ * リトライしても結果は変わらないため、fetchPage はリトライせずにこのエラーを投げる
+ */
+export class CassetteMissError extends Error {
+  constructor(readonly url: string) {
+    super(`No recorded response in cassette: ${url}`)
+    this.name = 'CassetteMissError'
+  }
+}
+
+/**
+ * アクセス制限・CAPTCHA ページが返された
+ *
+ * リトライしても解除されないため、fetchPage はリトライせずにこのエラーを投げる
+ */
+export class BlockedError extends Error {
+  constructor(readonly url: string, reason: string) {
+    super(`Blocked: ${reason}: ${url}`)
+    this.name = 'BlockedError'
+  }
+}
+
+/**
+ * HTML から必須項目を取得できない
+ */
+export class ParseError extends Error {
+  constructor(readonly field: string, message: string) {
+    super(message)
+    this.name = 'ParseError'
+  }
+}
+
+/** 接続できなかったことを表すエラーコード（undici / Node.js） */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+])
+
+/**
+ * 例外を ScrapeError に分類
+ *
+ * @example
+ * ```ts
+ * toScrapeError(new ListingGoneError(url, 404, 'Not Found'))
+ * // => { code: 'listing_gone', message: 'HTTP 404: Not Found', url, status: 404 }
+ * ```
+ */
+export function toScrapeError(error: unknown, url?: string): ScrapeError {
+  if (!(error instanceof Error)) {
+    return { code: 'unknown', message: 'Unknown error', url }
+  }
+
+  const { message } = error
+  if (error instanceof ListingGoneError) {
+    return { code: 'listing_gone', message, url: error.url, status: error.status }
+  }
+  if (error instanceof HttpStatusError) {
+    // 403 はサイト側のアクセス制限として扱う
+    const code = error.status === 403 ? 'blocked' : 'http_status'
+    return { code, message, url: error.url, status: error.status }
+  }
+  if (error instanceof BlockedError) {
+    return { code: 'blocked', message, url: error.url }
+  }
+  if (error instanceof RobotsDisallowedError) {
+    return { code: 'robots_disallowed', message, url: error.url }
+  }
+  if (error instanceof ParseError) {
+    return { code: 'parse_failure', message, url, field: error.field }
+  }
+  if (error instanceof CircuitOpenError) {
+    return { code: 'circuit_open', message, url }
+  }
+  if (isNetworkError(error)) {
+    return { code: 'network', message, url }
+  }
+  return { code: 'unknown', message, url }
+}
+
+/**
+ * fetch の接続エラーか（fetch は TypeError を投げ、原因は cause に入る）
+ */
+function isNetworkError(error: Error): boolean {
+  if (error instanceof CassetteMissError || error.name === 'AbortError' || error.name === 'TimeoutError') {
+    return true
+  }
+  const cause = error.cause as { code?: string } | undefined
+  return error instanceof TypeError && (error.message === 'fetch failed' || NETWORK_ERROR_CODES.has(cause?.code ?? ''))
+}
+
+/**
+ * ScrapeError をログ・レポート用の1行の文字列にする
+ */
+export function formatScrapeError(error: ScrapeError): string {
+  const field = error.field ? ` (field: ${error.field})` : ''
+  return `${error.url ? `${error.url}: ` : ''}${error.message}${field}`
+}
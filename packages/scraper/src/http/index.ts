@@ -0,0 +1,22 @@
+export { detectBlockedPage } from './blocked'
+export { conditionalHeaders, hashContent, HttpCache } from './cache'
+export type { CacheEntry } from './cache'
+export { decodeHtml, detectCharset } from './charset'
+export {
+  BlockedError,
+  CassetteMissError,
+  CircuitOpenError,
+  formatScrapeError,
+  HttpStatusError,
+  ListingGoneError,
+  ParseError,
+  RobotsDisallowedError,
+  toScrapeError,
+} from './errors'
+export { CircuitBreaker, createHttpStatusError, getBackoffDelay, isRetryableStatus, parseRetryAfter } from './retry'
+export { RobotsTxtCache, parseRobotsTxt, ALLOW_ALL_RULES, DISALLOW_ALL_RULES } from './robots'
+export type { RobotsRules } from './robots'
+export { RequestScheduler } from './scheduler'
+export type { RequestSchedulerOptions } from './scheduler'
+export { createRecordingTransport, createReplayTransport, networkTransport } from './transport'
+export type { FetchTransport } from './transport'
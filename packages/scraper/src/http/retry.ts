@@ -0,0 +1,105 @@
+import { HttpStatusError, ListingGoneError } from './errors'
+
+/** 掲載終了として扱うステータス */
+const GONE_STATUSES = new Set([404, 410])
+
+/** 4xx のうち時間をおけば成功する可能性があるステータス */
+const RETRYABLE_CLIENT_STATUSES = new Set([408, 425, 429])
+
+/**
+ * リトライする価値のあるステータスか
+ *
+ * 5xx と 408 / 425 / 429 のみリトライし、それ以外の 4xx は恒久的なエラーとして扱う
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || RETRYABLE_CLIENT_STATUSES.has(status)
+}
+
+/**
+ * エラーレスポンスから HttpStatusError を生成
+ *
+ * 404 / 410 は ListingGoneError、429 / 503 は Retry-After を読み取る
+ */
+export function createHttpStatusError(url: string, response: Response): HttpStatusError {
+  if (GONE_STATUSES.has(response.status)) {
+    return new ListingGoneError(url, response.status, response.statusText)
+  }
+  const retryAfter = response.status === 429 || response.status === 503
+    ? parseRetryAfter(response.headers.get('Retry-After'))
+    : null
+  return new HttpStatusError(url, response.status, response.statusText, retryAfter)
+}
+
+/**
+ * Retry-After ヘッダー（秒数または HTTP 日付）を待機時間（ミリ秒）に変換
+ *
+ * @example
+ * ```ts
+ * parseRetryAfter('120') // => 120000
+ * parseRetryAfter('Wed, 21 Oct 2026 07:28:00 GMT', now) // => 日付までのミリ秒
+ * ```
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null
+  }
+
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000
+  }
+
+  const date = Date.parse(trimmed)
+  if (isNaN(date)) {
+    return null
+  }
+  return Math.max(0, date - now)
+}
+
+/**
+ * 指数バックオフの待機時間（ミリ秒）を計算
+ *
+ * baseDelay × 2^attempt を maxDelay で頭打ちにし、同時に失敗したリクエストが
+ * 一斉に再送しないよう後半の半分をランダムにする
+ *
+ * @param attempt - 0 始まりの試行回数
+ */
+export function getBackoffDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  random: () => number = Math.random,
+): number {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** attempt)
+  return Math.round(delay / 2 + random() * delay / 2)
+}
+
+/**
+ * 連続失敗回数を数え、しきい値に達したらリクエストを止めるサーキットブレーカー
+ *
+ * スクレイパーのインスタンス（1回の実行）ごとに持ち、一度開いたら実行中は閉じない
+ */
+export class CircuitBreaker {
+  private failures = 0
+
+  /**
+   * @param threshold - 開くまでの連続失敗回数。0 以下の場合は無効
+   */
+  constructor(private threshold: number) {}
+
+  get isOpen(): boolean {
+    return this.threshold > 0 && this.failures >= this.threshold
+  }
+
+  get consecutiveFailures(): number {
+    return this.failures
+  }
+
+  recordSuccess(): void {
+    this.failures = 0
+  }
+
+  recordFailure(): void {
+    this.failures++
+  }
+}
@@ -0,0 +1,229 @@
+/** robots.txt の Allow / Disallow ルール */
+interface RobotsRule {
+  allow: boolean
+  /** パスのパターン（`*` と `$` を含む場合あり） */
+  pattern: string
+}
+
+/** User-agent ごとのルールグループ */
+interface RobotsGroup {
+  /** 小文字化した User-agent トークン */
+  userAgents: string[]
+  rules: RobotsRule[]
+  /** Crawl-delay（秒） */
+  crawlDelay: number | null
+}
+
+/** 自分の User-Agent に適用される robots.txt のルール */
+export interface RobotsRules {
+  /** パス（クエリ含む）へのアクセスが許可されているか */
+  isAllowed: (path: string) => boolean
+  /** Crawl-delay（秒）。指定がない場合は null */
+  crawlDelay: number | null
+}
+
+/** すべて許可するルール（robots.txt が存在しない場合など） */
+export const ALLOW_ALL_RULES: RobotsRules = {
+  isAllowed: () => true,
+  crawlDelay: null,
+}
+
+/** すべて禁止するルール（robots.txt に到達できない場合。RFC 9309） */
+export const DISALLOW_ALL_RULES: RobotsRules = {
+  isAllowed: () => false,
+  crawlDelay: null,
+}
+
+/**
+ * robots.txt を解析して、指定した User-Agent に適用されるルールを返す
+ *
+ * - User-agent が一致するグループのうち最も長いトークンのグループを使用し、なければ `*` を使用
+ * - Allow / Disallow は最長一致で判定し、同じ長さの場合は Allow を優先（RFC 9309）
+ *
+ * @example
+ * ```ts
+ * const rules = parseRobotsTxt('User-agent: *\nDisallow: /private/', 'MyBot/1.0')
+ * rules.isAllowed('/private/page') // => false
+ * ```
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const groups = parseGroups(text)
+  const ua = userAgent.toLowerCase()
+
+  let matched: RobotsGroup | null = null
+  let matchedLength = -1
+  for (const group of groups) {
+    for (const token of group.userAgents) {
+      if (token !== '*' && ua.includes(token) && token.length > matchedLength) {
+        matched = group
+        matchedLength = token.length
+      }
+    }
+  }
+  matched ??= groups.find(g => g.userAgents.includes('*')) ?? null
+
+  if (!matched) {
+    return ALLOW_ALL_RULES
+  }
+
+  const { rules, crawlDelay } = matched
+  return {
+    isAllowed: path => isPathAllowed(rules, path),
+    crawlDelay,
+  }
+}
+
+/**
+ * robots.txt をグループ単位に分割
+ */
+function parseGroups(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = []
+  let current: RobotsGroup | null = null
+  // 連続する User-agent 行は同じグループにまとめる
+  let lastWasUserAgent = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) {
+      continue
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (key === 'user-agent') {
+      if (!current || !lastWasUserAgent) {
+        current = { userAgents: [], rules: [], crawlDelay: null }
+        groups.push(current)
+      }
+      current.userAgents.push(value.toLowerCase())
+      lastWasUserAgent = true
+      continue
+    }
+
+    lastWasUserAgent = false
+    if (!current) {
+      continue
+    }
+
+    if (key === 'allow' || key === 'disallow') {
+      // 空の Disallow は「すべて許可」を意味するためルールにしない
+      if (value) {
+        current.rules.push({ allow: key === 'allow', pattern: value })
+      }
+    }
+    else if (key === 'crawl-delay') {
+      const delay = parseFloat(value)
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay
+      }
+    }
+  }
+
+  return groups
+}
+
+/**
+ * 最長一致でパスの可否を判定
+ */
+function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let allowed = true
+  let matchedLength = -1
+
+  for (const rule of rules) {
+    if (!matchesPattern(rule.pattern, path)) {
+      continue
+    }
+    const length = rule.pattern.length
+    if (length > matchedLength || (length === matchedLength && rule.allow)) {
+      allowed = rule.allow
+      matchedLength = length
+    }
+  }
+
+  return allowed
+}
+
+/**
+ * robots.txt のパターン（`*` は任意の文字列、末尾の `$` は終端）とパスを照合
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path)
+}
+
+/**
+ * robots.txt の取得結果をホストごとにキャッシュする
+ *
+ * robots.txt が存在しない（4xx）場合はすべて許可、5xx や接続エラーで到達できない場合は
+ * すべて禁止として扱う（RFC 9309）。到達できなかった結果はキャッシュせず、次回のアクセスで取得し直す
+ *
+ * @example
+ * ```ts
+ * const robots = new RobotsTxtCache('MyBot/1.0')
+ * const rules = await robots.getRules('https://example.com/list?page=2')
+ * ```
+ */
+export class RobotsTxtCache {
+  private cache = new Map<string, Promise<RobotsRules>>()
+
+  constructor(
+    private userAgent: string,
+    private fetchRobotsTxt: (url: string) => Promise<Response> = url =>
+      fetch(url, { headers: { 'User-Agent': userAgent } }),
+  ) {}
+
+  /**
+   * URL のホストに適用される robots.txt のルールを取得
+   */
+  getRules(url: string): Promise<RobotsRules> {
+    const { origin } = new URL(url)
+    let rules = this.cache.get(origin)
+    if (!rules) {
+      rules = this.load(origin)
+      this.cache.set(origin, rules)
+    }
+    return rules
+  }
+
+  /**
+   * URL へのアクセスが許可されているか
+   */
+  async isAllowed(url: string): Promise<boolean> {
+    const rules = await this.getRules(url)
+    const { pathname, search } = new URL(url)
+    return rules.isAllowed(`${pathname}${search}`)
+  }
+
+  private async load(origin: string): Promise<RobotsRules> {
+    try {
+      const response = await this.fetchRobotsTxt(`${origin}/robots.txt`)
+      if (response.status >= 500) {
+        console.warn(`⚠️ robots.txt の取得に失敗しました（HTTP ${response.status}）: ${origin}`)
+        return this.unreachable(origin)
+      }
+      if (!response.ok) {
+        return ALLOW_ALL_RULES
+      }
+      return parseRobotsTxt(await response.text(), this.userAgent)
+    }
+    catch (error) {
+      console.warn(`⚠️ robots.txt の取得に失敗しました: ${origin}`, error)
+      return this.unreachable(origin)
+    }
+  }
+
+  /**
+   * robots.txt に到達できなかったホストはすべて禁止とし、次回のアクセスで取得し直す
+   */
+  private unreachable(origin: string): RobotsRules {
+    this.cache.delete(origin)
+    return DISALLOW_ALL_RULES
+  }
+}
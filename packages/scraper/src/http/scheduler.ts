@@ -0,0 +1,143 @@
+/** RequestScheduler の設定 */
+export interface RequestSchedulerOptions {
+  /** ホストごとの最大同時リクエスト数 */
+  maxConcurrent: number
+  /**
+   * ホストごとのリクエスト間隔（ミリ秒）
+   *
+   * maxConcurrent 件のリクエストをこの間隔ごとに許可する（トークンバケット）
+   */
+  interval: number
+}
+
+/** ホストごとの状態 */
+interface HostState {
+  /** 実行中のリクエスト数 */
+  active: number
+  /** 同時実行数の空きを待っているリクエスト */
+  waiting: (() => void)[]
+  /** 利用可能なトークン数 */
+  tokens: number
+  /** 最後にトークンを補充した時刻 */
+  refilledAt: number
+  /** 同時実行数の上限（トークンバケットの容量） */
+  capacity: number
+  /** capacity 件のリクエストを許可する間隔 */
+  interval: number
+}
+
+/**
+ * ホストごとの同時実行数とリクエスト間隔を制御するスケジューラ
+ *
+ * 同時実行数は maxConcurrent まで、リクエストの開始はトークンバケットで
+ * interval ごとに maxConcurrent 件までに制限する
+ *
+ * @example
+ * ```ts
+ * const scheduler = new RequestScheduler({ maxConcurrent: 2, interval: 5000 })
+ * const html = await scheduler.schedule(url, () => fetch(url).then(r => r.text()))
+ * ```
+ */
+export class RequestScheduler {
+  private hosts = new Map<string, HostState>()
+
+  constructor(private options: RequestSchedulerOptions) {}
+
+  /**
+   * URL のホストの枠が空くまで待ってからタスクを実行
+   */
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const state = this.getState(url)
+
+    await this.acquireSlot(state)
+    try {
+      await this.takeToken(state)
+      return await task()
+    }
+    finally {
+      this.releaseSlot(state)
+    }
+  }
+
+  /**
+   * robots.txt の Crawl-delay を適用する
+   *
+   * Crawl-delay は連続するリクエストの間隔を表すため、同時実行数を1にしたうえで
+   * 現在の間隔より長い場合のみ引き上げる
+   */
+  applyCrawlDelay(url: string, delay: number): void {
+    const state = this.getState(url)
+    const perRequest = state.interval / state.capacity
+    state.capacity = 1
+    state.tokens = Math.min(state.tokens, 1)
+    state.interval = Math.max(perRequest, delay)
+  }
+
+  /**
+   * ホストで次のリクエストを開始できるまでの最短間隔（ミリ秒）
+   */
+  getRequestInterval(url: string): number {
+    const state = this.getState(url)
+    return state.interval / state.capacity
+  }
+
+  private getState(url: string): HostState {
+    const { host } = new URL(url)
+    let state = this.hosts.get(host)
+    if (!state) {
+      state = {
+        active: 0,
+        waiting: [],
+        tokens: this.options.maxConcurrent,
+        refilledAt: Date.now(),
+        capacity: this.options.maxConcurrent,
+        interval: this.options.interval,
+      }
+      this.hosts.set(host, state)
+    }
+    return state
+  }
+
+  private async acquireSlot(state: HostState): Promise<void> {
+    if (state.active < state.capacity) {
+      state.active++
+      return
+    }
+    // 空いた枠は releaseSlot から直接引き継ぐ（active は減らさない）
+    await new Promise<void>(resolve => state.waiting.push(resolve))
+  }
+
+  private releaseSlot(state: HostState): void {
+    const next = state.active <= state.capacity ? state.waiting.shift() : undefined
+    if (next) {
+      next()
+    }
+    else {
+      state.active--
+    }
+  }
+
+  /**
+   * トークンを1つ消費する。なければ補充されるまで待機
+   */
+  private async takeToken(state: HostState): Promise<void> {
+    if (state.interval <= 0) {
+      return
+    }
+
+    for (;;) {
+      const now = Date.now()
+      // interval ごとに capacity 個補充
+      const refillRate = state.capacity / state.interval
+      state.tokens = Math.min(state.capacity, state.tokens + (now - state.refilledAt) * refillRate)
+      state.refilledAt = now
+
+      if (state.tokens >= 1) {
+        state.tokens -= 1
+        return
+      }
+
+      await new Promise(resolve => setTimeout(resolve, (1 - state.tokens) / refillRate))
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { CassetteMissError } from './errors'
+
+/**
+ * HTTP リクエストを送る関数（fetch と同じシグネチャ）
+ *
+ * BaseScraper の HTTP アクセスはすべてこれを経由するため、差し替えることで
+ * 記録・再生やテスト用のスタブに切り替えられる
+ */
+export type FetchTransport = (url: string, init?: RequestInit) => Promise<Response>
+
+/** ネットワークに接続する通常のトランスポート */
+export const networkTransport: FetchTransport = (url, init) => fetch(url, init)
+
+/** カセットに保存するレスポンス */
+interface CassetteEntry {
+  url: string
+  method: string
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  /** レスポンスボディ（文字コードに依存しないよう base64 で保存） */
+  body: string
+  recordedAt: string
+}
+
+/**
+ * リクエストに対応するカセットファイルのパス
+ *
+ * ファイル名はホスト名とメソッド・URL のハッシュから決める
+ */
+function cassettePath(dir: string, url: string, init?: RequestInit): string {
+  const method = init?.method ?? 'GET'
+  const hash = createHash('sha256').update(`${method} ${url}`).digest('hex').slice(0, 16)
+  return join(dir, `${new URL(url).host}-${hash}.json`)
+}
+
+/**
+ * レスポンスをカセットディレクトリに保存するトランスポート
+ *
+ * エラーステータスのレスポンスも保存し、再生時に同じリトライ・エラー処理を再現する
+ *
+ * @example
+ * ```ts
+ * const scraper = new SuumoScraper({ transport: createRecordingTransport('cassettes/suumo') })
+ * ```
+ */
+export function createRecordingTransport(dir: string, inner: FetchTransport = networkTransport): FetchTransport {
+  return async (url, init) => {
+    const response = await inner(url, init)
+    const body = Buffer.from(await response.arrayBuffer())
+
+    const entry: CassetteEntry = {
+      url,
+      method: init?.method ?? 'GET',
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers),
+      body: body.toString('base64'),
+      recordedAt: new Date().toISOString(),
+    }
+    await mkdir(dir, { recursive: true })
+    await writeFile(cassettePath(dir, url, init), `${JSON.stringify(entry, null, 2)}\n`)
+
+    return toResponse(entry)
+  }
+}
+
+/**
+ * カセットディレクトリに保存したレスポンスを返すトランスポート
+ *
+ * ネットワークには一切接続せず、記録されていないリクエストは CassetteMissError を投げる
+ *
+ * @example
+ * ```ts
+ * const scraper = new SuumoScraper({ transport: createReplayTransport('cassettes/suumo'), requestDelay: 0 })
+ * ```
+ */
+export function createReplayTransport(dir: string): FetchTransport {
+  return async (url, init) => {
+    let text: string
+    try {
+      text = await readFile(cassettePath(dir, url, init), 'utf-8')
+    }
+    catch {
+      throw new CassetteMissError(url)
+    }
+    return toResponse(JSON.parse(text) as CassetteEntry)
+  }
+}
+
+function toResponse(entry: CassetteEntry): Response {
+  // 204 / 304 などボディを持てないステータスには null を渡す
+  const body = entry.body && ![204, 304].includes(entry.status) ? Buffer.from(entry.body, 'base64') : null
+  return new Response(body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  })
+}
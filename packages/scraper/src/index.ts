@@ -1,3 +1,9 @@
 export * from './types'
+export * from './areas'
+export * from './dedupe'
+export * from './geo'
+export * from './http'
 export * from './sources'
 export * from './services'
+export * from './stations'
+export * from './runner'
@@ -0,0 +1,135 @@
+import type { Property, PropertySource } from '@cat-home/shared'
+import type { CoverageField, CoverageThresholds, FieldSelectors } from '../types'
+
+/** 詳細ページからのみ取得できる項目 */
+const DETAIL_ONLY_FIELDS: readonly CoverageField[] = ['nearestStations', 'petConditions']
+
+/** 取得率を判定する最低物件数（これより少ない場合は判定しない） */
+export const MIN_COVERAGE_SAMPLES = 10
+
+/**
+ * デフォルトの最低取得率
+ *
+ * ペット条件は詳細ページに記載がない物件もあるため低めにしている
+ */
+export const DEFAULT_COVERAGE_THRESHOLDS: Required<CoverageThresholds> = {
+  name: 0.95,
+  address: 0.95,
+  prefecture: 0.9,
+  rent: 0.95,
+  area: 0.9,
+  floorPlan: 0.9,
+  nearestStations: 0.7,
+  petConditions: 0.5,
+}
+
+/** 項目ごとの取得率 */
+export interface FieldCoverage {
+  field: CoverageField
+  /** 値を取得できた物件数 */
+  present: number
+  /** 判定対象の物件数 */
+  total: number
+  /** 取得率（0〜1） */
+  ratio: number
+  threshold: number
+  /** 値の取得に使用したセレクタ */
+  selector: string | null
+  /** 最低取得率を下回ったか */
+  broken: boolean
+}
+
+/** データソースごとの取得率レポート */
+export interface CoverageReport {
+  source: PropertySource
+  fields: FieldCoverage[]
+  /** 最低取得率を下回った項目 */
+  brokenFields: FieldCoverage[]
+}
+
+/** measureCoverage のオプション */
+export interface CoverageOptions {
+  thresholds: CoverageThresholds
+  selectors: FieldSelectors
+  /**
+   * 詳細ページの情報をマージした物件
+   *
+   * 省略した場合は詳細ページのみの項目を計測しない
+   */
+  detailed?: Partial<Property>[]
+}
+
+/**
+ * 取得した物件の項目ごとの取得率を計測
+ *
+ * サイトのマークアップ変更でセレクタが外れると、パーサーは例外を投げずに
+ * 0 や空文字を返すため、取得率の低下でセレクタの破損を検出する
+ *
+ * @example
+ * ```ts
+ * const report = measureCoverage('suumo', properties, { thresholds, selectors: scraper.fieldSelectors })
+ * report.brokenFields // => 最低取得率を下回った項目
+ * ```
+ */
+export function measureCoverage(
+  source: PropertySource,
+  properties: Partial<Property>[],
+  options: CoverageOptions,
+): CoverageReport {
+  const fields: FieldCoverage[] = []
+
+  for (const [field, threshold] of Object.entries(options.thresholds) as [CoverageField, number][]) {
+    const isDetailField = DETAIL_ONLY_FIELDS.includes(field)
+    const targets = isDetailField ? options.detailed : properties
+    if (!targets) {
+      continue
+    }
+
+    const present = targets.filter(p => hasValue(p, field)).length
+    const total = targets.length
+    const ratio = total > 0 ? present / total : 1
+    const selector = options.selectors[field]
+    fields.push({
+      field,
+      present,
+      total,
+      ratio,
+      threshold,
+      selector: (isDetailField ? selector?.detail : selector?.list) ?? null,
+      broken: total >= MIN_COVERAGE_SAMPLES && ratio < threshold,
+    })
+  }
+
+  return { source, fields, brokenFields: fields.filter(f => f.broken) }
+}
+
+/**
+ * 取得率レポートを表示用の行に変換
+ */
+export function formatCoverageReport(report: CoverageReport): string[] {
+  return report.fields.map((f) => {
+    const mark = f.broken ? '❌' : '✅'
+    const ratio = `${(f.ratio * 100).toFixed(1)}%`.padStart(6)
+    const selector = f.broken && f.selector ? ` selector: ${f.selector}` : ''
+    return `${mark} ${f.field.padEnd(16)}${ratio} (${f.present}/${f.total}, min ${f.threshold * 100}%)${selector}`
+  })
+}
+
+/**
+ * 物件が項目の値を持っているか
+ *
+ * パーサーが取得失敗時に返す 0・空文字・空配列は値なしとして扱う
+ */
+function hasValue(property: Partial<Property>, field: CoverageField): boolean {
+  const value = property[field]
+  if (typeof value === 'number') {
+    return value > 0
+  }
+  if (typeof value === 'string') {
+    return value.trim() !== ''
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0
+  }
+  return value !== null && value !== undefined
+}
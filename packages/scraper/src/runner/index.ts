@@ -0,0 +1,4 @@
+export { ScrapeRunner, mergeDetail, DETAIL_FIELDS } from './scrape-runner'
+export type { PropertyStore, ScrapeRunOptions, ScrapeRunSummary, SourceRunSummary } from './scrape-runner'
+export { DEFAULT_COVERAGE_THRESHOLDS, MIN_COVERAGE_SAMPLES, formatCoverageReport, measureCoverage } from './coverage'
+export type { CoverageOptions, CoverageReport, FieldCoverage } from './coverage'
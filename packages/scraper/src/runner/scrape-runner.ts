@@ -0,0 +1,551 @@
+import type { Property, PropertySource } from '@cat-home/shared'
+import type { AreaTarget } from '../areas/catalog'
+import type { DatabaseService, DeactivateScope } from '../services/database'
+import type { BaseScraper } from '../sources/base'
+import type { ScraperRegistration } from '../sources/registry'
+import type { ScraperConfig, ScrapeError, ScrapeErrorCode } from '../types'
+import type { CoverageReport } from './coverage'
+import { formatArea } from '../areas/catalog'
+import { geocodeProperty } from '../geo/geocoder'
+import { formatScrapeError, toScrapeError } from '../http/errors'
+import { getScraperRegistration } from '../sources/registry'
+import { DEFAULT_COVERAGE_THRESHOLDS, formatCoverageReport, measureCoverage } from './coverage'
+
+/** 詳細ページから一覧の物件情報へマージする項目 */
+export const DETAIL_FIELDS = [
+  'deposit',
+  'depositMonths',
+  'keyMoney',
+  'keyMoneyMonths',
+  'guaranteeDeposit',
+  'depositAmortization',
+  'roomSizes',
+  'yearBuilt',
+  'buildingType',
+  'floors',
+  'roomFloor',
+  'direction',
+  'nearestStations',
+  'features',
+  'images',
+  'petConditions',
+] as const satisfies readonly (keyof Property)[]
+
+/**
+ * 詳細ページの取得に失敗した場合に実行を失敗として通知するエラー
+ *
+ * それ以外（一時的な network / http_status など）は一覧の情報のみで保存し warnings に記録する
+ */
+const DETAIL_ALERT_CODES: ReadonlySet<ScrapeErrorCode> = new Set([
+  'blocked',
+  'robots_disallowed',
+  'parse_failure',
+  'circuit_open',
+])
+
+/** 実行オプション */
+export interface ScrapeRunOptions {
+  /** 実行するデータソース（登録順に実行） */
+  sources: PropertySource[]
+  /** 対象エリア（resolveAreas で生成） */
+  areas: AreaTarget[]
+  /** DB 保存をスキップする */
+  dryRun?: boolean
+  /** 詳細ページも取得する */
+  withDetails?: boolean
+  /** 全ソース共通で上書きする設定 */
+  scraperConfig?: Partial<ScraperConfig>
+}
+
+/** データソースごとの実行結果 */
+export interface SourceRunSummary {
+  source: PropertySource
+  label: string
+  /** 取得物件数 */
+  found: number
+  inserted: number
+  updated: number
+  /** 前回から変更がなく、last_seen_at のみ更新した物件数 */
+  unchanged: number
+  deactivated: number
+  /** 実行を失敗とするエラー（一覧の取得失敗・アクセス制限・保存失敗など） */
+  errors: ScrapeError[]
+  /** 一覧の情報のみで保存した詳細ページの取得失敗 */
+  warnings: ScrapeError[]
+  /** 項目ごとの取得率 */
+  coverage: CoverageReport | null
+  /** 処理時間（ミリ秒） */
+  duration: number
+}
+
+/** 実行全体の結果 */
+export interface ScrapeRunSummary {
+  sources: SourceRunSummary[]
+  found: number
+  inserted: number
+  updated: number
+  unchanged: number
+  deactivated: number
+  errors: RunError[]
+  warnings: RunError[]
+  /** errors と warnings を種類ごとにまとめたもの */
+  errorsByCode: Partial<Record<ScrapeErrorCode, RunError[]>>
+  /** エラーなく完了したか */
+  success: boolean
+}
+
+/** データソース名付きのエラー */
+export type RunError = ScrapeError & { source: PropertySource }
+
+/** ScrapeRunner が利用する DB 操作 */
+export type PropertyStore = Pick<DatabaseService, 'upsertProperties' | 'touchProperties' | 'deactivateMissing'>
+
+/** 詳細ページの取得結果 */
+interface DetailFetchResult {
+  /** 詳細ページが削除済み（掲載終了）だった物件 */
+  gone: Set<Partial<Property>>
+  /** 詳細ページが前回から変更されていなかった物件 */
+  notModified: Set<Partial<Property>>
+  /** 詳細ページの情報をマージした物件 */
+  merged: Partial<Property>[]
+}
+
+/**
+ * 複数のデータソースを順に実行するスクレイピングランナー
+ *
+ * 一覧取得 → 詳細取得（任意） → Upsert → 掲載終了物件の非アクティブ化 を各ソースで行う。
+ * HTTP キャッシュ（scraperConfig.cacheDir）で前回から変更がないと分かった物件は
+ * Upsert せず last_seen_at のみ更新する
+ *
+ * @example
+ * ```ts
+ * const runner = new ScrapeRunner(new DatabaseService(url, key))
+ * const summary = await runner.run({
+ *   sources: ['suumo', 'homes'],
+ *   areas: resolveAreas('東京都/23区'),
+ *   withDetails: true,
+ * })
+ * ```
+ */
+export class ScrapeRunner {
+  /**
+   * @param db - 保存先。ドライラン時は null
+   */
+  constructor(private db: PropertyStore | null) {}
+
+  async run(options: ScrapeRunOptions): Promise<ScrapeRunSummary> {
+    const summaries: SourceRunSummary[] = []
+
+    for (const source of options.sources) {
+      const registration = getScraperRegistration(source)
+      if (!registration) {
+        summaries.push(this.emptySummary(source, source, [{ code: 'unknown', message: `Unknown source: ${source}` }]))
+        continue
+      }
+      summaries.push(await this.runSource(registration, options))
+    }
+
+    const errors = summaries.flatMap(s => s.errors.map(e => ({ ...e, source: s.source })))
+    const warnings = summaries.flatMap(s => s.warnings.map(e => ({ ...e, source: s.source })))
+
+    return {
+      sources: summaries,
+      found: sum(summaries, 'found'),
+      inserted: sum(summaries, 'inserted'),
+      updated: sum(summaries, 'updated'),
+      unchanged: sum(summaries, 'unchanged'),
+      deactivated: sum(summaries, 'deactivated'),
+      errors,
+      warnings,
+      errorsByCode: groupByCode([...errors, ...warnings]),
+      success: errors.length === 0,
+    }
+  }
+
+  /**
+   * 1つのデータソースを実行
+   */
+  private async runSource(
+    registration: ScraperRegistration,
+    options: ScrapeRunOptions,
+  ): Promise<SourceRunSummary> {
+    const startTime = Date.now()
+    const { source, label } = registration
+
+    console.log(`\n🐱 cat-home ${label} scraper starting...`)
+    if (registration.notice) {
+      console.log(`⚠️  注意: ${registration.notice}`)
+    }
+
+    const scraper = registration.create({ ...registration.config, ...options.scraperConfig })
+    const summary = this.emptySummary(source, label, [])
+    const externalIds: string[] = []
+    const failedAreas: AreaTarget[] = []
+    // 全エリアの取得結果（取得率を確認してから保存する）
+    const scraped: Partial<Property>[] = []
+    const detailed: Partial<Property>[] = []
+    const changed: Partial<Property>[] = []
+    const unchanged: Partial<Property>[] = []
+    // 取得できた一覧ページ数
+    let listedPages = 0
+
+    for (const area of options.areas) {
+      // 複数のサイトをまとめたソースは1エリアに複数の一覧URLがある
+      const urls = [registration.buildSearchUrl(area)].flat()
+      if (urls.length === 0) {
+        console.log(`⏭️ ${formatArea(area)}: 対象エリアを掲載しているサイトがありません`)
+      }
+
+      for (const url of urls) {
+        console.log(`📄 Scraping ${formatArea(area)}: ${url}`)
+
+        const result = await scraper.scrapeList(url)
+
+        if (!result.success) {
+          const error = result.error ?? toScrapeError(null, url)
+          console.error(`❌ Scrape failed [${error.code}]: ${formatScrapeError(error)}`)
+          summary.errors.push(error)
+          failedAreas.push(area)
+          continue
+        }
+
+        console.log(`✅ Found ${result.properties.length} properties in ${result.pages ?? 1} pages (${result.duration}ms)`)
+        listedPages += result.pages ?? 1
+
+        // 一部のページのみ失敗した場合は取得できた物件を保存し、非アクティブ化の対象から外す
+        if (result.pageErrors?.length) {
+          for (const pageError of result.pageErrors) {
+            console.error(`❌ Page failed [${pageError.code}]: ${formatScrapeError(pageError)}`)
+            summary.errors.push(pageError)
+          }
+          failedAreas.push(area)
+        }
+
+        let properties = result.properties
+        let notModified: Set<Partial<Property>>
+        if (options.withDetails) {
+          // 詳細ページが削除済みの物件は保存せず、非アクティブ化の対象にする
+          const details = await this.fetchDetails(scraper, properties, summary)
+          properties = properties.filter(p => !details.gone.has(p))
+          notModified = details.notModified
+          detailed.push(...details.merged)
+        }
+        else {
+          const notModifiedIds = new Set(result.notModifiedExternalIds)
+          notModified = new Set(properties.filter(p => p.externalId && notModifiedIds.has(p.externalId)))
+        }
+
+        for (const prop of properties) {
+          if (prop.externalId) {
+            externalIds.push(prop.externalId)
+          }
+        }
+
+        const areaUnchanged = properties.filter(p => p.externalId && notModified.has(p))
+        const areaChanged = properties.filter(p => !areaUnchanged.includes(p))
+        if (areaUnchanged.length > 0) {
+          console.log(`⏭️ Unchanged: ${areaUnchanged.length} properties`)
+        }
+        if (options.dryRun) {
+          logProperties(areaChanged, options.withDetails ?? false)
+        }
+
+        scraped.push(...properties)
+        changed.push(...areaChanged)
+        unchanged.push(...areaUnchanged)
+      }
+    }
+
+    summary.found = externalIds.length
+
+    // 一覧の物件のセレクタが外れると、一覧ページは取得できても物件が0件になり取得率では検出できない
+    if (listedPages > 0 && scraped.length === 0) {
+      summary.errors.push({
+        code: 'parse_failure',
+        field: 'listItems',
+        message: `No properties found in ${listedPages} list pages`,
+      })
+      console.error('❌ No properties found in list pages: the list item selector may be broken')
+      summary.duration = Date.now() - startTime
+      return summary
+    }
+
+    // セレクタが外れて値を取得できていない場合は、不正な値で上書きしないよう保存と非アクティブ化を行わない
+    summary.coverage = this.checkCoverage(registration, scraper, scraped, options.withDetails ? detailed : undefined)
+    if (summary.coverage.brokenFields.length > 0) {
+      for (const field of summary.coverage.brokenFields) {
+        const selector = field.selector ? ` (selector: ${field.selector})` : ''
+        summary.errors.push({
+          code: 'parse_failure',
+          field: field.field,
+          message: `Coverage of ${field.field} dropped to ${(field.ratio * 100).toFixed(1)}% (min ${field.threshold * 100}%)${selector}`,
+        })
+      }
+      console.error(`❌ Selector drift detected in ${summary.coverage.brokenFields.map(f => f.field).join(', ')}: skip saving`)
+      summary.duration = Date.now() - startTime
+      return summary
+    }
+
+    if (!options.dryRun && this.db) {
+      const missing = await this.touchUnchanged(scraper, source, unchanged, options.withDetails ?? false, summary)
+      summary.unchanged += unchanged.length - missing.length
+
+      const saving = [...changed, ...missing]
+      // 住所の代表点から緯度経度を設定
+      saving.forEach(p => geocodeProperty(p))
+
+      const upsertResult = await this.db.upsertProperties(saving)
+      summary.inserted += upsertResult.inserted
+      summary.updated += upsertResult.updated
+      summary.errors.push(...upsertResult.errors)
+
+      console.log(`💾 Saved: ${upsertResult.inserted} inserted, ${upsertResult.updated} updated`)
+    }
+
+    // 掲載終了物件を非アクティブ化（今回クロールしたエリア内のみ）
+    if (!options.dryRun && this.db && externalIds.length > 0) {
+      for (const scope of toDeactivateScopes(options.areas, failedAreas)) {
+        try {
+          summary.deactivated += await this.db.deactivateMissing(source, externalIds, scope)
+        }
+        catch (error) {
+          summary.errors.push({ ...toScrapeError(error), code: 'database' })
+        }
+      }
+      console.log(`🔄 Deactivated: ${summary.deactivated} properties`)
+    }
+
+    summary.duration = Date.now() - startTime
+    return summary
+  }
+
+  /**
+   * 詳細ページを取得して一覧の物件情報にマージ
+   *
+   * 同時実行数とリクエスト間隔はスクレイパー側のスケジューラがホストごとに制御する
+   */
+  private async fetchDetails(
+    scraper: BaseScraper,
+    properties: Partial<Property>[],
+    summary: SourceRunSummary,
+  ): Promise<DetailFetchResult> {
+    console.log(`📖 Fetching detail pages for ${properties.length} properties...`)
+    const result: DetailFetchResult = { gone: new Set(), notModified: new Set(), merged: [] }
+    let completed = 0
+
+    await Promise.all(properties.map(async (prop) => {
+      if (!prop.sourceUrl) {
+        console.log(`  ⚠️ ${prop.name}: No source URL`)
+        return
+      }
+
+      const detailResult = await scraper.scrapeDetail(prop.sourceUrl)
+      const progress = `[${++completed}/${properties.length}]`
+      const detailProp = detailResult.properties[0]
+      if (detailResult.notModified) {
+        result.notModified.add(prop)
+        console.log(`  ⏭️ ${progress} ${prop.name}: Not modified`)
+      }
+      else if (detailResult.success && detailProp) {
+        mergeDetail(prop, detailProp)
+        result.merged.push(prop)
+        console.log(`  📄 ${progress} ${prop.name}`)
+      }
+      else if (detailResult.error?.code === 'listing_gone') {
+        result.gone.add(prop)
+        console.log(`  🗑️ ${progress} ${prop.name}: Listing gone`)
+      }
+      else {
+        const error = { ...(detailResult.error ?? toScrapeError(null, prop.sourceUrl)), externalId: prop.externalId }
+        console.log(`  ⚠️ ${progress} ${prop.name}: Detail fetch failed [${error.code}]: ${error.message}`)
+        if (DETAIL_ALERT_CODES.has(error.code)) {
+          summary.errors.push(error)
+        }
+        else {
+          summary.warnings.push(error)
+        }
+      }
+    }))
+
+    return result
+  }
+
+  /**
+   * 項目ごとの取得率を計測してログに出力
+   *
+   * @param detailed - 詳細ページの情報をマージした物件（詳細を取得しない場合は undefined）
+   */
+  private checkCoverage(
+    registration: ScraperRegistration,
+    scraper: BaseScraper,
+    properties: Partial<Property>[],
+    detailed: Partial<Property>[] | undefined,
+  ): CoverageReport {
+    const report = measureCoverage(registration.source, properties, {
+      thresholds: { ...DEFAULT_COVERAGE_THRESHOLDS, ...registration.coverageThresholds },
+      selectors: scraper.fieldSelectors,
+      detailed,
+    })
+
+    console.log('📊 Field coverage:')
+    for (const line of formatCoverageReport(report)) {
+      console.log(`  ${line}`)
+    }
+    return report
+  }
+
+  /**
+   * 前回から変更がなかった物件の last_seen_at を更新
+   *
+   * DB に存在しない物件（前回の保存に失敗した場合など）は HTTP キャッシュを破棄して詳細を取り直す
+   *
+   * @returns DB に存在せず、保存が必要な物件
+   */
+  private async touchUnchanged(
+    scraper: BaseScraper,
+    source: PropertySource,
+    unchanged: Partial<Property>[],
+    withDetails: boolean,
+    summary: SourceRunSummary,
+  ): Promise<Partial<Property>[]> {
+    if (!this.db || unchanged.length === 0) {
+      return []
+    }
+
+    let missingIds: string[]
+    try {
+      missingIds = await this.db.touchProperties(source, unchanged.map(p => p.externalId!))
+    }
+    catch (error) {
+      summary.errors.push({ ...toScrapeError(error), code: 'database' })
+      return []
+    }
+
+    const missing = unchanged.filter(p => missingIds.includes(p.externalId!))
+    if (missing.length === 0 || !withDetails) {
+      return missing
+    }
+
+    console.log(`🔁 ${missing.length} unchanged properties are missing in DB, refetching details...`)
+    for (const prop of missing) {
+      if (prop.sourceUrl) {
+        await scraper.invalidateCache(prop.sourceUrl)
+      }
+    }
+    const { gone } = await this.fetchDetails(scraper, missing, summary)
+    return missing.filter(p => !gone.has(p))
+  }
+
+  private emptySummary(source: PropertySource, label: string, errors: ScrapeError[]): SourceRunSummary {
+    return {
+      source,
+      label,
+      found: 0,
+      inserted: 0,
+      updated: 0,
+      unchanged: 0,
+      deactivated: 0,
+      errors,
+      warnings: [],
+      coverage: null,
+      duration: 0,
+    }
+  }
+}
+
+/**
+ * 詳細ページの情報を一覧の物件情報にマージする
+ */
+export function mergeDetail(target: Partial<Property>, detail: Partial<Property>): void {
+  for (const field of DETAIL_FIELDS) {
+    Object.assign(target, { [field]: detail[field] })
+  }
+}
+
+/**
+ * クロールしたエリアを都道府県ごとの非アクティブ化範囲にまとめる
+ *
+ * 一覧の取得に失敗したエリアを含む都道府県は、未取得の物件まで非アクティブ化しないよう除外する
+ */
+function toDeactivateScopes(areas: AreaTarget[], failedAreas: AreaTarget[]): DeactivateScope[] {
+  const failedPrefectures = new Set(failedAreas.map(a => a.prefecture.code))
+  const scopes = new Map<string, DeactivateScope>()
+
+  for (const { prefecture, municipality } of areas) {
+    if (failedPrefectures.has(prefecture.code)) {
+      continue
+    }
+
+    const scope = scopes.get(prefecture.code) ?? { prefecture: prefecture.name, cities: [] }
+    if (!municipality) {
+      // 都道府県全体をクロールした場合は市区町村で絞り込まない
+      scope.cities = undefined
+    }
+    else if (scope.cities) {
+      scope.cities.push(municipality.name)
+    }
+    scopes.set(prefecture.code, scope)
+  }
+
+  return [...scopes.values()]
+}
+
+function sum(
+  summaries: SourceRunSummary[],
+  key: 'found' | 'inserted' | 'updated' | 'unchanged' | 'deactivated',
+): number {
+  return summaries.reduce((total, s) => total + s[key], 0)
+}
+
+/**
+ * エラーを種類ごとにまとめる
+ */
+function groupByCode(errors: RunError[]): Partial<Record<ScrapeErrorCode, RunError[]>> {
+  const groups: Partial<Record<ScrapeErrorCode, RunError[]>> = {}
+  for (const error of errors) {
+    (groups[error.code] ??= []).push(error)
+  }
+  return groups
+}
+
+/**
+ * ドライラン時に取得した物件情報を表示
+ */
+function logProperties(properties: Partial<Property>[], withDetails: boolean): void {
+  console.log('\n--- 取得した物件情報 ---')
+  for (const prop of properties) {
+    console.log(`  ${prop.name}`)
+    console.log(`    住所: ${prop.address}`)
+    console.log(`    賃料: ${prop.rent?.toLocaleString()}円`)
+    console.log(`    管理費: ${prop.managementFee?.toLocaleString()}円`)
+    console.log(`    間取り: ${prop.floorPlan}`)
+    console.log(`    面積: ${prop.area}m²`)
+    console.log(`    ID: ${prop.externalId}`)
+    // --with-details の追加情報
+    if (withDetails) {
+      console.log(`    敷金: ${prop.deposit?.toLocaleString() ?? '-'}円`)
+      console.log(`    礼金: ${prop.keyMoney?.toLocaleString() ?? '-'}円`)
+      console.log(`    築年: ${prop.yearBuilt ?? '-'}年`)
+      console.log(`    建物種別: ${prop.buildingType ?? '-'}`)
+      console.log(`    階数: ${prop.floors ?? '-'}階建 / ${prop.roomFloor ?? '-'}階`)
+      console.log(`    向き: ${prop.direction ?? '-'}`)
+      if (prop.nearestStations?.length) {
+        console.log(`    最寄駅: ${prop.nearestStations.map(s => `${s.station}(${s.walkMinutes}分)`).join(', ')}`)
+      }
+      if (prop.features?.length) {
+        console.log(`    設備: ${prop.features.slice(0, 5).join(', ')}${prop.features.length > 5 ? '...' : ''}`)
+      }
+      if (prop.petConditions) {
+        const pet = prop.petConditions
+        const petInfo: string[] = []
+        if (pet.catAllowed) petInfo.push(`猫${pet.cat === 'negotiable' ? '相談' : '可'}${pet.catLimit ? `(${pet.catLimit}匹まで)` : ''}`)
+        if (pet.dogAllowed) petInfo.push(`犬${pet.dog === 'negotiable' ? '相談' : '可'}${pet.smallDogOnly ? '(小型犬のみ)' : ''}`)
+        console.log(`    ペット条件: ${petInfo.join(', ') || '詳細不明'}`)
+      }
+      if (prop.images?.length) {
+        console.log(`    画像: ${prop.images.length}枚`)
+      }
+    }
+    console.log('')
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * 既存の物件の住所を正規化し、緯度経度を設定するスクリプト
+ *
+ * 緯度経度が未設定（geocode_precision が null）の物件が対象
+ *
+ * 環境変数:
+ *   - SUPABASE_URL: Supabase プロジェクト URL
+ *   - SUPABASE_SERVICE_KEY: Supabase サービスロールキー（service_role）
+ *
+ * 使用方法:
+ *   pnpm --filter @cat-home/scraper backfill:geocode                  # 未設定の物件をすべて更新
+ *   pnpm --filter @cat-home/scraper backfill:geocode --dry-run        # 更新せずに件数のみ表示
+ *   pnpm --filter @cat-home/scraper backfill:geocode --batch-size 200 # 1回に取得する件数（デフォルト: 500）
+ */
+import type { GeocodePrecision } from '@cat-home/shared'
+import { parseArgs } from 'node:util'
+import { geocodeAddress } from '../geo/geocoder'
+import { DatabaseService } from '../services/database'
+import { normalizeAddress } from '../utils/address-normalizer'
+
+const { values: args } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '500' },
+  },
+})
+
+async function main() {
+  const supabaseUrl = process.env.SUPABASE_URL
+  const supabaseKey = process.env.SUPABASE_SERVICE_KEY
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('❌ Missing environment variables: SUPABASE_URL, SUPABASE_SERVICE_KEY')
+    process.exit(1)
+  }
+
+  const db = new DatabaseService(supabaseUrl, supabaseKey)
+  const batchSize = parseInt(args['batch-size'], 10)
+  const counts: Record<GeocodePrecision | 'notFound', number> = { block: 0, town: 0, city: 0, notFound: 0 }
+  let failed = 0
+  let afterId: string | undefined
+
+  console.log(`🗺️ Backfilling coordinates${args['dry-run'] ? ' (dry run)' : ''}...`)
+
+  while (true) {
+    const rows = await db.fetchUngeocoded(batchSize, afterId)
+    if (rows.length === 0) {
+      break
+    }
+
+    for (const row of rows) {
+      const address = normalizeAddress(row.address)
+      const result = geocodeAddress(address)
+      counts[result?.precision ?? 'notFound']++
+
+      // 住所から市区町村を取得できない物件は既存の値を残す
+      if (args['dry-run'] || !address.city) {
+        continue
+      }
+
+      try {
+        await db.updateLocation(row.id, {
+          ...address,
+          latitude: result?.latitude ?? null,
+          longitude: result?.longitude ?? null,
+          geocodePrecision: result?.precision ?? null,
+        })
+      }
+      catch (error) {
+        failed++
+        console.error(`  ❌ ${row.id}: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+
+    afterId = rows[rows.length - 1].id
+    console.log(`  📍 ${Object.values(counts).reduce((a, b) => a + b, 0)} properties processed`)
+  }
+
+  console.log('\n📊 Summary:')
+  console.log(`   Block: ${counts.block}`)
+  console.log(`   Town: ${counts.town}`)
+  console.log(`   City: ${counts.city}`)
+  console.log(`   Not found: ${counts.notFound}`)
+  console.log(`   Failed: ${failed}`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+  console.log('\n✅ Done!')
+}
+
+main().catch((error) => {
+  console.error('❌ Fatal error:', error)
+  process.exit(1)
+})
@@ -0,0 +1,133 @@
+/**
+ * 国土交通省「位置参照情報（大字・町丁目レベル）」の CSV から同梱の代表点データを更新するスクリプト
+ *
+ * 町域・丁目の代表点を CSV から作り直して src/geo/centroids.ts を書き換える（既存の町域・丁目は置き換える）。
+ * 市区町村の代表点は既存の値（役所の所在地）を残し、ないもの（政令指定都市の区など）は町域の平均で補う。
+ * 市区町村カタログのうち代表点がないものは警告する
+ *
+ * 使用方法:
+ *   pnpm --filter @cat-home/scraper build:centroids 13000-17.0b.csv 14000-17.0b.csv
+ */
+import type { LatLng } from '../geo/types'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { MUNICIPALITIES, PREFECTURES } from '../areas/catalog'
+import { CENTROIDS } from '../geo/centroids'
+import { normalizeAddress } from '../utils/address-normalizer'
+
+const OUTPUT_PATH = 'src/geo/centroids.ts'
+
+const { positionals: files } = parseArgs({ allowPositionals: true })
+
+/**
+ * CSV の1行を列に分割（位置参照情報の値に区切り文字は含まれない）
+ */
+function parseCsvLine(line: string): string[] {
+  return line.split(',').map(value => value.replace(/^"|"$/g, ''))
+}
+
+/**
+ * キーごとに代表点を平均する（丁目から町域、町域から市区町村の代表点を作る）
+ */
+function averagePoints(groups: Map<string, LatLng[]>): Record<string, LatLng> {
+  const averages: Record<string, LatLng> = {}
+  for (const [key, points] of groups) {
+    const lat = points.reduce((sum, p) => sum + p[0], 0) / points.length
+    const lng = points.reduce((sum, p) => sum + p[1], 0) / points.length
+    averages[key] = [Number(lat.toFixed(4)), Number(lng.toFixed(4))]
+  }
+  return averages
+}
+
+/**
+ * グループに代表点を追加
+ */
+function addPoint(groups: Map<string, LatLng[]>, key: string, point: LatLng): void {
+  const points = groups.get(key)
+  if (points) {
+    points.push(point)
+  }
+  else {
+    groups.set(key, [point])
+  }
+}
+
+function formatEntries(entries: Record<string, LatLng>): string {
+  return Object.entries(entries)
+    .map(([key, [lat, lng]]) => `    '${key}': [${lat.toFixed(4)}, ${lng.toFixed(4)}],`)
+    .join('\n')
+}
+
+function main() {
+  if (files.length === 0) {
+    console.error('❌ 位置参照情報の CSV ファイルを指定してください')
+    process.exit(1)
+  }
+
+  const towns: Record<string, LatLng> = {}
+  const chomes = new Map<string, LatLng[]>()
+  const cityPoints = new Map<string, LatLng[]>()
+  let added = 0
+
+  for (const file of files) {
+    // 位置参照情報は Shift_JIS で配布されている
+    const text = new TextDecoder('shift_jis').decode(readFileSync(file))
+    const [, ...lines] = text.split(/\r?\n/)
+
+    for (const line of lines.filter(Boolean)) {
+      const [, prefecture, , city, , townName, lat, lng] = parseCsvLine(line)
+      const address = normalizeAddress(`${prefecture}${city}${townName}`)
+      if (!address.town) {
+        continue
+      }
+
+      const cityKey = `${address.prefecture}${address.city}${address.ward ?? ''}`
+      const point: LatLng = [Number(lat), Number(lng)]
+      const townKey = `${cityKey}/${address.town}`
+
+      addPoint(cityPoints, cityKey, point)
+      if (address.block) {
+        towns[`${townKey}/${address.block}`] = point
+        addPoint(chomes, townKey, point)
+      }
+      else {
+        towns[townKey] = point
+      }
+      added++
+    }
+  }
+
+  // 丁目のみ収録されている町域は丁目の平均を代表点にする
+  for (const [key, point] of Object.entries(averagePoints(chomes))) {
+    towns[key] ??= point
+  }
+
+  // 役所の所在地がない市区町村（政令指定都市の区など）は町域・丁目の平均を代表点にする
+  const cities: Record<string, LatLng> = { ...CENTROIDS.cities }
+  for (const [key, point] of Object.entries(averagePoints(cityPoints))) {
+    cities[key] ??= point
+  }
+
+  const missing = MUNICIPALITIES
+    .map(m => `${PREFECTURES.find(p => m.code.startsWith(p.code))?.name}${m.name}`)
+    .filter(key => !cities[key])
+  if (missing.length > 0) {
+    console.warn(`⚠️ 代表点のない市区町村: ${missing.join(', ')}`)
+  }
+
+  const source = readFileSync(OUTPUT_PATH, 'utf-8')
+  const header = source.slice(0, source.indexOf('export const CENTROIDS'))
+  writeFileSync(OUTPUT_PATH, `${header}export const CENTROIDS: CentroidDataset = {
+  cities: {
+${formatEntries(cities)}
+  },
+  towns: {
+${formatEntries(towns)}
+  },
+}
+`)
+
+  console.log(`✅ ${added} rows imported (${Object.keys(cities).length} cities, ${Object.keys(towns).length} towns)`)
+}
+
+main()
@@ -0,0 +1,99 @@
+/**
+ * 複数のサイトに掲載された同じ部屋をまとめ、代表の物件を設定するスクリプト
+ *
+ * 掲載中の物件すべてを住所・賃料・専有面積・間取り・所在階・建物名で比較し、
+ * 代表以外の物件の canonical_id に代表の物件ID を設定する（一覧には代表の物件だけを表示する）。
+ * スクレイピングの後に実行する（定期実行では全サイトの取得後に実行される）
+ *
+ * 環境変数:
+ *   - SUPABASE_URL: Supabase プロジェクト URL
+ *   - SUPABASE_SERVICE_KEY: Supabase サービスロールキー（service_role）
+ *
+ * 使用方法:
+ *   pnpm --filter @cat-home/scraper dedupe                  # 代表の物件を更新
+ *   pnpm --filter @cat-home/scraper dedupe --dry-run        # 更新せずに件数のみ表示
+ *   pnpm --filter @cat-home/scraper dedupe --batch-size 500 # 1回に取得する件数（デフォルト: 1000）
+ */
+import type { DedupeListing } from '../dedupe/types'
+import { parseArgs } from 'node:util'
+import { clusterListings, resolveCanonicalIds } from '../dedupe/cluster'
+import { DatabaseService } from '../services/database'
+
+const { values: args } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '1000' },
+  },
+})
+
+async function main() {
+  const supabaseUrl = process.env.SUPABASE_URL
+  const supabaseKey = process.env.SUPABASE_SERVICE_KEY
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('❌ Missing environment variables: SUPABASE_URL, SUPABASE_SERVICE_KEY')
+    process.exit(1)
+  }
+
+  const db = new DatabaseService(supabaseUrl, supabaseKey)
+  const batchSize = parseInt(args['batch-size'], 10)
+
+  console.log(`🔗 Deduplicating listings${args['dry-run'] ? ' (dry run)' : ''}...`)
+
+  // 掲載中の物件をすべて取得してから比較する
+  const listings: DedupeListing[] = []
+  let afterId: string | undefined
+  while (true) {
+    const rows = await db.fetchDedupeListings(batchSize, afterId)
+    if (rows.length === 0) {
+      break
+    }
+    listings.push(...rows)
+    afterId = rows[rows.length - 1].id
+  }
+  console.log(`  📥 ${listings.length} active properties loaded`)
+
+  const clusters = clusterListings(listings)
+  const canonicalIds = resolveCanonicalIds(listings, clusters)
+
+  // 変更のある物件だけを代表の物件ID ごとにまとめて更新
+  const changes = new Map<string | null, string[]>()
+  for (const listing of listings) {
+    const canonicalId = canonicalIds.get(listing.id) ?? null
+    if (canonicalId !== listing.canonicalId) {
+      changes.set(canonicalId, (changes.get(canonicalId) ?? []).concat(listing.id))
+    }
+  }
+  const changed = [...changes.values()].reduce((sum, ids) => sum + ids.length, 0)
+
+  let failed = 0
+  let cleared = 0
+  if (!args['dry-run']) {
+    for (const [canonicalId, ids] of changes) {
+      try {
+        await db.updateCanonicalId(ids, canonicalId)
+      }
+      catch (error) {
+        failed += ids.length
+        console.error(`  ❌ ${canonicalId ?? '(canonical)'}: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+    cleared = await db.clearInactiveCanonicalIds()
+  }
+
+  console.log('\n📊 Summary:')
+  console.log(`   Clusters: ${clusters.length}`)
+  console.log(`   Duplicates: ${clusters.reduce((sum, c) => sum + c.memberIds.length - 1, 0)}`)
+  console.log(`   Changed: ${changed}`)
+  console.log(`   Cleared (inactive): ${cleared}`)
+  console.log(`   Failed: ${failed}`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+  console.log('\n✅ Done!')
+}
+
+main().catch((error) => {
+  console.error('❌ Fatal error:', error)
+  process.exit(1)
+})
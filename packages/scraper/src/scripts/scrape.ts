@@ -0,0 +1,192 @@
+/**
+ * スクレイピング実行スクリプト（全データソース共通）
+ *
+ * 環境変数:
+ *   - SUPABASE_URL: Supabase プロジェクト URL
+ *   - SUPABASE_SERVICE_KEY: Supabase サービスロールキー（service_role）
+ *
+ * 使用方法:
+ *   pnpm --filter @cat-home/scraper scrape                           # 全ソースを実行（DB保存あり）
+ *   pnpm --filter @cat-home/scraper scrape --sources suumo,homes     # 指定したソースのみ実行
+ *   pnpm --filter @cat-home/scraper scrape --area 東京都/23区        # 対象エリアを指定（デフォルト: tokyo）
+ *   pnpm --filter @cat-home/scraper scrape --area tokyo/shibuya,tokyo/meguro
+ *   pnpm --filter @cat-home/scraper scrape --dry-run                 # ドライラン（DB保存なし）
+ *   pnpm --filter @cat-home/scraper scrape --with-details            # 詳細ページも取得
+ *   pnpm --filter @cat-home/scraper scrape --max-pages 5             # 一覧の最大取得ページ数（デフォルト: 50）
+ *   pnpm --filter @cat-home/scraper scrape --concurrency 3           # ホストごとの最大同時接続数
+ *   pnpm --filter @cat-home/scraper scrape --record cassettes/run1   # レスポンスをカセットに記録
+ *   pnpm --filter @cat-home/scraper scrape --replay cassettes/run1   # 記録したレスポンスでオフライン実行
+ *   pnpm --filter @cat-home/scraper scrape --cache .cache/http       # 変更のないページの再保存をスキップ
+ */
+import type { PropertySource } from '@cat-home/shared'
+import type { AreaTarget } from '../areas/catalog'
+import type { ScraperConfig } from '../types'
+import { parseArgs } from 'node:util'
+import { formatArea, resolveAreas } from '../areas/catalog'
+import { formatScrapeError } from '../http/errors'
+import { createRecordingTransport, createReplayTransport } from '../http/transport'
+import { ScrapeRunner } from '../runner'
+import { DatabaseService } from '../services/database'
+import { getRegisteredSources } from '../sources/registry'
+
+// コマンドライン引数の解析
+const { values: args } = parseArgs({
+  options: {
+    'sources': { type: 'string' },
+    'area': { type: 'string', default: 'tokyo' },
+    'dry-run': { type: 'boolean', default: false },
+    'with-details': { type: 'boolean', default: false },
+    'max-pages': { type: 'string' },
+    'concurrency': { type: 'string' },
+    'record': { type: 'string' },
+    'replay': { type: 'string' },
+    'cache': { type: 'string' },
+  },
+})
+const isDryRun = args['dry-run']
+const withDetails = args['with-details']
+
+/**
+ * --sources の値を検証してデータソース一覧に変換
+ */
+function parseSources(value: string | undefined): PropertySource[] {
+  const registered = getRegisteredSources()
+  if (!value) {
+    return registered
+  }
+
+  const sources = value.split(',').map(s => s.trim()).filter(Boolean)
+  const unknown = sources.filter(s => !registered.includes(s as PropertySource))
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown sources: ${unknown.join(', ')}`)
+    console.error(`   利用可能なソース: ${registered.join(', ')}`)
+    process.exit(1)
+  }
+
+  return sources as PropertySource[]
+}
+
+/**
+ * --record / --replay の値から HTTP の送信方法を決める
+ *
+ * 再生時はネットワークに接続しないため、リクエスト間隔の待機も行わない
+ */
+function parseTransport(record: string | undefined, replay: string | undefined): Partial<ScraperConfig> {
+  if (record && replay) {
+    console.error('❌ --record と --replay は同時に指定できません')
+    process.exit(1)
+  }
+  if (record) {
+    console.log(`📼 レスポンスを記録します: ${record}`)
+    return { transport: createRecordingTransport(record) }
+  }
+  if (replay) {
+    console.log(`📼 記録したレスポンスを再生します: ${replay}`)
+    return { transport: createReplayTransport(replay), requestDelay: 0 }
+  }
+  return {}
+}
+
+/**
+ * --area の値を対象エリアに変換
+ */
+function parseAreas(value: string): AreaTarget[] {
+  try {
+    return resolveAreas(value)
+  }
+  catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`)
+    console.error('   例: --area 東京都, --area 東京都/渋谷区, --area tokyo/23ku, --area kanagawa/*')
+    process.exit(1)
+  }
+}
+
+async function main() {
+  const sources = parseSources(args.sources)
+  const areas = parseAreas(args.area)
+  const transportConfig = parseTransport(args.record, args.replay)
+
+  console.log(`🐱 cat-home scraper starting... (sources: ${sources.join(', ')})`)
+  console.log(`🗾 対象エリア: ${areas.map(formatArea).join(', ')}`)
+
+  if (isDryRun) {
+    console.log('📋 Dry run mode: DB への保存はスキップします')
+  }
+
+  // 環境変数チェック（ドライランの場合は不要）
+  const supabaseUrl = process.env.SUPABASE_URL
+  const supabaseKey = process.env.SUPABASE_SERVICE_KEY
+
+  if (!isDryRun && (!supabaseUrl || !supabaseKey)) {
+    console.error('❌ Missing environment variables: SUPABASE_URL, SUPABASE_SERVICE_KEY')
+    console.error('   ヒント: --dry-run オプションでDB保存なしで実行できます')
+    process.exit(1)
+  }
+
+  // ドライランでない場合のみ DB サービスを初期化
+  const db = !isDryRun && supabaseUrl && supabaseKey
+    ? new DatabaseService(supabaseUrl, supabaseKey)
+    : null
+
+  const runner = new ScrapeRunner(db)
+  const summary = await runner.run({
+    sources,
+    areas,
+    dryRun: isDryRun,
+    withDetails,
+    scraperConfig: {
+      ...transportConfig,
+      ...(args.cache && { cacheDir: args.cache }),
+      ...(args['max-pages'] && { maxPages: parseInt(args['max-pages'], 10) }),
+      ...(args.concurrency && { maxConcurrent: parseInt(args.concurrency, 10) }),
+    },
+  })
+
+  // サマリー
+  console.log('\n📊 Summary:')
+  for (const s of summary.sources) {
+    const saved = isDryRun
+      ? ''
+      : `, inserted ${s.inserted}, updated ${s.updated}, unchanged ${s.unchanged}, deactivated ${s.deactivated}`
+    console.log(`   ${s.label}: ${s.found} 件${saved}, errors ${s.errors.length}, warnings ${s.warnings.length} (${s.duration}ms)`)
+  }
+  for (const s of summary.sources) {
+    if (s.coverage && s.coverage.brokenFields.length > 0) {
+      console.log(`   ⚠️ ${s.label}: 取得率が下がった項目 ${s.coverage.brokenFields.map(f => f.field).join(', ')}`)
+    }
+  }
+  console.log(`   取得物件数: ${summary.found}`)
+  if (!isDryRun) {
+    console.log(`   Inserted: ${summary.inserted}`)
+    console.log(`   Updated: ${summary.updated}`)
+    console.log(`   Unchanged: ${summary.unchanged}`)
+    console.log(`   Deactivated: ${summary.deactivated}`)
+  }
+  console.log(`   Errors: ${summary.errors.length}`)
+  console.log(`   Warnings: ${summary.warnings.length}`)
+
+  // 種類ごとに件数と内容を表示（警告は一覧の情報のみで保存した詳細ページの失敗）
+  const groups = Object.entries(summary.errorsByCode)
+  if (groups.length > 0) {
+    console.log('\n⚠️ Failures by kind:')
+    for (const [code, errors] of groups) {
+      console.log(`   ${code}: ${errors.length}`)
+      errors.slice(0, 10).forEach(e => console.log(`     - [${e.source}] ${formatScrapeError(e)}`))
+      if (errors.length > 10) {
+        console.log(`     ...and ${errors.length - 10} more`)
+      }
+    }
+  }
+
+  if (!summary.success) {
+    console.log('\n❌ Failed')
+    process.exit(1)
+  }
+
+  console.log('\n✅ Done!')
+}
+
+main().catch((error) => {
+  console.error('❌ Fatal error:', error)
+  process.exit(1)
+})
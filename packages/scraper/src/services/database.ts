@@ -1,4 +1,6 @@
 import type { Property, PropertySource } from '@cat-home/shared'
+import type { DedupeListing } from '../dedupe/types'
+import type { ScrapeError } from '../types'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 
 /** Supabase テーブルの行型 */
@@ -10,21 +12,35 @@ interface PropertyRow {
   address: string
   prefecture: string
   city: string
+  ward: string | null
+  town: string | null
+  block: string | null
+  latitude: number | null
+  longitude: number | null
+  geocode_precision: string | null
   rent: number
   management_fee: number
   deposit: number
+  deposit_months: number | null
   key_money: number
+  key_money_months: number | null
+  guarantee_deposit: number
+  deposit_amortization: number
   floor_plan: string | null
+  room_sizes: Record<string, unknown>[]
   area: number | null
   building_type: string | null
   floor: number | null
+  building_floors: number | null
   year_built: number | null
+  direction: string | null
   pet_conditions: Record<string, unknown> | null
   features: string[]
   nearest_stations: Record<string, unknown>[]
   images: string[]
   source_url: string
   is_active: boolean
+  canonical_id: string | null
   first_seen_at: string
   last_seen_at: string
   created_at: string
@@ -32,13 +48,38 @@ interface PropertyRow {
 }
 
 /** Upsert 用の入力型 */
-type PropertyInsert = Omit<PropertyRow, 'id' | 'created_at' | 'updated_at' | 'first_seen_at'>
+type PropertyInsert = Omit<PropertyRow, 'id' | 'created_at' | 'updated_at' | 'first_seen_at' | 'canonical_id'>
 
 /** Upsert の結果 */
 export interface UpsertResult {
   inserted: number
   updated: number
-  errors: string[]
+  /** 保存できなかった物件のエラー（external_id・source なしは parse_failure、それ以外は database） */
+  errors: ScrapeError[]
+}
+
+/**
+ * 1回の Upsert・in フィルタで扱う件数
+ *
+ * in フィルタは ID を URL のクエリに並べるため、URL が長くなりすぎない件数にする
+ */
+const CHUNK_SIZE = 200
+
+/** 掲載中の物件を比較のために取得する際の1回あたりの件数（PostgREST の既定の上限以下にする） */
+const FETCH_PAGE_SIZE = 1000
+
+/** 住所から求める項目 */
+export type PropertyLocation = Pick<
+  Property,
+  'prefecture' | 'city' | 'ward' | 'town' | 'block' | 'latitude' | 'longitude' | 'geocodePrecision'
+>
+
+/** 非アクティブ化の対象範囲 */
+export interface DeactivateScope {
+  /** 都道府県 */
+  prefecture: string
+  /** 市区町村（省略時は都道府県全体） */
+  cities?: string[]
 }
 
 /**
@@ -60,7 +101,9 @@ export class DatabaseService {
   /**
    * 物件を Upsert（挿入または更新）
    *
-   * external_id が一致する場合は更新、なければ挿入
+   * source と external_id の組が一致する場合は更新、なければ挿入
+   * （external_id はサイトごとの物件番号のため、別のサイトの物件とは重なりうる）
+   * データソースごとに CHUNK_SIZE 件ずつまとめて保存する
    */
   async upsertProperties(properties: Partial<Property>[]): Promise<UpsertResult> {
     const result: UpsertResult = {
@@ -69,92 +112,368 @@ export class DatabaseService {
       errors: [],
     }
 
+    // データソースごとに external_id で重複を除く（同じ物件が複数回ある場合は後のものを保存）
+    const groups = new Map<PropertySource, Map<string, Partial<Property>>>()
     for (const property of properties) {
-      try {
-        // external_id が必須
-        if (!property.externalId) {
-          result.errors.push('Missing externalId')
-          continue
-        }
+      // external_id と source が必須
+      if (!property.externalId) {
+        result.errors.push({ code: 'parse_failure', field: 'externalId', message: 'Missing externalId', url: property.sourceUrl })
+        continue
+      }
+      if (!property.source) {
+        result.errors.push({ code: 'parse_failure', field: 'source', message: 'Missing source', url: property.sourceUrl, externalId: property.externalId })
+        continue
+      }
 
-        // 既存データをチェック
-        const { data: existing } = await this.client
-          .from('properties')
-          .select('id')
-          .eq('external_id', property.externalId)
-          .single()
-
-        const row = this.toRow(property)
-
-        if (existing) {
-          // 更新
-          const { error } = await this.client
-            .from('properties')
-            .update({
-              ...row,
-              last_seen_at: new Date().toISOString(),
-            })
-            .eq('external_id', property.externalId)
-
-          if (error) {
-            result.errors.push(`Update failed: ${error.message}`)
-          } else {
-            result.updated++
-          }
-        } else {
-          // 挿入
-          const { error } = await this.client
-            .from('properties')
-            .insert({
-              ...row,
-              first_seen_at: new Date().toISOString(),
-              last_seen_at: new Date().toISOString(),
-            })
-
-          if (error) {
-            result.errors.push(`Insert failed: ${error.message}`)
-          } else {
-            result.inserted++
-          }
-        }
-      } catch (error) {
-        result.errors.push(
-          error instanceof Error ? error.message : 'Unknown error',
-        )
+      const group = groups.get(property.source) ?? new Map<string, Partial<Property>>()
+      group.set(property.externalId, property)
+      groups.set(property.source, group)
+    }
+
+    for (const [source, group] of groups) {
+      const items = [...group.values()]
+      for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+        await this.upsertChunk(source, items.slice(i, i + CHUNK_SIZE), result)
       }
     }
 
     return result
   }
 
+  /**
+   * 前回から変更がなかった物件の last_seen_at を更新
+   *
+   * CHUNK_SIZE 件ずつ更新する
+   *
+   * @returns DB に存在しなかった external_id
+   */
+  async touchProperties(source: PropertySource, externalIds: string[]): Promise<string[]> {
+    const lastSeenAt = new Date().toISOString()
+    const touched = new Set<string>()
+
+    for (let i = 0; i < externalIds.length; i += CHUNK_SIZE) {
+      const { data, error } = await this.client
+        .from('properties')
+        .update({ is_active: true, last_seen_at: lastSeenAt })
+        .eq('source', source)
+        .in('external_id', externalIds.slice(i, i + CHUNK_SIZE))
+        .select('external_id')
+
+      if (error) {
+        throw new Error(`Touch failed: ${error.message}`)
+      }
+
+      for (const row of data ?? []) {
+        touched.add(row.external_id as string)
+      }
+    }
+
+    return externalIds.filter(id => !touched.has(id))
+  }
+
   /**
    * 掲載終了した物件を非アクティブ化
    *
-   * 指定した external_id 以外の物件を is_active = false に
+   * 指定したデータソースのうち、指定した external_id 以外の物件を is_active = false に
+   * （他のサイトに同じ external_id の物件があっても対象にしない）
+   * scope を指定した場合は、そのエリア内の物件のみを対象にする
+   * 代表の物件が掲載終了した場合は、一覧から消えないよう同じ部屋の物件の canonical_id を解除する
+   * （次回の重複判定で代表の物件を選び直す）
+   *
+   * 取得した external_id を URL のクエリに並べないよう、対象範囲の掲載中の物件を取得して比較し、
+   * 掲載終了した物件を CHUNK_SIZE 件ずつ更新する
    */
   async deactivateMissing(
     source: PropertySource,
     activeExternalIds: string[],
+    scope?: DeactivateScope,
   ): Promise<number> {
     if (activeExternalIds.length === 0) {
       return 0
     }
 
-    const { data, error } = await this.client
+    const active = new Set(activeExternalIds)
+    const missing = (await this.fetchActiveIds(source, scope))
+      .filter(row => !active.has(row.externalId))
+      .map(row => row.id)
+
+    const ids: string[] = []
+    for (let i = 0; i < missing.length; i += CHUNK_SIZE) {
+      const { data, error } = await this.client
+        .from('properties')
+        .update({ is_active: false })
+        .eq('is_active', true)
+        .in('id', missing.slice(i, i + CHUNK_SIZE))
+        .select('id')
+
+      if (error) {
+        throw new Error(`Deactivate failed: ${error.message}`)
+      }
+
+      ids.push(...(data ?? []).map(row => row.id as string))
+    }
+
+    await this.releaseDuplicates(ids)
+    return ids.length
+  }
+
+  /**
+   * 緯度経度が未設定の物件を取得
+   *
+   * id の昇順で afterId より後ろの物件を limit 件返す
+   */
+  async fetchUngeocoded(limit: number, afterId?: string): Promise<Pick<Property, 'id' | 'address'>[]> {
+    let query = this.client
       .from('properties')
-      .update({ is_active: false })
-      .eq('source', source)
+      .select('id, address')
+      .is('geocode_precision', null)
+      .order('id')
+      .limit(limit)
+
+    if (afterId) {
+      query = query.gt('id', afterId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Fetch failed: ${error.message}`)
+    }
+
+    return (data ?? []).map(row => ({ id: row.id as string, address: row.address as string }))
+  }
+
+  /**
+   * 住所から求めた項目を更新
+   *
+   * 都道府県が空文字の場合（住所に記載がなく推定もできない場合）は既存の値を残す
+   */
+  async updateLocation(id: string, location: PropertyLocation): Promise<void> {
+    const { error } = await this.client
+      .from('properties')
+      .update({
+        ...(location.prefecture && { prefecture: location.prefecture }),
+        city: location.city,
+        ward: location.ward,
+        town: location.town,
+        block: location.block,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        geocode_precision: location.geocodePrecision,
+      })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Update failed: ${error.message}`)
+    }
+  }
+
+  /**
+   * 重複の判定に使う掲載中の物件を取得
+   *
+   * id の昇順で afterId より後ろの物件を limit 件返す
+   */
+  async fetchDedupeListings(limit: number, afterId?: string): Promise<DedupeListing[]> {
+    let query = this.client
+      .from('properties')
+      .select('id, external_id, source, name, prefecture, city, ward, town, block, rent, area, floor_plan, floor, first_seen_at, canonical_id')
       .eq('is_active', true)
-      .not('external_id', 'in', `(${activeExternalIds.join(',')})`)
+      .order('id')
+      .limit(limit)
+
+    if (afterId) {
+      query = query.gt('id', afterId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Fetch failed: ${error.message}`)
+    }
+
+    return (data ?? []).map(row => ({
+      id: row.id as string,
+      externalId: row.external_id as string,
+      source: row.source as PropertySource,
+      name: row.name as string,
+      prefecture: row.prefecture as string,
+      city: row.city as string,
+      ward: row.ward as string | null,
+      town: row.town as string | null,
+      block: row.block as string | null,
+      rent: row.rent as number,
+      area: row.area === null ? null : Number(row.area),
+      floorPlan: row.floor_plan as string | null,
+      roomFloor: row.floor as number | null,
+      firstSeenAt: row.first_seen_at as string,
+      canonicalId: row.canonical_id as string | null,
+    }))
+  }
+
+  /**
+   * 物件の代表の物件ID を更新
+   *
+   * canonicalId に null を指定すると代表の物件（重複なし）として扱う。CHUNK_SIZE 件ずつ更新する
+   */
+  async updateCanonicalId(ids: string[], canonicalId: string | null): Promise<void> {
+    for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+      const { error } = await this.client
+        .from('properties')
+        .update({ canonical_id: canonicalId })
+        .in('id', ids.slice(i, i + CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`Update failed: ${error.message}`)
+      }
+    }
+  }
+
+  /**
+   * 掲載終了した物件の代表の物件ID を解除
+   *
+   * @returns 解除した件数
+   */
+  async clearInactiveCanonicalIds(): Promise<number> {
+    const { data, error } = await this.client
+      .from('properties')
+      .update({ canonical_id: null })
+      .eq('is_active', false)
+      .not('canonical_id', 'is', null)
       .select('id')
 
     if (error) {
-      throw new Error(`Deactivate failed: ${error.message}`)
+      throw new Error(`Update failed: ${error.message}`)
     }
 
     return data?.length ?? 0
   }
 
+  /**
+   * 対象範囲の掲載中の物件の ID と external_id を取得
+   *
+   * 1回に取得できる件数に上限があるため、id の昇順に FETCH_PAGE_SIZE 件ずつ取得する
+   */
+  private async fetchActiveIds(
+    source: PropertySource,
+    scope?: DeactivateScope,
+  ): Promise<{ id: string; externalId: string }[]> {
+    const rows: { id: string; externalId: string }[] = []
+    let afterId: string | undefined
+
+    while (true) {
+      let query = this.client
+        .from('properties')
+        .select('id, external_id')
+        .eq('source', source)
+        .eq('is_active', true)
+
+      if (scope) {
+        query = query.eq('prefecture', scope.prefecture)
+        if (scope.cities) {
+          query = query.in('city', scope.cities)
+        }
+      }
+      if (afterId) {
+        query = query.gt('id', afterId)
+      }
+
+      const { data, error } = await query.order('id').limit(FETCH_PAGE_SIZE)
+
+      if (error) {
+        throw new Error(`Fetch failed: ${error.message}`)
+      }
+
+      const page = (data ?? []).map(row => ({ id: row.id as string, externalId: row.external_id as string }))
+      rows.push(...page)
+      if (page.length < FETCH_PAGE_SIZE) {
+        return rows
+      }
+      afterId = page[page.length - 1].id
+    }
+  }
+
+  /**
+   * 指定した物件を代表とする物件の canonical_id を解除
+   */
+  private async releaseDuplicates(canonicalIds: string[]): Promise<void> {
+    for (let i = 0; i < canonicalIds.length; i += CHUNK_SIZE) {
+      const { error } = await this.client
+        .from('properties')
+        .update({ canonical_id: null })
+        .in('canonical_id', canonicalIds.slice(i, i + CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`Update failed: ${error.message}`)
+      }
+    }
+  }
+
+  /**
+   * 同じデータソースの物件をまとめて Upsert し、件数とエラーを result に加える
+   *
+   * まとめての保存に失敗した場合は、どの物件が原因かわかるよう1件ずつ保存し直す
+   */
+  private async upsertChunk(
+    source: PropertySource,
+    chunk: Partial<Property>[],
+    result: UpsertResult,
+  ): Promise<void> {
+    try {
+      const { inserted, updated } = await this.upsertRows(source, chunk)
+      result.inserted += inserted
+      result.updated += updated
+    }
+    catch (error) {
+      if (chunk.length > 1) {
+        for (const property of chunk) {
+          await this.upsertChunk(source, [property], result)
+        }
+        return
+      }
+      result.errors.push({
+        code: 'database',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        externalId: chunk[0].externalId,
+      })
+    }
+  }
+
+  /**
+   * 物件を (source, external_id) を競合の対象として Upsert
+   *
+   * 保存前に既存の物件を調べて挿入・更新の件数を数える。first_seen_at は送信しないため、
+   * 挿入時は DB の既定値（現在時刻）になり、更新時は既存の値が残る
+   */
+  private async upsertRows(
+    source: PropertySource,
+    chunk: Partial<Property>[],
+  ): Promise<{ inserted: number; updated: number }> {
+    const { data: existing, error: selectError } = await this.client
+      .from('properties')
+      .select('external_id')
+      .eq('source', source)
+      .in('external_id', chunk.map(p => p.externalId!))
+
+    if (selectError) {
+      throw new Error(`Select failed: ${selectError.message}`)
+    }
+
+    const lastSeenAt = new Date().toISOString()
+    const { error } = await this.client
+      .from('properties')
+      .upsert(
+        chunk.map(p => ({ ...this.toRow(p), last_seen_at: lastSeenAt })),
+        { onConflict: 'source,external_id' },
+      )
+
+    if (error) {
+      throw new Error(`Upsert failed: ${error.message}`)
+    }
+
+    const updated = existing?.length ?? 0
+    return { inserted: chunk.length - updated, updated }
+  }
+
   /**
    * Partial<Property> を PropertyRow に変換
    */
@@ -166,15 +485,28 @@ export class DatabaseService {
       address: property.address,
       prefecture: property.prefecture,
       city: property.city,
+      ward: property.ward ?? null,
+      town: property.town ?? null,
+      block: property.block ?? null,
+      latitude: property.latitude ?? null,
+      longitude: property.longitude ?? null,
+      geocode_precision: property.geocodePrecision ?? null,
       rent: property.rent,
       management_fee: property.managementFee ?? 0,
       deposit: property.deposit ?? 0,
+      deposit_months: property.depositMonths ?? null,
       key_money: property.keyMoney ?? 0,
+      key_money_months: property.keyMoneyMonths ?? null,
+      guarantee_deposit: property.guaranteeDeposit ?? 0,
+      deposit_amortization: property.depositAmortization ?? 0,
       floor_plan: property.floorPlan ?? null,
+      room_sizes: (property.roomSizes ?? []) as unknown as Record<string, unknown>[],
       area: property.area ?? null,
       building_type: property.buildingType ?? null,
-      floor: property.floors ?? null,
+      floor: property.roomFloor ?? null,
+      building_floors: property.floors ?? null,
       year_built: property.yearBuilt ?? null,
+      direction: property.direction ?? null,
       pet_conditions: property.petConditions as Record<string, unknown> | null ?? null,
       features: property.features ?? [],
       nearest_stations: (property.nearestStations ?? []) as unknown as Record<string, unknown>[],
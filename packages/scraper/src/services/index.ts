@@ -1,2 +1,2 @@
 export { DatabaseService } from './database'
-export type { UpsertResult } from './database'
+export type { DeactivateScope, PropertyLocation, UpsertResult } from './database'
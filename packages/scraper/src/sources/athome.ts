@@ -0,0 +1,25 @@
+import type { ScraperConfig } from '../types'
+import { ConfigScraper } from './config-scraper'
+import { loadSourceConfig } from './config-schema'
+
+/** セレクタ・表の見出しの設定（サイトの変更時は configs/athome.json を修正する） */
+const ATHOME_CONFIG = loadSourceConfig(new URL('./configs/athome.json', import.meta.url))
+
+/**
+ * アットホーム 物件情報スクレイパー
+ *
+ * アットホームはペット専用の欄がなく「条件等」に「ペット相談（猫1匹まで）、楽器不可」のように
+ * 他の入居条件と並べて記載されるため、設定の filter でペットに関する記載だけを取り出す
+ *
+ * @example
+ * ```ts
+ * const scraper = new AthomeScraper()
+ * const result = await scraper.scrapeList('https://www.athome.co.jp/chintai/theme/pet/tokyo/list/')
+ * console.log(result.properties)
+ * ```
+ */
+export class AthomeScraper extends ConfigScraper {
+  constructor(config: Partial<ScraperConfig> = {}) {
+    super(ATHOME_CONFIG, config)
+  }
+}
@@ -1,56 +1,408 @@
-import type { PropertySource } from '@cat-home/shared'
-import type { Scraper, ScraperConfig, ScrapeResult } from '../types'
+import type { Property, PropertySource } from '@cat-home/shared'
+import type { CacheEntry } from '../http/cache'
+import type { FetchTransport } from '../http/transport'
+import type { FieldSelectors, Scraper, ScraperConfig, ScrapeError, ScrapeResult } from '../types'
+import * as cheerio from 'cheerio'
+import { conditionalHeaders, hashContent, HttpCache } from '../http/cache'
+import { detectBlockedPage } from '../http/blocked'
+import { decodeHtml } from '../http/charset'
+import {
+  BlockedError,
+  CassetteMissError,
+  CircuitOpenError,
+  HttpStatusError,
+  ParseError,
+  RobotsDisallowedError,
+  toScrapeError,
+} from '../http/errors'
+import { CircuitBreaker, createHttpStatusError, getBackoffDelay, isRetryableStatus } from '../http/retry'
+import { RobotsTxtCache } from '../http/robots'
+import { RequestScheduler } from '../http/scheduler'
+import { networkTransport } from '../http/transport'
 import { DEFAULT_SCRAPER_CONFIG } from '../types'
 
+/** 一覧ページのページ送りを検出するためのセレクタ */
+export interface PaginationSelectors {
+  /** 「次へ」リンク（href を次ページURLとして使用） */
+  next: string
+  /** ページ番号リンク（テキストの最大値を総ページ数として使用） */
+  pages?: string
+  /** 総件数を含む要素（例: 「1,234件」） */
+  totalCount?: string
+  /** 1ページあたりの件数（総件数から総ページ数を算出する場合に使用） */
+  perPage?: number
+  /** ページ番号のクエリパラメータ名 */
+  pageParam: string
+}
+
+/** 一覧ページのページ送り情報 */
+export interface PaginationInfo {
+  /** 次ページのURL（最終ページの場合は null） */
+  nextPageUrl: string | null
+  /** 総ページ数（判別できない場合は null） */
+  totalPages: number | null
+}
+
+/** 取得したページ */
+export interface FetchedPage {
+  html: string
+  /** 前回取得時（HTTP キャッシュ）から変更がないか */
+  notModified: boolean
+}
+
 /** スクレイパーの基底クラス */
 export abstract class BaseScraper implements Scraper {
   abstract readonly source: PropertySource
 
   protected config: ScraperConfig
 
+  /** 一覧ページのページ送り検出用セレクタ */
+  protected abstract readonly pagination: PaginationSelectors
+
+  /** 項目ごとのセレクタ（取得率が下がった際にレポートに表示する） */
+  readonly fieldSelectors: FieldSelectors = {}
+
+  /** ホストごとの同時実行数・リクエスト間隔の制御 */
+  private scheduler: RequestScheduler
+
+  /** ホストごとの robots.txt */
+  private robots: RobotsTxtCache
+
+  /** 連続失敗時にリクエストを停止するサーキットブレーカー */
+  private circuitBreaker: CircuitBreaker
+
+  /** HTTP キャッシュ（cacheDir 指定時のみ） */
+  private cache: HttpCache | null
+
   constructor(config: Partial<ScraperConfig> = {}) {
     this.config = { ...DEFAULT_SCRAPER_CONFIG, ...config }
+    this.scheduler = new RequestScheduler({
+      maxConcurrent: this.config.maxConcurrent,
+      interval: this.config.requestDelay,
+    })
+    this.robots = new RobotsTxtCache(this.config.userAgent, url =>
+      this.scheduler.schedule(url, () => this.transport(url, { headers: { 'User-Agent': this.config.userAgent } })),
+    )
+    this.circuitBreaker = new CircuitBreaker(this.config.circuitBreakerThreshold)
+    this.cache = this.config.cacheDir ? new HttpCache(this.config.cacheDir) : null
+  }
+
+  /**
+   * 一覧ページのHTMLから物件情報を抽出
+   *
+   * url は相対URLで書かれた詳細ページのリンクを解決する場合に使用する
+   */
+  protected abstract parseListPage(html: string, url: string): Partial<Property>[]
+
+  /**
+   * 物件詳細ページのHTMLから物件情報を抽出
+   */
+  protected abstract parseDetailPage(html: string, url: string): Partial<Property>
+
+  /**
+   * 物件詳細をスクレイピング
+   *
+   * 前回取得時から変更がない場合は解析を省略し、notModified を返す。
+   * 失敗した場合は error に種類（ScrapeErrorCode）を付けて返す
+   */
+  async scrapeDetail(url: string): Promise<ScrapeResult> {
+    const startTime = Date.now()
+
+    try {
+      const { html, notModified } = await this.fetchPage(url)
+      if (notModified) {
+        return { success: true, properties: [], notModified, source: this.source, duration: Date.now() - startTime }
+      }
+
+      const property = this.parseDetailPage(html, url)
+      // external_id がないと保存できない
+      if (!property.externalId) {
+        throw new ParseError('externalId', `Missing externalId in ${url}`)
+      }
+
+      return {
+        success: true,
+        properties: [property],
+        notModified,
+        source: this.source,
+        duration: Date.now() - startTime,
+      }
+    }
+    catch (error) {
+      return {
+        success: false,
+        properties: [],
+        error: toScrapeError(error, url),
+        source: this.source,
+        duration: Date.now() - startTime,
+      }
+    }
+  }
+
+  /**
+   * 物件一覧をスクレイピング（全ページを取得）
+   *
+   * 次ページリンクを辿り、config.maxPages まで取得した結果を1つにまとめる。
+   * 途中のページで失敗しても、取得できたページの物件は結果に含め、失敗したページは pageErrors に記録する
+   */
+  async scrapeList(url: string): Promise<ScrapeResult> {
+    const startTime = Date.now()
+    const properties: Partial<Property>[] = []
+    const seenExternalIds = new Set<string>()
+    const pageErrors: ScrapeError[] = []
+    const notModifiedExternalIds: string[] = []
+    const visitedUrls = new Set<string>()
+    let pages = 0
+    let totalPages: number | null = null
+    let pageUrl: string | null = url
+
+    for (let page = 1; pageUrl && page <= this.config.maxPages; page++) {
+      const currentUrl: string = pageUrl
+      visitedUrls.add(currentUrl)
+      pageUrl = null
+
+      try {
+        const { html, notModified } = await this.fetchPage(currentUrl)
+
+        // 掲載順が変わると同じ物件が複数ページに現れるため重複を除外
+        for (const property of this.parseListPage(html, currentUrl)) {
+          if (property.externalId && seenExternalIds.has(property.externalId)) {
+            continue
+          }
+          if (property.externalId) {
+            seenExternalIds.add(property.externalId)
+            if (notModified) {
+              notModifiedExternalIds.push(property.externalId)
+            }
+          }
+          properties.push(property)
+        }
+        pages++
+
+        const pagination = this.parsePagination(html, currentUrl)
+        totalPages = pagination.totalPages ?? totalPages
+        if (pagination.nextPageUrl && !visitedUrls.has(pagination.nextPageUrl)) {
+          pageUrl = pagination.nextPageUrl
+        }
+      }
+      catch (error) {
+        pageErrors.push(toScrapeError(error, currentUrl))
+      }
+
+      // 次ページリンクが取れなくても総ページ数が分かっていればページ番号から続行
+      if (!pageUrl && totalPages !== null && page < totalPages) {
+        pageUrl = this.buildPageUrl(url, page + 1)
+      }
+    }
+
+    const duration = Date.now() - startTime
+
+    if (pages === 0) {
+      return {
+        success: false,
+        properties: [],
+        error: pageErrors[0] ?? toScrapeError(null, url),
+        pageErrors,
+        pages,
+        source: this.source,
+        duration,
+      }
+    }
+
+    return {
+      success: true,
+      properties,
+      pageErrors,
+      notModifiedExternalIds,
+      pages,
+      source: this.source,
+      duration,
+    }
+  }
+
+  /**
+   * 一覧ページのHTMLからページ送り情報を抽出
+   */
+  protected parsePagination(html: string, currentUrl: string): PaginationInfo {
+    const $ = cheerio.load(html)
+    const { next, pages, totalCount, perPage } = this.pagination
+
+    const href = $(next).first().attr('href') || $('link[rel="next"]').attr('href')
+    const nextPageUrl = href && !href.startsWith('javascript:')
+      ? new URL(href, currentUrl).toString()
+      : null
+
+    let totalPages: number | null = null
+    if (pages) {
+      $(pages).each((_, el) => {
+        const page = parseInt($(el).text().trim(), 10)
+        if (!isNaN(page) && page > (totalPages ?? 0)) {
+          totalPages = page
+        }
+      })
+    }
+    if (totalPages === null && totalCount && perPage) {
+      const count = parseInt($(totalCount).first().text().replace(/[^0-9]/g, ''), 10)
+      if (!isNaN(count)) {
+        totalPages = Math.ceil(count / perPage)
+      }
+    }
+
+    return { nextPageUrl, totalPages }
+  }
+
+  /**
+   * 検索URLにページ番号を付与
+   */
+  protected buildPageUrl(url: string, page: number): string {
+    const pageUrl = new URL(url)
+    pageUrl.searchParams.set(this.pagination.pageParam, String(page))
+    return pageUrl.toString()
   }
 
-  abstract scrapeList(url: string): Promise<ScrapeResult>
-  abstract scrapeDetail(url: string): Promise<ScrapeResult>
+  /**
+   * HTTPリクエストを実行（リトライ付き）し、前回取得時から変更があったかを判定
+   *
+   * リクエストはホストごとに maxConcurrent 件まで、requestDelay の間隔で実行される。
+   * レスポンスは文字コード（Shift_JIS / EUC-JP など）を判定して文字列に変換する。
+   * 5xx・429・ネットワークエラーは指数バックオフ（429 / 503 は Retry-After）でリトライし、
+   * それ以外の 4xx はリトライせずに投げる（404 / 410 は ListingGoneError）。
+   * アクセス制限・CAPTCHA ページの場合はリトライせずに BlockedError を投げる。
+   * 再生モードでカセットに記録されていない場合はリトライせず、連続失敗にも数えずに CassetteMissError を投げる。
+   * 連続失敗が circuitBreakerThreshold に達すると以降は CircuitOpenError を投げる。
+   * cacheDir 指定時は条件付きリクエストを送り、304 または本文のハッシュが同じ場合に notModified とする
+   */
+  protected async fetchPage(url: string): Promise<FetchedPage> {
+    if (this.config.respectRobotsTxt) {
+      await this.checkRobotsTxt(url)
+    }
 
-  /** HTTPリクエストを実行（リトライ付き） */
-  protected async fetchWithRetry(url: string): Promise<string> {
+    const cached = this.cache ? await this.cache.get(url) : null
     let lastError: Error | null = null
 
     for (let attempt = 0; attempt < this.config.maxRetries; attempt++) {
+      if (this.circuitBreaker.isOpen) {
+        throw new CircuitOpenError(this.source, this.circuitBreaker.consecutiveFailures)
+      }
+
       try {
-        const response = await fetch(url, {
-          headers: {
-            'User-Agent': this.config.userAgent,
-          },
-        })
+        const page = await this.scheduler.schedule(url, async () => {
+          const response = await this.transport(url, {
+            headers: {
+              'User-Agent': this.config.userAgent,
+              ...conditionalHeaders(cached),
+            },
+          })
 
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-        }
+          if (response.status === 304 && cached) {
+            return { html: cached.body, notModified: true, response }
+          }
+          if (!response.ok) {
+            throw createHttpStatusError(url, response)
+          }
 
-        return await response.text()
+          const html = decodeHtml(new Uint8Array(await response.arrayBuffer()), response.headers.get('Content-Type'))
+          const blockedReason = detectBlockedPage(html)
+          if (blockedReason) {
+            throw new BlockedError(url, blockedReason)
+          }
+          return { html, notModified: false, response }
+        })
+        this.circuitBreaker.recordSuccess()
+        return await this.updateCache(url, cached, page)
       }
       catch (error) {
+        // 恒久的な 4xx はサイト自体は応答しているため連続失敗に数えない
+        if (error instanceof HttpStatusError && !isRetryableStatus(error.status)) {
+          throw error
+        }
+        // 再生モードでカセットにない URL はリトライしても記録されていない
+        if (error instanceof CassetteMissError) {
+          throw error
+        }
+
         lastError = error as Error
-        if (attempt < this.config.maxRetries - 1) {
-          await this.delay(this.config.retryDelay)
+        this.circuitBreaker.recordFailure()
+        // アクセス制限はリトライしても解除されない
+        if (error instanceof BlockedError) {
+          throw error
+        }
+        if (attempt >= this.config.maxRetries - 1 || this.circuitBreaker.isOpen) {
+          break
+        }
+
+        const retryAfter = error instanceof HttpStatusError ? error.retryAfter : null
+        if (retryAfter !== null && retryAfter > this.config.maxRetryDelay) {
+          break
         }
+        await this.delay(retryAfter ?? getBackoffDelay(attempt, this.config.retryDelay, this.config.maxRetryDelay))
       }
     }
 
     throw lastError ?? new Error('Unknown error')
   }
 
+  /**
+   * HTTP キャッシュから URL を削除し、次回は無条件で取得する
+   *
+   * キャッシュ上は変更なしでも DB に保存されていない物件を取り直す場合に使用
+   */
+  async invalidateCache(url: string): Promise<void> {
+    await this.cache?.delete(url)
+  }
+
+  /**
+   * 取得結果をキャッシュに保存し、本文のハッシュで変更の有無を判定
+   */
+  private async updateCache(
+    url: string,
+    cached: CacheEntry | null,
+    page: FetchedPage & { response: Response },
+  ): Promise<FetchedPage> {
+    const { html, response } = page
+    if (!this.cache) {
+      return { html, notModified: false }
+    }
+
+    const contentHash = hashContent(html)
+    await this.cache.set({
+      url,
+      etag: response.headers.get('ETag') ?? cached?.etag ?? null,
+      lastModified: response.headers.get('Last-Modified') ?? cached?.lastModified ?? null,
+      contentHash,
+      body: html,
+      storedAt: new Date().toISOString(),
+    })
+
+    return { html, notModified: page.notModified || cached?.contentHash === contentHash }
+  }
+
+  /** HTTP リクエストの送信方法 */
+  private get transport(): FetchTransport {
+    return this.config.transport ?? networkTransport
+  }
+
+  /**
+   * robots.txt を確認する
+   *
+   * 禁止されている URL の場合は RobotsDisallowedError を投げる。
+   * Crawl-delay が現在のリクエスト間隔より長い場合はそのホストの間隔を引き上げる
+   */
+  private async checkRobotsTxt(url: string): Promise<void> {
+    const rules = await this.robots.getRules(url)
+
+    if (rules.crawlDelay !== null && rules.crawlDelay * 1000 > this.scheduler.getRequestInterval(url)) {
+      console.log(`🤖 robots.txt の Crawl-delay に従いリクエスト間隔を ${rules.crawlDelay} 秒にします`)
+      this.scheduler.applyCrawlDelay(url, rules.crawlDelay * 1000)
+    }
+
+    if (!await this.robots.isAllowed(url)) {
+      throw new RobotsDisallowedError(url)
+    }
+  }
+
   /** 指定時間待機 */
   protected delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
-
-  /** リクエスト間隔を確保 */
-  protected async respectRateLimit(): Promise<void> {
-    await this.delay(this.config.requestDelay)
-  }
 }
@@ -1,7 +1,13 @@
-import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource } from '@cat-home/shared'
-import type { ScraperConfig, ScrapeResult } from '../types'
+import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource, RoomSize } from '@cat-home/shared'
+import type { FieldSelectors, ScraperConfig } from '../types'
+import type { PaginationSelectors } from './base'
 import * as cheerio from 'cheerio'
 import { BaseScraper } from './base'
+import { parseNearestStations } from '../stations/access-parser'
+import { normalizeAddress } from '../utils/address-normalizer'
+import { parseBuildingFloors, parseRoomFloor } from '../utils/floor-parser'
+import { normalizeFloorPlan, parseRoomSizes } from '../utils/floor-plan-normalizer'
+import { parseMoneyTerm, parseYen } from '../utils/money-parser'
 import { parsePetConditions } from '../utils/pet-condition-parser'
 
 interface ScrapedProperty {
@@ -25,12 +31,18 @@ export interface ScrapedDetailProperty {
   rent: number
   managementFee: number
   deposit: number
+  depositMonths: number | null
   keyMoney: number
+  keyMoneyMonths: number | null
+  guaranteeDeposit: number
+  depositAmortization: number
   floorPlan: string
+  roomSizes: RoomSize[]
   area: number
   yearBuilt: number | null
   buildingType: BuildingType | null
   floors: number | null
+  roomFloor: number | null
   direction: Direction | null
   nearestStations: NearestStation[]
   features: string[]
@@ -51,96 +63,80 @@ export interface ScrapedDetailProperty {
 export class ChintaiScraper extends BaseScraper {
   readonly source = 'chintai' as const
 
+  /** ページ送り: 「次へ」リンクとページ番号リンク */
+  protected readonly pagination: PaginationSelectors = {
+    next: '.pager .next a',
+    pages: '.pager li a',
+    pageParam: 'page',
+  }
+
+  /** 取得率レポート用のセレクタ（parseListHtml / parseDetailHtml の変更時に合わせて更新する） */
+  readonly fieldSelectors: FieldSelectors = {
+    name: { list: '.cassette_ttl.ttl_main h2', detail: '.ttl_main' },
+    address: { list: '.bukken_information table tr:first-child td', detail: 'table tr th:contains("所在地") + td' },
+    prefecture: { list: '.bukken_information table tr:first-child td', detail: 'table tr th:contains("所在地") + td' },
+    rent: { list: '.cassette_detail .price .num', detail: '.price_num' },
+    area: { list: '.cassette_detail input.senMenseki', detail: 'table tr th:contains("専有面積") + td' },
+    floorPlan: { list: '.cassette_detail input.madori', detail: 'table tr th:contains("間取り") + td' },
+    nearestStations: { detail: '.station_list li' },
+    petConditions: { detail: '.pet_list li' },
+  }
+
   constructor(config: Partial<ScraperConfig> = {}) {
     super(config)
   }
 
   /**
-   * 物件一覧ページをスクレイピング
+   * 一覧ページのHTMLから物件情報を抽出
    */
-  async scrapeList(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const properties = this.parseListHtml(html)
-
-      return {
-        success: true,
-        properties: properties.map(p => this.toPartialProperty(p)),
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
+  protected parseListPage(html: string): Partial<Property>[] {
+    return this.parseListHtml(html).map(p => this.toPartialProperty(p))
   }
 
   /**
-   * 物件詳細ページをスクレイピング
+   * 物件詳細ページのHTMLから物件情報を抽出
    */
-  async scrapeDetail(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const detail = this.parseDetailHtml(html)
-
-      // 住所から都道府県・市区町村を抽出
-      const { prefecture, city } = this.parseAddress(detail.address)
-
-      // external_id を URL から抽出（例: /detail/123456789/）
-      const externalIdMatch = url.match(/\/detail\/([^/]+)\//)
-      const externalId = externalIdMatch ? externalIdMatch[1] : ''
-
-      const property: Partial<Property> = {
-        externalId,
-        source: this.source,
-        name: detail.name,
-        address: detail.address,
-        prefecture,
-        city,
-        rent: detail.rent,
-        managementFee: detail.managementFee,
-        deposit: detail.deposit,
-        keyMoney: detail.keyMoney,
-        floorPlan: detail.floorPlan,
-        area: detail.area,
-        buildingType: detail.buildingType,
-        floors: detail.floors,
-        yearBuilt: detail.yearBuilt,
-        petConditions: detail.petConditions,
-        features: detail.features,
-        nearestStations: detail.nearestStations,
-        images: detail.images,
-        direction: detail.direction,
-        sourceUrl: url,
-      }
+  protected parseDetailPage(html: string, url: string): Partial<Property> {
+    const detail = this.parseDetailHtml(html)
 
-      return {
-        success: true,
-        properties: [property],
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(detail.address)
+
+    // external_id を URL から抽出（例: /detail/123456789/）
+    const externalIdMatch = url.match(/\/detail\/([^/]+)\//)
+    const externalId = externalIdMatch ? externalIdMatch[1] : ''
+
+    return {
+      externalId,
+      source: this.source,
+      name: detail.name,
+      address: detail.address,
+      prefecture,
+      city,
+      ward,
+      town,
+      block,
+      rent: detail.rent,
+      managementFee: detail.managementFee,
+      deposit: detail.deposit,
+      depositMonths: detail.depositMonths,
+      keyMoney: detail.keyMoney,
+      keyMoneyMonths: detail.keyMoneyMonths,
+      guaranteeDeposit: detail.guaranteeDeposit,
+      depositAmortization: detail.depositAmortization,
+      floorPlan: detail.floorPlan,
+      roomSizes: detail.roomSizes,
+      area: detail.area,
+      buildingType: detail.buildingType,
+      floors: detail.floors,
+      roomFloor: detail.roomFloor,
+      yearBuilt: detail.yearBuilt,
+      petConditions: detail.petConditions,
+      features: detail.features,
+      nearestStations: detail.nearestStations,
+      images: detail.images,
+      direction: detail.direction,
+      sourceUrl: url,
     }
   }
 
@@ -226,7 +222,7 @@ export class ChintaiScraper extends BaseScraper {
           }).first().text()
 
           if (layoutCellText) {
-            const floorPlanMatch = layoutCellText.match(/^(\d+[SLDK]+R?|ワンルーム)/)
+            const floorPlanMatch = layoutCellText.match(/^(\d+[SLDK]+R?(?:\+(?:S|納戸))?|ワンルーム)/)
             if (floorPlanMatch && !floorPlan) {
               floorPlan = floorPlanMatch[1]
             }
@@ -244,7 +240,7 @@ export class ChintaiScraper extends BaseScraper {
           managementFee,
           deposit,
           keyMoney,
-          floorPlan,
+          floorPlan: normalizeFloorPlan(floorPlan),
           area,
           sourceUrl,
           externalId,
@@ -294,11 +290,7 @@ export class ChintaiScraper extends BaseScraper {
    * 例: "152,000円" → 152000, "--" → 0
    */
   parseDeposit(text: string): number {
-    if (text === '-' || text === '--' || !text) {
-      return 0
-    }
-    const value = parseInt(text.replace(/[^0-9]/g, ''), 10)
-    return isNaN(value) ? 0 : value
+    return parseYen(text)
   }
 
   /**
@@ -339,14 +331,19 @@ export class ChintaiScraper extends BaseScraper {
     const managementFee = this.parseManagementFee(managementFeeText)
 
     // 敷金・礼金（「1ヶ月」形式の場合は賃料から計算）
-    const depositText = this.extractTableValue($, '敷金')
-    const deposit = this.parseDepositWithRent(depositText, rent)
+    const depositTerm = parseMoneyTerm(this.extractTableValue($, '敷金'), { rent })
+    const keyMoneyTerm = parseMoneyTerm(this.extractTableValue($, '礼金'), { rent })
 
-    const keyMoneyText = this.extractTableValue($, '礼金')
-    const keyMoney = this.parseDepositWithRent(keyMoneyText, rent)
+    // 保証金・敷引・償却（割合表記は保証金、なければ敷金に対する割合）
+    const guaranteeDeposit = parseMoneyTerm(this.extractTableValue($, '保証金'), { rent }).amount
+    const depositAmortization = parseMoneyTerm(this.extractTableValue($, '敷引・償却'), {
+      rent,
+      base: guaranteeDeposit || depositTerm.amount,
+    }).amount
 
     // 間取り・面積
-    const floorPlan = this.extractTableValue($, '間取り')
+    const floorPlan = normalizeFloorPlan(this.extractTableValue($, '間取り'))
+    const roomSizes = parseRoomSizes(this.extractTableValue($, '間取り詳細'))
     const areaText = this.extractTableValue($, '専有面積')
     const area = this.parseArea(areaText)
 
@@ -358,16 +355,16 @@ export class ChintaiScraper extends BaseScraper {
     const buildingTypeText = this.extractTableValue($, '建物種別')
     const buildingType = this.parseBuildingType(buildingTypeText)
 
-    // 階数
-    const structureText = this.extractTableValue($, '構造')
-    const floors = this.parseFloors(structureText)
+    // 建物の階数・所在階
+    const floors = parseBuildingFloors(this.extractTableValue($, '構造'))
+    const roomFloor = parseRoomFloor(this.extractTableValue($, '階'))
 
     // 向き
     const directionText = this.extractTableValue($, '向き')
     const direction = this.parseDirection(directionText)
 
     // 最寄り駅
-    const nearestStations = this.parseNearestStations($)
+    const nearestStations = parseNearestStations($('.station_list li').map((_, el) => $(el).text()).get())
 
     // 設備情報
     const features: string[] = []
@@ -387,21 +384,30 @@ export class ChintaiScraper extends BaseScraper {
       }
     })
 
-    // ペット条件
+    // ペット条件（敷金欄の「ペット飼育時+1ヶ月」は追加敷金として補う）
     const petConditions = this.parsePetConditionsFromHtml($, rent)
+    if (petConditions && petConditions.additionalDeposit === null) {
+      petConditions.additionalDeposit = depositTerm.petSurcharge
+    }
 
     return {
       name,
       address,
       rent,
       managementFee,
-      deposit,
-      keyMoney,
+      deposit: depositTerm.amount,
+      depositMonths: depositTerm.months,
+      keyMoney: keyMoneyTerm.amount,
+      keyMoneyMonths: keyMoneyTerm.months,
+      guaranteeDeposit,
+      depositAmortization,
       floorPlan,
+      roomSizes,
       area,
       yearBuilt,
       buildingType,
       floors,
+      roomFloor,
       direction,
       nearestStations,
       features,
@@ -426,24 +432,6 @@ export class ChintaiScraper extends BaseScraper {
     return value
   }
 
-  /**
-   * 敷金・礼金テキストを円に変換（「Nヶ月」形式対応）
-   */
-  private parseDepositWithRent(text: string, rent: number): number {
-    if (!text || text === '-' || text === '--') {
-      return 0
-    }
-
-    // 「1ヶ月」「2ヶ月」などの形式
-    const monthMatch = text.match(/(\d+)[ヶか]月/)
-    if (monthMatch) {
-      return rent * parseInt(monthMatch[1], 10)
-    }
-
-    // 金額が直接書かれている場合
-    return this.parseDeposit(text)
-  }
-
   /**
    * 築年月テキストから築年を抽出
    */
@@ -464,15 +452,6 @@ export class ChintaiScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 建物構造テキストから階数を抽出
-   */
-  private parseFloors(text: string): number | null {
-    const match = text.match(/(\d+)階建/)
-    return match ? parseInt(match[1], 10) : null
-  }
-
-
   /** 日本語の向きを英語に変換 */
   private parseDirection(text: string): Direction | null {
     const directionMap: Record<string, Direction> = {
@@ -493,29 +472,6 @@ export class ChintaiScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 最寄り駅情報を抽出
-   */
-  private parseNearestStations($: cheerio.CheerioAPI): NearestStation[] {
-    const stations: NearestStation[] = []
-
-    $('.station_list li').each((_, el) => {
-      const text = $(el).text().trim()
-      // 「JR山手線 新宿駅 徒歩5分」形式
-      const match = text.match(/(.+?)\s+(.+?駅)\s+徒歩(\d+)分/)
-      if (match) {
-        stations.push({
-          line: match[1].trim(),
-          station: match[2].trim(),
-          walkMinutes: parseInt(match[3], 10),
-          busMinutes: null,
-        })
-      }
-    })
-
-    return stations
-  }
-
   /**
    * HTMLからペット条件を抽出
    */
@@ -554,7 +510,7 @@ export class ChintaiScraper extends BaseScraper {
    * ScrapedProperty を Partial<Property> に変換
    */
   private toPartialProperty(scraped: ScrapedProperty): Partial<Property> {
-    const { prefecture, city } = this.parseAddress(scraped.address)
+    const { prefecture, city, ward, town, block } = normalizeAddress(scraped.address)
 
     return {
       externalId: scraped.externalId,
@@ -563,6 +519,9 @@ export class ChintaiScraper extends BaseScraper {
       address: scraped.address,
       prefecture,
       city,
+      ward,
+      town,
+      block,
       rent: scraped.rent,
       managementFee: scraped.managementFee,
       deposit: scraped.deposit,
@@ -572,23 +531,4 @@ export class ChintaiScraper extends BaseScraper {
       sourceUrl: scraped.sourceUrl,
     }
   }
-
-  /**
-   * 住所から都道府県・市区町村を抽出
-   */
-  private parseAddress(address: string): { prefecture: string; city: string } {
-    // 都道府県を抽出（北海道、東京都、大阪府、京都府、〜県）
-    const prefectureMatch = address.match(
-      /^(北海道|東京都|大阪府|京都府|.{2,3}県)/,
-    )
-    const prefecture = prefectureMatch ? prefectureMatch[1] : ''
-
-    // 市区町村を抽出（〜市、〜区、〜町、〜村）
-    const cityMatch = address.match(
-      /(?:北海道|東京都|大阪府|京都府|.{2,3}県)(.+?[市区町村])/,
-    )
-    const city = cityMatch ? cityMatch[1] : ''
-
-    return { prefecture, city }
-  }
 }
@@ -0,0 +1,238 @@
+import type { PropertySource } from '@cat-home/shared'
+import type { PaginationSelectors } from './base'
+import { readFileSync } from 'node:fs'
+
+/** 設定ファイルで指定できるデータソース */
+const PROPERTY_SOURCES: PropertySource[] = ['suumo', 'homes', 'athome', 'door', 'chintai', 'nifty', 'other']
+
+/** 一覧ページの項目 */
+export const LIST_FIELD_NAMES = ['name', 'address', 'rent', 'managementFee', 'floorPlan', 'area'] as const
+
+/** 詳細ページの項目 */
+export const DETAIL_FIELD_NAMES = [
+  ...LIST_FIELD_NAMES,
+  'deposit',
+  'keyMoney',
+  'guaranteeDeposit',
+  'depositAmortization',
+  'roomSizes',
+  'yearBuilt',
+  'buildingType',
+  'floors',
+  'roomFloor',
+  'direction',
+  'nearestStations',
+  'features',
+  'images',
+  'petConditions',
+  'notes',
+] as const
+
+/** 数値項目の変換 */
+export const FIELD_TRANSFORMS = ['manYen', 'yen', 'float'] as const
+
+export type ListField = typeof LIST_FIELD_NAMES[number]
+export type DetailField = typeof DETAIL_FIELD_NAMES[number]
+export type FieldTransform = typeof FIELD_TRANSFORMS[number]
+
+/** 1項目の取得方法 */
+export interface FieldRule {
+  /** CSS セレクタ（一覧ページでは部屋の要素内、なければ建物カード内を探す） */
+  selector?: string
+  /** 詳細ページの表の見出し（selector の代わりに指定） */
+  label?: string
+  /** 値を取得する属性（先に見つかった属性の値を使う。省略時はテキスト） */
+  attr?: string[]
+  /** 値から取り除く文字列の正規表現（例: "の賃貸物件情報$"） */
+  remove?: string
+  /** 複数の値に分ける区切りの正規表現（設備・画像・交通・ペット条件の項目） */
+  split?: string
+  /** 残す値の正規表現（例: ペットに関する条件だけを残す） */
+  filter?: string
+  /** 数値項目の変換（省略時は項目ごとの既定の変換） */
+  transform?: FieldTransform
+}
+
+/** 詳細ページの表（見出しと値の組）の構造 */
+export interface TableConfig {
+  /** 行 */
+  row: string
+  /** 行内の見出し */
+  label: string
+  /** 行内の値 */
+  value: string
+}
+
+/** 一覧ページの設定 */
+export interface ListConfig {
+  /** 建物カード */
+  item: string
+  /** 建物カード内の部屋（省略時は建物カードを1部屋として扱う） */
+  room?: string
+  /** 詳細ページへのリンク（省略時は href 属性） */
+  link: FieldRule
+  fields: Partial<Record<ListField, FieldRule>>
+}
+
+/** 詳細ページの設定 */
+export interface DetailConfig {
+  /** 表の構造（省略時は th / td の表） */
+  table?: TableConfig
+  fields: Partial<Record<DetailField, FieldRule>>
+}
+
+/**
+ * 設定ファイルで記述したデータソース
+ *
+ * @example
+ * ```json
+ * {
+ *   "source": "athome",
+ *   "baseUrl": "https://www.athome.co.jp",
+ *   "externalIdPattern": "/chintai/(\\d+)/",
+ *   "pagination": { "next": ".p-pager a.p-pager__next", "pageParam": "page" },
+ *   "list": { "item": ".p-property", "link": { "selector": "a" }, "fields": { "name": { "selector": "h2" } } },
+ *   "detail": { "fields": { "address": { "label": "所在地" } } }
+ * }
+ * ```
+ */
+export interface SourceConfig {
+  source: PropertySource
+  /** 相対URLを解決するサイトのURL */
+  baseUrl: string
+  /** 詳細ページの URL から external_id を取り出す正規表現（1つ目のグループを使う） */
+  externalIdPattern: string
+  pagination: PaginationSelectors
+  list: ListConfig
+  detail: DetailConfig
+}
+
+/**
+ * 設定ファイルの内容が正しくない
+ */
+export class SourceConfigError extends Error {
+  constructor(readonly file: string, message: string) {
+    super(`${file}: ${message}`)
+    this.name = 'SourceConfigError'
+  }
+}
+
+/**
+ * JSON の設定ファイルを読み込んで検証する
+ *
+ * @example
+ * ```ts
+ * const config = loadSourceConfig(new URL('./configs/athome.json', import.meta.url))
+ * ```
+ */
+export function loadSourceConfig(path: string | URL): SourceConfig {
+  const file = path instanceof URL ? path.pathname : path
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'))
+  }
+  catch (error) {
+    throw new SourceConfigError(file, `JSON として読み込めません (${error instanceof Error ? error.message : error})`)
+  }
+  return parseSourceConfig(data, file)
+}
+
+/**
+ * 設定の内容を検証して SourceConfig として返す
+ *
+ * 未対応の項目・変換、不正な正規表現、必須項目の不足は SourceConfigError を投げる
+ */
+export function parseSourceConfig(data: unknown, file = 'config'): SourceConfig {
+  const fail = (message: string): never => {
+    throw new SourceConfigError(file, message)
+  }
+
+  const config = asObject(data, 'config', fail)
+  if (!PROPERTY_SOURCES.includes(config.source as PropertySource)) {
+    fail(`source は ${PROPERTY_SOURCES.join(' / ')} のいずれかを指定してください`)
+  }
+  requireString(config.baseUrl, 'baseUrl', fail)
+  requirePattern(config.externalIdPattern, 'externalIdPattern', fail)
+
+  const pagination = asObject(config.pagination, 'pagination', fail)
+  requireString(pagination.next, 'pagination.next', fail)
+  requireString(pagination.pageParam, 'pagination.pageParam', fail)
+
+  const list = asObject(config.list, 'list', fail)
+  requireString(list.item, 'list.item', fail)
+  validateRule(list.link, 'list.link', fail)
+  validateFields(list.fields, 'list.fields', LIST_FIELD_NAMES, fail)
+
+  const detail = asObject(config.detail, 'detail', fail)
+  if (detail.table !== undefined) {
+    const table = asObject(detail.table, 'detail.table', fail)
+    for (const key of ['row', 'label', 'value']) {
+      requireString(table[key], `detail.table.${key}`, fail)
+    }
+  }
+  validateFields(detail.fields, 'detail.fields', DETAIL_FIELD_NAMES, fail)
+
+  return data as SourceConfig
+}
+
+/**
+ * 項目の一覧を検証
+ */
+function validateFields(
+  value: unknown,
+  path: string,
+  fields: readonly string[],
+  fail: (message: string) => never,
+): void {
+  const rules = asObject(value, path, fail)
+  for (const [field, rule] of Object.entries(rules)) {
+    if (!fields.includes(field)) {
+      fail(`${path}.${field} は未対応の項目です（${fields.join(', ')}）`)
+    }
+    validateRule(rule, `${path}.${field}`, fail)
+  }
+}
+
+/**
+ * 1項目の取得方法を検証
+ */
+function validateRule(value: unknown, path: string, fail: (message: string) => never): void {
+  const rule = asObject(value, path, fail)
+  if (typeof rule.selector !== 'string' && typeof rule.label !== 'string') {
+    fail(`${path} には selector か label を指定してください`)
+  }
+  if (rule.attr !== undefined && (!Array.isArray(rule.attr) || !rule.attr.every(a => typeof a === 'string'))) {
+    fail(`${path}.attr は文字列の配列で指定してください`)
+  }
+  for (const key of ['remove', 'split', 'filter']) {
+    if (rule[key] !== undefined) {
+      requirePattern(rule[key], `${path}.${key}`, fail)
+    }
+  }
+  if (rule.transform !== undefined && !FIELD_TRANSFORMS.includes(rule.transform as FieldTransform)) {
+    fail(`${path}.transform は ${FIELD_TRANSFORMS.join(' / ')} のいずれかを指定してください`)
+  }
+}
+
+function asObject(value: unknown, path: string, fail: (message: string) => never): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(`${path} はオブジェクトで指定してください`)
+  }
+  return value as Record<string, unknown>
+}
+
+function requireString(value: unknown, path: string, fail: (message: string) => never): void {
+  if (typeof value !== 'string' || !value) {
+    fail(`${path} を指定してください`)
+  }
+}
+
+function requirePattern(value: unknown, path: string, fail: (message: string) => never): void {
+  requireString(value, path, fail)
+  try {
+    new RegExp(value as string)
+  }
+  catch {
+    fail(`${path} は正規表現として正しくありません: ${value}`)
+  }
+}
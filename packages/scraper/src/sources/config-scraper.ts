@@ -0,0 +1,403 @@
+import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource, RoomSize } from '@cat-home/shared'
+import type { CoverageField, FieldSelectors, ScraperConfig } from '../types'
+import type { PaginationSelectors } from './base'
+import type { DetailField, FieldRule, FieldTransform, SourceConfig, TableConfig } from './config-schema'
+import * as cheerio from 'cheerio'
+import { BaseScraper } from './base'
+import { parseNearestStations } from '../stations/access-parser'
+import { normalizeAddress } from '../utils/address-normalizer'
+import { parseBuildingType, parseDirection, parseManYen, parseYearBuilt } from '../utils/field-parsers'
+import { parseBuildingFloors, parseRoomFloor } from '../utils/floor-parser'
+import { normalizeFloorPlan, parseRoomSizes } from '../utils/floor-plan-normalizer'
+import { parseMoneyTerm, parseYen } from '../utils/money-parser'
+import { parsePetConditions } from '../utils/pet-condition-parser'
+
+/** 一覧ページから抽出した物件情報 */
+export interface ConfigListProperty {
+  name: string
+  address: string
+  rent: number
+  managementFee: number
+  floorPlan: string
+  area: number
+  sourceUrl: string
+  externalId: string
+  source: PropertySource
+}
+
+/** 詳細ページから抽出した物件情報 */
+export interface ConfigDetailProperty {
+  name: string
+  address: string
+  rent: number
+  managementFee: number
+  deposit: number
+  depositMonths: number | null
+  keyMoney: number
+  keyMoneyMonths: number | null
+  guaranteeDeposit: number
+  depositAmortization: number
+  floorPlan: string
+  roomSizes: RoomSize[]
+  area: number
+  yearBuilt: number | null
+  buildingType: BuildingType | null
+  floors: number | null
+  roomFloor: number | null
+  direction: Direction | null
+  nearestStations: NearestStation[]
+  features: string[]
+  images: string[]
+  petConditions: PetConditions | null
+}
+
+/** 表の構造の既定値 */
+const DEFAULT_TABLE: TableConfig = { row: 'table tr', label: 'th', value: 'td' }
+
+/** 数値項目の変換 */
+const TRANSFORMS: Record<FieldTransform, (text: string) => number> = {
+  manYen: parseManYen,
+  yen: parseYen,
+  float: text => parseFloat(text.normalize('NFKC')) || 0,
+}
+
+/** 取得率を計測する項目（取得率レポートに設定のセレクタを表示する） */
+const COVERAGE_FIELDS: CoverageField[] = ['name', 'address', 'rent', 'area', 'floorPlan', 'nearestStations', 'petConditions']
+
+/** 要素の集合 */
+type Selection = ReturnType<cheerio.CheerioAPI>
+
+/**
+ * 設定ファイルで記述したデータソースのスクレイパー
+ *
+ * 一覧・詳細ページのセレクタ、表の見出し、数値の変換を SourceConfig で指定し、
+ * 値の解析（住所・間取り・敷金礼金・ペット条件など）は既存のソースと同じパーサーで行う。
+ * セレクタが変わった場合は設定ファイルを修正し、fixture のテストで確認する
+ *
+ * @example
+ * ```ts
+ * const config = loadSourceConfig(new URL('./configs/athome.json', import.meta.url))
+ * const scraper = new ConfigScraper(config)
+ * const result = await scraper.scrapeList('https://www.athome.co.jp/chintai/theme/pet/tokyo/list/')
+ * ```
+ */
+export class ConfigScraper extends BaseScraper {
+  readonly source: PropertySource
+
+  protected readonly pagination: PaginationSelectors
+
+  readonly fieldSelectors: FieldSelectors
+
+  constructor(private readonly sourceConfig: SourceConfig, config: Partial<ScraperConfig> = {}) {
+    super(config)
+    this.source = sourceConfig.source
+    this.pagination = sourceConfig.pagination
+    this.fieldSelectors = this.buildFieldSelectors()
+  }
+
+  /**
+   * 一覧ページのHTMLから物件情報を抽出
+   */
+  protected parseListPage(html: string): Partial<Property>[] {
+    return this.parseListHtml(html).map(p => this.toPartialProperty(p))
+  }
+
+  /**
+   * 物件詳細ページのHTMLから物件情報を抽出
+   */
+  protected parseDetailPage(html: string, url: string): Partial<Property> {
+    const detail = this.parseDetailHtml(html)
+
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(detail.address)
+
+    return {
+      externalId: this.extractExternalId(url),
+      source: this.source,
+      name: detail.name,
+      address: detail.address,
+      prefecture,
+      city,
+      ward,
+      town,
+      block,
+      rent: detail.rent,
+      managementFee: detail.managementFee,
+      deposit: detail.deposit,
+      depositMonths: detail.depositMonths,
+      keyMoney: detail.keyMoney,
+      keyMoneyMonths: detail.keyMoneyMonths,
+      guaranteeDeposit: detail.guaranteeDeposit,
+      depositAmortization: detail.depositAmortization,
+      floorPlan: detail.floorPlan,
+      roomSizes: detail.roomSizes,
+      area: detail.area,
+      buildingType: detail.buildingType,
+      floors: detail.floors,
+      roomFloor: detail.roomFloor,
+      yearBuilt: detail.yearBuilt,
+      direction: detail.direction,
+      petConditions: detail.petConditions,
+      features: detail.features,
+      nearestStations: detail.nearestStations,
+      images: detail.images,
+      sourceUrl: url,
+    }
+  }
+
+  /**
+   * 物件一覧HTMLをパースして物件情報を抽出する
+   * 建物カード（list.item）に複数の部屋（list.room）が含まれる構造に対応
+   */
+  parseListHtml(html: string): ConfigListProperty[] {
+    const $ = cheerio.load(html)
+    const { list } = this.sourceConfig
+    const properties: ConfigListProperty[] = []
+
+    // 物件カードが0件の場合、HTMLの先頭を出力してデバッグ
+    if ($(list.item).length === 0) {
+      console.warn('⚠️ 物件カードが見つかりません。HTML先頭500文字:')
+      console.warn(html.slice(0, 500))
+    }
+
+    $(list.item).each((_, element) => {
+      const $item = $(element)
+      const $rooms = list.room ? $item.find(list.room) : $item
+
+      $rooms.each((_, roomElement) => {
+        const $room = $(roomElement)
+        // 部屋の要素になければ建物カードから探す（建物名・住所など）
+        const read = (rule: FieldRule | undefined) => this.readListText($item, $room, rule)
+
+        // 詳細ページURL
+        const href = read({ attr: ['href'], ...list.link })
+        const sourceUrl = href ? new URL(href, this.sourceConfig.baseUrl).toString() : ''
+
+        // externalId が取れない場合はスキップ（ボット検出等で HTML が正常でない可能性）
+        const externalId = this.extractExternalId(href)
+        if (!externalId) {
+          console.warn(`⚠️ externalId が取得できませんでした: href="${href}"`)
+          return // continue to next room
+        }
+
+        properties.push({
+          name: read(list.fields.name),
+          address: read(list.fields.address),
+          rent: this.toNumber(read(list.fields.rent), list.fields.rent, 'manYen'),
+          managementFee: this.toNumber(read(list.fields.managementFee), list.fields.managementFee, 'yen'),
+          floorPlan: normalizeFloorPlan(read(list.fields.floorPlan)),
+          area: this.toNumber(read(list.fields.area), list.fields.area, 'float'),
+          sourceUrl,
+          externalId,
+          source: this.source,
+        })
+      })
+    })
+
+    return properties
+  }
+
+  /**
+   * 物件詳細ページのHTMLをパースして詳細情報を抽出する
+   */
+  parseDetailHtml(html: string): ConfigDetailProperty {
+    const $ = cheerio.load(html)
+    const { fields } = this.sourceConfig.detail
+    const read = (rule: FieldRule | undefined) => this.readDetailText($, rule)
+    const readAll = (rule: FieldRule | undefined) => this.readDetailValues($, rule)
+
+    const rent = this.toNumber(read(fields.rent), fields.rent, 'manYen')
+
+    const depositTerm = parseMoneyTerm(read(fields.deposit), { rent })
+    const keyMoneyTerm = parseMoneyTerm(read(fields.keyMoney), { rent })
+
+    // 保証金・敷引・償却（割合表記は保証金、なければ敷金に対する割合）
+    const guaranteeDeposit = parseMoneyTerm(read(fields.guaranteeDeposit), { rent }).amount
+    const depositAmortization = parseMoneyTerm(read(fields.depositAmortization), {
+      rent,
+      base: guaranteeDeposit || depositTerm.amount,
+    }).amount
+
+    // ペット条件（敷金欄の「ペット飼育時+1ヶ月」は追加敷金として補う）
+    const petTexts = readAll(fields.petConditions)
+    const petConditions = petTexts.length > 0
+      ? parsePetConditions(petTexts, rent, read(fields.notes) || undefined)
+      : null
+    if (petConditions && petConditions.additionalDeposit === null) {
+      petConditions.additionalDeposit = depositTerm.petSurcharge
+    }
+
+    return {
+      name: read(fields.name),
+      address: read(fields.address),
+      rent,
+      managementFee: this.toNumber(read(fields.managementFee), fields.managementFee, 'yen'),
+      deposit: depositTerm.amount,
+      depositMonths: depositTerm.months,
+      keyMoney: keyMoneyTerm.amount,
+      keyMoneyMonths: keyMoneyTerm.months,
+      guaranteeDeposit,
+      depositAmortization,
+      floorPlan: normalizeFloorPlan(read(fields.floorPlan)),
+      roomSizes: parseRoomSizes(read(fields.roomSizes)),
+      area: this.toNumber(read(fields.area), fields.area, 'float'),
+      yearBuilt: parseYearBuilt(read(fields.yearBuilt)),
+      buildingType: parseBuildingType(read(fields.buildingType)),
+      floors: parseBuildingFloors(read(fields.floors)),
+      roomFloor: parseRoomFloor(read(fields.roomFloor)),
+      direction: parseDirection(read(fields.direction)),
+      nearestStations: parseNearestStations(readAll(fields.nearestStations)),
+      features: readAll(fields.features),
+      images: readAll(fields.images).map(src => new URL(src, this.sourceConfig.baseUrl).toString()),
+      petConditions,
+    }
+  }
+
+  /**
+   * 詳細ページの URL から external_id を抽出
+   */
+  private extractExternalId(url: string): string {
+    const match = url.match(new RegExp(this.sourceConfig.externalIdPattern))
+    return match?.[1] ?? ''
+  }
+
+  /**
+   * 一覧ページの項目の値を取得（部屋の要素になければ建物カードから探す）
+   */
+  private readListText($item: Selection, $room: Selection, rule: FieldRule | undefined): string {
+    if (!rule?.selector) {
+      return ''
+    }
+    const $found = $room.find(rule.selector)
+    const $target = $found.length > 0 ? $found : $item.find(rule.selector)
+    return this.cleanValue(this.readElement($target.first(), rule), rule)
+  }
+
+  /**
+   * 詳細ページの項目の値を取得
+   */
+  private readDetailText($: cheerio.CheerioAPI, rule: FieldRule | undefined): string {
+    const $target = this.findDetail($, rule)
+    return $target && rule ? this.cleanValue(this.readElement($target.first(), rule), rule) : ''
+  }
+
+  /**
+   * 詳細ページの項目の値を配列で取得（設備・画像・交通・ペット条件）
+   *
+   * セレクタに一致した要素ごとの値を split で区切り、filter に一致する値だけを残す。
+   * 表の見出しで指定した場合は、値のテキストを split（省略時は改行）で区切る
+   */
+  private readDetailValues($: cheerio.CheerioAPI, rule: FieldRule | undefined): string[] {
+    const $target = this.findDetail($, rule)
+    if (!$target || !rule) {
+      return []
+    }
+
+    const split = rule.split ?? (rule.label ? '[\\n\\r]+' : null)
+    const filter = rule.filter ? new RegExp(rule.filter) : null
+    return $target.toArray()
+      .map(el => this.readElement($(el), rule))
+      .flatMap(value => (split ? value.split(new RegExp(split)) : [value]))
+      .map(value => this.cleanValue(value, rule))
+      .filter(value => value && (!filter || filter.test(value)))
+  }
+
+  /**
+   * 詳細ページの項目の要素を探す（表の見出し、なければセレクタ）
+   */
+  private findDetail($: cheerio.CheerioAPI, rule: FieldRule | undefined): Selection | null {
+    if (!rule) {
+      return null
+    }
+    if (rule.label) {
+      const table = this.sourceConfig.detail.table ?? DEFAULT_TABLE
+      const row = $(table.row).toArray().find(el => $(el).find(table.label).text().trim() === rule.label)
+      return row ? $(row).find(table.value) : null
+    }
+    return rule.selector ? $(rule.selector) : null
+  }
+
+  /**
+   * 要素から値を取得（属性の指定があれば先に見つかった属性の値）
+   */
+  private readElement($element: Selection, rule: FieldRule): string {
+    for (const attr of rule.attr ?? []) {
+      const value = $element.attr(attr)
+      if (value) {
+        return value
+      }
+    }
+    return rule.attr?.length ? '' : $element.text()
+  }
+
+  /**
+   * 値の前後の空白と remove に一致する文字列を取り除く
+   */
+  private cleanValue(value: string, rule: FieldRule): string {
+    const removed = rule.remove ? value.replace(new RegExp(rule.remove, 'g'), '') : value
+    return removed.trim()
+  }
+
+  /**
+   * 数値項目を変換（設定で変換を指定しなければ項目ごとの既定の変換）
+   */
+  private toNumber(text: string, rule: FieldRule | undefined, fallback: FieldTransform): number {
+    if (!text || text === '-') {
+      return 0
+    }
+    return TRANSFORMS[rule?.transform ?? fallback](text)
+  }
+
+  /**
+   * 取得率レポート用のセレクタを設定から生成
+   */
+  private buildFieldSelectors(): FieldSelectors {
+    const { list, detail } = this.sourceConfig
+    const table = detail.table ?? DEFAULT_TABLE
+    const describe = (rule: FieldRule | undefined) => {
+      if (rule?.label) {
+        return `${table.row} ${table.label}:contains("${rule.label}") + ${table.value}`
+      }
+      return rule?.selector
+    }
+
+    const selectors: FieldSelectors = {}
+    for (const field of COVERAGE_FIELDS) {
+      const listRule = (list.fields as Partial<Record<string, FieldRule>>)[field]
+      const detailRule = detail.fields[field as DetailField]
+      if (listRule || detailRule) {
+        selectors[field] = { list: describe(listRule), detail: describe(detailRule) }
+      }
+    }
+    // 都道府県は住所から取り出す
+    if (selectors.address) {
+      selectors.prefecture = selectors.address
+    }
+    return selectors
+  }
+
+  /**
+   * ConfigListProperty を Partial<Property> に変換
+   */
+  private toPartialProperty(scraped: ConfigListProperty): Partial<Property> {
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(scraped.address)
+
+    return {
+      externalId: scraped.externalId,
+      source: scraped.source,
+      name: scraped.name,
+      address: scraped.address,
+      prefecture,
+      city,
+      ward,
+      town,
+      block,
+      rent: scraped.rent,
+      managementFee: scraped.managementFee,
+      floorPlan: scraped.floorPlan,
+      area: scraped.area,
+      sourceUrl: scraped.sourceUrl,
+    }
+  }
+}
@@ -1,7 +1,13 @@
-import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource } from '@cat-home/shared'
-import type { ScraperConfig, ScrapeResult } from '../types'
+import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource, RoomSize } from '@cat-home/shared'
+import type { FieldSelectors, ScraperConfig } from '../types'
+import type { PaginationSelectors } from './base'
 import * as cheerio from 'cheerio'
 import { BaseScraper } from './base'
+import { parseNearestStations } from '../stations/access-parser'
+import { normalizeAddress } from '../utils/address-normalizer'
+import { parseBuildingFloors, parseRoomFloor } from '../utils/floor-parser'
+import { normalizeFloorPlan, parseRoomSizes } from '../utils/floor-plan-normalizer'
+import { parseMoneyTerm } from '../utils/money-parser'
 import { parsePetConditions } from '../utils/pet-condition-parser'
 
 interface ScrapedProperty {
@@ -23,12 +29,18 @@ export interface ScrapedDetailProperty {
   rent: number
   managementFee: number
   deposit: number
+  depositMonths: number | null
   keyMoney: number
+  keyMoneyMonths: number | null
+  guaranteeDeposit: number
+  depositAmortization: number
   floorPlan: string
+  roomSizes: RoomSize[]
   area: number
   yearBuilt: number | null
   buildingType: BuildingType | null
   floors: number | null
+  roomFloor: number | null
   direction: Direction | null
   nearestStations: NearestStation[]
   features: string[]
@@ -51,96 +63,80 @@ const DOOR_BASE_URL = 'https://door.ac'
 export class DoorScraper extends BaseScraper {
   readonly source = 'door' as const
 
+  /** ページ送り: rel="next" の「次へ」ボタンとページ番号ボタン */
+  protected readonly pagination: PaginationSelectors = {
+    next: '.pagination a.btn-pagination-next',
+    pages: '.pagination a.btn--pagination',
+    pageParam: 'page',
+  }
+
+  /** 取得率レポート用のセレクタ（parseListHtml / parseDetailHtml の変更時に合わせて更新する） */
+  readonly fieldSelectors: FieldSelectors = {
+    name: { list: '.building-box .heading a', detail: '.property-name' },
+    address: { list: '.building-box .description-item dd', detail: 'table tr th:contains("所在地") + td' },
+    prefecture: { list: '.building-box .description-item dd', detail: 'table tr th:contains("所在地") + td' },
+    rent: { list: 'table.table-secondary em.emphasis-primary', detail: '.rent-price' },
+    area: { list: 'table.table-secondary tbody tr td:nth-child(6)', detail: 'table tr th:contains("専有面積") + td' },
+    floorPlan: { list: 'table.table-secondary tbody tr td:nth-child(5)', detail: 'table tr th:contains("間取り") + td' },
+    nearestStations: { detail: '.access-list li' },
+    petConditions: { detail: 'table tr th:contains("ペット") + td li' },
+  }
+
   constructor(config: Partial<ScraperConfig> = {}) {
     super(config)
   }
 
   /**
-   * 物件一覧ページをスクレイピング
+   * 一覧ページのHTMLから物件情報を抽出
    */
-  async scrapeList(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const properties = this.parseListHtml(html)
-
-      return {
-        success: true,
-        properties: properties.map(p => this.toPartialProperty(p)),
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
+  protected parseListPage(html: string): Partial<Property>[] {
+    return this.parseListHtml(html).map(p => this.toPartialProperty(p))
   }
 
   /**
-   * 物件詳細ページをスクレイピング
+   * 物件詳細ページのHTMLから物件情報を抽出
    */
-  async scrapeDetail(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const detail = this.parseDetailHtml(html)
-
-      // 住所から都道府県・市区町村を抽出
-      const { prefecture, city } = this.parseAddress(detail.address)
-
-      // external_id を URL から抽出
-      const externalIdMatch = url.match(/\/properties\/([a-f0-9-]+)/)
-      const externalId = externalIdMatch ? externalIdMatch[1] : ''
-
-      const property: Partial<Property> = {
-        externalId,
-        source: this.source,
-        name: detail.name,
-        address: detail.address,
-        prefecture,
-        city,
-        rent: detail.rent,
-        managementFee: detail.managementFee,
-        deposit: detail.deposit,
-        keyMoney: detail.keyMoney,
-        floorPlan: detail.floorPlan,
-        area: detail.area,
-        buildingType: detail.buildingType,
-        floors: detail.floors,
-        yearBuilt: detail.yearBuilt,
-        direction: detail.direction,
-        petConditions: detail.petConditions,
-        features: detail.features,
-        nearestStations: detail.nearestStations,
-        images: detail.images,
-        sourceUrl: url,
-      }
+  protected parseDetailPage(html: string, url: string): Partial<Property> {
+    const detail = this.parseDetailHtml(html)
 
-      return {
-        success: true,
-        properties: [property],
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(detail.address)
+
+    // external_id を URL から抽出
+    const externalIdMatch = url.match(/\/properties\/([a-f0-9-]+)/)
+    const externalId = externalIdMatch ? externalIdMatch[1] : ''
+
+    return {
+      externalId,
+      source: this.source,
+      name: detail.name,
+      address: detail.address,
+      prefecture,
+      city,
+      ward,
+      town,
+      block,
+      rent: detail.rent,
+      managementFee: detail.managementFee,
+      deposit: detail.deposit,
+      depositMonths: detail.depositMonths,
+      keyMoney: detail.keyMoney,
+      keyMoneyMonths: detail.keyMoneyMonths,
+      guaranteeDeposit: detail.guaranteeDeposit,
+      depositAmortization: detail.depositAmortization,
+      floorPlan: detail.floorPlan,
+      roomSizes: detail.roomSizes,
+      area: detail.area,
+      buildingType: detail.buildingType,
+      floors: detail.floors,
+      roomFloor: detail.roomFloor,
+      yearBuilt: detail.yearBuilt,
+      direction: detail.direction,
+      petConditions: detail.petConditions,
+      features: detail.features,
+      nearestStations: detail.nearestStations,
+      images: detail.images,
+      sourceUrl: url,
     }
   }
 
@@ -163,14 +159,19 @@ export class DoorScraper extends BaseScraper {
     const managementFeeText = this.extractTableValue($, '管理費・共益費')
     const managementFee = this.parseManagementFee(managementFeeText)
 
-    const depositText = this.extractTableValue($, '敷金')
-    const deposit = this.parseDepositWithRent(depositText, rent)
+    const depositTerm = parseMoneyTerm(this.extractTableValue($, '敷金'), { rent })
+    const keyMoneyTerm = parseMoneyTerm(this.extractTableValue($, '礼金'), { rent })
 
-    const keyMoneyText = this.extractTableValue($, '礼金')
-    const keyMoney = this.parseDepositWithRent(keyMoneyText, rent)
+    // 保証金・敷引・償却（割合表記は保証金、なければ敷金に対する割合）
+    const guaranteeDeposit = parseMoneyTerm(this.extractTableValue($, '保証金'), { rent }).amount
+    const depositAmortization = parseMoneyTerm(this.extractTableValue($, '敷引・償却'), {
+      rent,
+      base: guaranteeDeposit || depositTerm.amount,
+    }).amount
 
     // 間取り・面積
-    const floorPlan = this.extractTableValue($, '間取り')
+    const floorPlan = normalizeFloorPlan(this.extractTableValue($, '間取り'))
+    const roomSizes = parseRoomSizes(this.extractTableValue($, '間取り詳細'))
     const areaText = this.extractTableValue($, '専有面積')
     const area = this.parseArea(areaText)
 
@@ -182,16 +183,16 @@ export class DoorScraper extends BaseScraper {
     const buildingTypeText = this.extractTableValue($, '建物種別')
     const buildingType = this.parseBuildingType(buildingTypeText)
 
-    // 階数
-    const structureText = this.extractTableValue($, '建物構造')
-    const floors = this.parseFloors(structureText)
+    // 建物の階数・所在階
+    const floors = parseBuildingFloors(this.extractTableValue($, '建物構造'))
+    const roomFloor = parseRoomFloor(this.extractTableValue($, '階'))
 
     // 向き
     const directionText = this.extractTableValue($, '向き')
     const direction = this.parseDirection(directionText)
 
     // 最寄り駅
-    const nearestStations = this.parseNearestStations($)
+    const nearestStations = parseNearestStations($('.access-list li').map((_, el) => $(el).text()).get())
 
     // 設備情報
     const features: string[] = []
@@ -211,21 +212,30 @@ export class DoorScraper extends BaseScraper {
       }
     })
 
-    // ペット条件
+    // ペット条件（敷金欄の「ペット飼育時+1ヶ月」は追加敷金として補う）
     const petConditions = this.parsePetConditionsFromHtml($, rent)
+    if (petConditions && petConditions.additionalDeposit === null) {
+      petConditions.additionalDeposit = depositTerm.petSurcharge
+    }
 
     return {
       name,
       address,
       rent,
       managementFee,
-      deposit,
-      keyMoney,
+      deposit: depositTerm.amount,
+      depositMonths: depositTerm.months,
+      keyMoney: keyMoneyTerm.amount,
+      keyMoneyMonths: keyMoneyTerm.months,
+      guaranteeDeposit,
+      depositAmortization,
       floorPlan,
+      roomSizes,
       area,
       yearBuilt,
       buildingType,
       floors,
+      roomFloor,
       direction,
       nearestStations,
       features,
@@ -250,27 +260,6 @@ export class DoorScraper extends BaseScraper {
     return value
   }
 
-  /**
-   * 敷金・礼金テキストを円に変換（「Nヶ月」形式対応）
-   */
-  private parseDepositWithRent(text: string, rent: number): number {
-    if (!text || text === '-' || text === 'なし') {
-      return 0
-    }
-    // 「Nヶ月」形式
-    const monthMatch = text.match(/(\d+)[ヶか]月/)
-    if (monthMatch) {
-      const months = parseInt(monthMatch[1], 10)
-      return rent * months
-    }
-    // 万円形式
-    const rentValue = this.parseRent(text)
-    if (rentValue > 0) {
-      return rentValue
-    }
-    return 0
-  }
-
   /**
    * 築年月テキストから築年を抽出
    * 例: "2018年6月" → 2018
@@ -292,15 +281,6 @@ export class DoorScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 建物構造テキストから階数を抽出
-   * 例: "RC造 / 8階建" → 8
-   */
-  private parseFloors(text: string): number | null {
-    const match = text.match(/(\d+)階建/)
-    return match ? parseInt(match[1], 10) : null
-  }
-
   /**
    * 向きテキストを Direction に変換
    * 例: "南" → 'south', "南東" → 'southeast'
@@ -322,27 +302,6 @@ export class DoorScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 最寄り駅情報を抽出
-   */
-  private parseNearestStations($: cheerio.CheerioAPI): NearestStation[] {
-    const stations: NearestStation[] = []
-    $('.access-list li').each((_, el) => {
-      const text = $(el).text().trim()
-      // 「JR山手線/渋谷駅 歩7分」のパターンを解析
-      const match = text.match(/(.+?)\/(.+?駅)\s*歩(\d+)分/)
-      if (match) {
-        stations.push({
-          line: match[1].trim(),
-          station: match[2].trim(),
-          walkMinutes: parseInt(match[3], 10),
-          busMinutes: null,
-        })
-      }
-    })
-    return stations
-  }
-
   /**
    * HTMLからペット条件を抽出
    */
@@ -440,7 +399,7 @@ export class DoorScraper extends BaseScraper {
         const managementFee = this.parseManagementFee(managementFeeText)
 
         // 間取り
-        const floorPlan = cells.eq(4).text().trim()
+        const floorPlan = normalizeFloorPlan(cells.eq(4).text())
 
         // 専有面積
         const areaText = cells.eq(5).text().trim()
@@ -523,8 +482,8 @@ export class DoorScraper extends BaseScraper {
    * ScrapedProperty を Partial<Property> に変換
    */
   private toPartialProperty(scraped: ScrapedProperty): Partial<Property> {
-    // 住所から都道府県・市区町村を抽出
-    const { prefecture, city } = this.parseAddress(scraped.address)
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(scraped.address)
 
     return {
       externalId: scraped.externalId,
@@ -533,6 +492,9 @@ export class DoorScraper extends BaseScraper {
       address: scraped.address,
       prefecture,
       city,
+      ward,
+      town,
+      block,
       rent: scraped.rent,
       managementFee: scraped.managementFee,
       floorPlan: scraped.floorPlan,
@@ -540,23 +502,4 @@ export class DoorScraper extends BaseScraper {
       sourceUrl: scraped.sourceUrl,
     }
   }
-
-  /**
-   * 住所から都道府県・市区町村を抽出
-   */
-  private parseAddress(address: string): { prefecture: string; city: string } {
-    // 都道府県を抽出（北海道、東京都、大阪府、京都府、〜県）
-    const prefectureMatch = address.match(
-      /^(北海道|東京都|大阪府|京都府|.{2,3}県)/,
-    )
-    const prefecture = prefectureMatch ? prefectureMatch[1] : ''
-
-    // 市区町村を抽出（〜市、〜区、〜町、〜村）
-    const cityMatch = address.match(
-      /(?:北海道|東京都|大阪府|京都府|.{2,3}県)(.+?[市区町村])/,
-    )
-    const city = cityMatch ? cityMatch[1] : ''
-
-    return { prefecture, city }
-  }
 }
@@ -1,7 +1,13 @@
-import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource } from '@cat-home/shared'
-import type { ScraperConfig, ScrapeResult } from '../types'
+import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource, RoomSize } from '@cat-home/shared'
+import type { FieldSelectors, ScraperConfig } from '../types'
+import type { PaginationSelectors } from './base'
 import * as cheerio from 'cheerio'
 import { BaseScraper } from './base'
+import { parseNearestStations } from '../stations/access-parser'
+import { normalizeAddress } from '../utils/address-normalizer'
+import { parseBuildingFloors, parseRoomFloor } from '../utils/floor-parser'
+import { normalizeFloorPlan, parseRoomSizes } from '../utils/floor-plan-normalizer'
+import { parseMoneyTerm } from '../utils/money-parser'
 import { parsePetConditions } from '../utils/pet-condition-parser'
 
 interface ScrapedProperty {
@@ -23,12 +29,18 @@ export interface ScrapedDetailProperty {
   rent: number
   managementFee: number
   deposit: number
+  depositMonths: number | null
   keyMoney: number
+  keyMoneyMonths: number | null
+  guaranteeDeposit: number
+  depositAmortization: number
   floorPlan: string
+  roomSizes: RoomSize[]
   area: number
   yearBuilt: number | null
   buildingType: BuildingType | null
   floors: number | null
+  roomFloor: number | null
   direction: Direction | null
   nearestStations: NearestStation[]
   features: string[]
@@ -49,96 +61,82 @@ export interface ScrapedDetailProperty {
 export class HomesScraper extends BaseScraper {
   readonly source = 'homes' as const
 
+  /** ページ送り: 「次へ」リンクと総件数（1ページ30件） */
+  protected readonly pagination: PaginationSelectors = {
+    next: '.mod-listPaging li.nextPage a',
+    pages: '.mod-listPaging li a',
+    totalCount: '.mod-listPaging .totalNum',
+    perPage: 30,
+    pageParam: 'page',
+  }
+
+  /** 取得率レポート用のセレクタ（parseListHtml / parseDetailHtml の変更時に合わせて更新する） */
+  readonly fieldSelectors: FieldSelectors = {
+    name: { list: '.mod-mergeBuilding--rent--photo .bukkenName', detail: '.mod-buildingHeader .heading' },
+    address: { list: '.bukkenSpec table tr th:contains("所在地") + td', detail: '.mod-buildingDetail .address' },
+    prefecture: { list: '.bukkenSpec table tr th:contains("所在地") + td', detail: '.mod-buildingDetail .address' },
+    rent: { list: '.price .priceLabel .num', detail: '.mod-priceDetail .rent .price' },
+    area: { list: '.prg-roomInfo .layout', detail: '.mod-roomDetail .area' },
+    floorPlan: { list: '.prg-roomInfo .layout', detail: '.mod-roomDetail .floorPlan' },
+    nearestStations: { detail: '.mod-buildingDetail .access li' },
+    petConditions: { detail: '.mod-petInfo table tr' },
+  }
+
   constructor(config: Partial<ScraperConfig> = {}) {
     super(config)
   }
 
   /**
-   * 物件一覧ページをスクレイピング
+   * 一覧ページのHTMLから物件情報を抽出
    */
-  async scrapeList(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const properties = this.parseListHtml(html)
-
-      return {
-        success: true,
-        properties: properties.map(p => this.toPartialProperty(p)),
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
+  protected parseListPage(html: string): Partial<Property>[] {
+    return this.parseListHtml(html).map(p => this.toPartialProperty(p))
   }
 
   /**
-   * 物件詳細ページをスクレイピング
+   * 物件詳細ページのHTMLから物件情報を抽出
    */
-  async scrapeDetail(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const detail = this.parseDetailHtml(html)
-
-      // 住所から都道府県・市区町村を抽出
-      const { prefecture, city } = this.parseAddress(detail.address)
-
-      // external_id を URL から抽出
-      const externalIdMatch = url.match(/\/chintai\/room\/([a-f0-9]+)\//)
-      const externalId = externalIdMatch ? externalIdMatch[1] : ''
-
-      const property: Partial<Property> = {
-        externalId,
-        source: this.source,
-        name: detail.name,
-        address: detail.address,
-        prefecture,
-        city,
-        rent: detail.rent,
-        managementFee: detail.managementFee,
-        deposit: detail.deposit,
-        keyMoney: detail.keyMoney,
-        floorPlan: detail.floorPlan,
-        area: detail.area,
-        buildingType: detail.buildingType,
-        floors: detail.floors,
-        yearBuilt: detail.yearBuilt,
-        direction: detail.direction,
-        petConditions: detail.petConditions,
-        features: detail.features,
-        nearestStations: detail.nearestStations,
-        images: detail.images,
-        sourceUrl: url,
-      }
+  protected parseDetailPage(html: string, url: string): Partial<Property> {
+    const detail = this.parseDetailHtml(html)
 
-      return {
-        success: true,
-        properties: [property],
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(detail.address)
+
+    // external_id を URL から抽出
+    const externalIdMatch = url.match(/\/chintai\/room\/([a-f0-9]+)\//)
+    const externalId = externalIdMatch ? externalIdMatch[1] : ''
+
+    return {
+      externalId,
+      source: this.source,
+      name: detail.name,
+      address: detail.address,
+      prefecture,
+      city,
+      ward,
+      town,
+      block,
+      rent: detail.rent,
+      managementFee: detail.managementFee,
+      deposit: detail.deposit,
+      depositMonths: detail.depositMonths,
+      keyMoney: detail.keyMoney,
+      keyMoneyMonths: detail.keyMoneyMonths,
+      guaranteeDeposit: detail.guaranteeDeposit,
+      depositAmortization: detail.depositAmortization,
+      floorPlan: detail.floorPlan,
+      roomSizes: detail.roomSizes,
+      area: detail.area,
+      buildingType: detail.buildingType,
+      floors: detail.floors,
+      roomFloor: detail.roomFloor,
+      yearBuilt: detail.yearBuilt,
+      direction: detail.direction,
+      petConditions: detail.petConditions,
+      features: detail.features,
+      nearestStations: detail.nearestStations,
+      images: detail.images,
+      sourceUrl: url,
     }
   }
 
@@ -161,14 +159,19 @@ export class HomesScraper extends BaseScraper {
     const managementFeeText = $('.mod-priceDetail .managementFee').text().trim()
     const managementFee = this.parseManagementFee(managementFeeText)
 
-    const depositText = $('.mod-priceDetail .deposit').text().trim()
-    const deposit = this.parseDepositWithRent(depositText, rent)
+    const depositTerm = parseMoneyTerm($('.mod-priceDetail .deposit').text().trim(), { rent })
+    const keyMoneyTerm = parseMoneyTerm($('.mod-priceDetail .keyMoney').text().trim(), { rent })
 
-    const keyMoneyText = $('.mod-priceDetail .keyMoney').text().trim()
-    const keyMoney = this.parseDepositWithRent(keyMoneyText, rent)
+    // 保証金・敷引・償却（割合表記は保証金、なければ敷金に対する割合）
+    const guaranteeDeposit = parseMoneyTerm(this.extractTableValue($, '保証金'), { rent }).amount
+    const depositAmortization = parseMoneyTerm(this.extractTableValue($, '敷引・償却'), {
+      rent,
+      base: guaranteeDeposit || depositTerm.amount,
+    }).amount
 
     // 間取り・面積
-    const floorPlan = $('.mod-roomDetail .floorPlan').text().trim()
+    const floorPlan = normalizeFloorPlan($('.mod-roomDetail .floorPlan').text())
+    const roomSizes = parseRoomSizes(this.extractTableValue($, '間取り詳細'))
     const areaText = $('.mod-roomDetail .area').text().trim()
     const areaMatch = areaText.match(/([0-9.]+)/)
     const area = areaMatch ? parseFloat(areaMatch[1]) : 0
@@ -179,14 +182,15 @@ export class HomesScraper extends BaseScraper {
     // 建物種別
     const buildingType = this.parseBuildingType($)
 
-    // 階数
+    // 建物の階数・所在階
     const floors = this.parseFloors($)
+    const roomFloor = parseRoomFloor($('.mod-roomDetail .floor').text())
 
     // 向き
     const direction = this.parseDirection($)
 
     // 最寄り駅
-    const nearestStations = this.parseNearestStations($)
+    const nearestStations = parseNearestStations($('.mod-buildingDetail .access li').map((_, el) => $(el).text()).get())
 
     // 設備情報
     const features: string[] = []
@@ -206,21 +210,30 @@ export class HomesScraper extends BaseScraper {
       }
     })
 
-    // ペット条件
+    // ペット条件（敷金欄の「ペット飼育時+1ヶ月」は追加敷金として補う）
     const petConditions = this.parsePetConditionsFromHtml($, rent)
+    if (petConditions && petConditions.additionalDeposit === null) {
+      petConditions.additionalDeposit = depositTerm.petSurcharge
+    }
 
     return {
       name,
       address,
       rent,
       managementFee,
-      deposit,
-      keyMoney,
+      deposit: depositTerm.amount,
+      depositMonths: depositTerm.months,
+      keyMoney: keyMoneyTerm.amount,
+      keyMoneyMonths: keyMoneyTerm.months,
+      guaranteeDeposit,
+      depositAmortization,
       floorPlan,
+      roomSizes,
       area,
       yearBuilt,
       buildingType,
       floors,
+      roomFloor,
       direction,
       nearestStations,
       features,
@@ -230,24 +243,18 @@ export class HomesScraper extends BaseScraper {
   }
 
   /**
-   * 敷金・礼金テキストを円に変換（「Nヶ月」形式対応）
+   * テーブルから指定したラベルの値を抽出
    */
-  private parseDepositWithRent(text: string, rent: number): number {
-    if (!text || text === '-' || text === 'なし') {
-      return 0
-    }
-    // 「Nヶ月」形式
-    const monthMatch = text.match(/(\d+)[ヶか]月/)
-    if (monthMatch) {
-      const months = parseInt(monthMatch[1], 10)
-      return rent * months
-    }
-    // 万円形式
-    const rentValue = this.parseRent(text)
-    if (rentValue > 0) {
-      return rentValue
-    }
-    return 0
+  private extractTableValue($: cheerio.CheerioAPI, label: string): string {
+    let value = ''
+    $('table tr').each((_, row) => {
+      const $row = $(row)
+      if ($row.find('th').text().trim() === label) {
+        value = $row.find('td').text().trim()
+        return false // break
+      }
+    })
+    return value
   }
 
   /**
@@ -298,8 +305,7 @@ export class HomesScraper extends BaseScraper {
         return false
       }
     })
-    const match = text.match(/(\d+)階建/)
-    return match ? parseInt(match[1], 10) : null
+    return parseBuildingFloors(text)
   }
 
   /**
@@ -330,27 +336,6 @@ export class HomesScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 最寄り駅情報を抽出
-   */
-  private parseNearestStations($: cheerio.CheerioAPI): NearestStation[] {
-    const stations: NearestStation[] = []
-    $('.mod-buildingDetail .access li').each((_, el) => {
-      const text = $(el).text().trim()
-      // 「東急東横線 中目黒駅 徒歩8分」のパターンを解析
-      const match = text.match(/(.+?)\s+(.+?駅)\s*徒歩(\d+)分/)
-      if (match) {
-        stations.push({
-          line: match[1].trim(),
-          station: match[2].trim(),
-          walkMinutes: parseInt(match[3], 10),
-          busMinutes: null,
-        })
-      }
-    })
-    return stations
-  }
-
   /**
    * HTMLからペット条件を抽出
    */
@@ -447,9 +432,9 @@ export class HomesScraper extends BaseScraper {
 
         // 間取り (.layout から間取りパターンを抽出)
         const layoutText = $room.find('.layout').text().trim()
-        // 間取りパターン: 1R, 1K, 1DK, 1LDK, 2K, 2DK, 2LDK, ...
-        const floorPlanMatch = layoutText.match(/^(\d+[SLDK]+R?|ワンルーム)/)
-        const floorPlan = floorPlanMatch ? floorPlanMatch[1] : ''
+        // 間取りパターン: 1R, 1K, 1DK, 1LDK, 2K, 2DK, 2LDK, 2LDK+S, ...
+        const floorPlanMatch = layoutText.match(/^(\d+[SLDK]+R?(?:\+(?:S|納戸))?|ワンルーム)/)
+        const floorPlan = floorPlanMatch ? normalizeFloorPlan(floorPlanMatch[1]) : ''
 
         // 専有面積 (.layout の m² を含む部分)
         const areaMatch = layoutText.match(/([0-9.]+)m²/)
@@ -509,7 +494,7 @@ export class HomesScraper extends BaseScraper {
    * ScrapedProperty を Partial<Property> に変換
    */
   private toPartialProperty(scraped: ScrapedProperty): Partial<Property> {
-    const { prefecture, city } = this.parseAddress(scraped.address)
+    const { prefecture, city, ward, town, block } = normalizeAddress(scraped.address)
 
     return {
       externalId: scraped.externalId,
@@ -518,6 +503,9 @@ export class HomesScraper extends BaseScraper {
       address: scraped.address,
       prefecture,
       city,
+      ward,
+      town,
+      block,
       rent: scraped.rent,
       managementFee: scraped.managementFee,
       floorPlan: scraped.floorPlan,
@@ -525,23 +513,4 @@ export class HomesScraper extends BaseScraper {
       sourceUrl: scraped.sourceUrl,
     }
   }
-
-  /**
-   * 住所から都道府県・市区町村を抽出
-   */
-  private parseAddress(address: string): { prefecture: string; city: string } {
-    // 都道府県を抽出（北海道、東京都、大阪府、京都府、〜県）
-    const prefectureMatch = address.match(
-      /^(北海道|東京都|大阪府|京都府|.{2,3}県)/,
-    )
-    const prefecture = prefectureMatch ? prefectureMatch[1] : ''
-
-    // 市区町村を抽出（〜市、〜区、〜町、〜村）
-    const cityMatch = address.match(
-      /(?:北海道|東京都|大阪府|京都府|.{2,3}県)(.+?[市区町村])/,
-    )
-    const city = cityMatch ? cityMatch[1] : ''
-
-    return { prefecture, city }
-  }
 }
@@ -5,3 +5,12 @@ export { DoorScraper } from './door'
 export { HomesScraper } from './homes'
 export { ChintaiScraper } from './chintai'
 export { NiftyScraper } from './nifty'
+export { AthomeScraper } from './athome'
+export { SchemaOrgScraper } from './schema-org'
+export { ConfigScraper } from './config-scraper'
+export type { ConfigDetailProperty, ConfigListProperty } from './config-scraper'
+export { loadSourceConfig, parseSourceConfig, SourceConfigError } from './config-schema'
+export type { DetailConfig, FieldRule, ListConfig, SourceConfig, TableConfig } from './config-schema'
+
+export { registerScraper, getScraperRegistration, getRegisteredSources } from './registry'
+export type { ScraperRegistration } from './registry'
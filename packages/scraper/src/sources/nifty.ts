@@ -1,7 +1,13 @@
-import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource } from '@cat-home/shared'
-import type { ScraperConfig, ScrapeResult } from '../types'
+import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource, RoomSize } from '@cat-home/shared'
+import type { FieldSelectors, ScraperConfig } from '../types'
+import type { PaginationSelectors } from './base'
 import * as cheerio from 'cheerio'
 import { BaseScraper } from './base'
+import { parseNearestStations } from '../stations/access-parser'
+import { normalizeAddress } from '../utils/address-normalizer'
+import { parseBuildingFloors, parseRoomFloor } from '../utils/floor-parser'
+import { normalizeFloorPlan, parseRoomSizes } from '../utils/floor-plan-normalizer'
+import { parseMoneyTerm } from '../utils/money-parser'
 import { parsePetConditions } from '../utils/pet-condition-parser'
 
 interface ScrapedProperty {
@@ -23,12 +29,18 @@ export interface ScrapedDetailProperty {
   rent: number
   managementFee: number
   deposit: number
+  depositMonths: number | null
   keyMoney: number
+  keyMoneyMonths: number | null
+  guaranteeDeposit: number
+  depositAmortization: number
   floorPlan: string
+  roomSizes: RoomSize[]
   area: number
   yearBuilt: number | null
   buildingType: BuildingType | null
   floors: number | null
+  roomFloor: number | null
   direction: Direction | null
   nearestStations: NearestStation[]
   features: string[]
@@ -52,96 +64,80 @@ export interface ScrapedDetailProperty {
 export class NiftyScraper extends BaseScraper {
   readonly source = 'nifty' as const
 
+  /** ページ送り: 「次へ」リンクとページ番号リンク */
+  protected readonly pagination: PaginationSelectors = {
+    next: '.pagination a[rel="next"]',
+    pages: '.pagination li a',
+    pageParam: 'page',
+  }
+
+  /** 取得率レポート用のセレクタ（parseListHtml / parseDetailHtml の変更時に合わせて更新する） */
+  readonly fieldSelectors: FieldSelectors = {
+    name: { list: 'li.result-bukken-list h2 a', detail: '.property-title' },
+    address: { list: 'li.result-bukken-list svg title:contains("地図マーカー")', detail: 'table tr th:contains("所在地") + td' },
+    prefecture: { list: 'li.result-bukken-list svg title:contains("地図マーカー")', detail: 'table tr th:contains("所在地") + td' },
+    rent: { list: '.bukken-info-rent .text.is-xl', detail: '.price-value' },
+    area: { list: 'tbody.click-area td[data-link-wrap-item] p:nth-child(2)', detail: 'table tr th:contains("専有面積") + td' },
+    floorPlan: { list: 'tbody.click-area td[data-link-wrap-item] p:first-child', detail: 'table tr th:contains("間取り") + td' },
+    nearestStations: { detail: '.access-list li' },
+    petConditions: { detail: '.pet-table tr' },
+  }
+
   constructor(config: Partial<ScraperConfig> = {}) {
     super(config)
   }
 
   /**
-   * 物件一覧ページをスクレイピング
+   * 一覧ページのHTMLから物件情報を抽出
    */
-  async scrapeList(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const properties = this.parseListHtml(html)
-
-      return {
-        success: true,
-        properties: properties.map(p => this.toPartialProperty(p)),
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
+  protected parseListPage(html: string): Partial<Property>[] {
+    return this.parseListHtml(html).map(p => this.toPartialProperty(p))
   }
 
   /**
-   * 物件詳細ページをスクレイピング
+   * 物件詳細ページのHTMLから物件情報を抽出
    */
-  async scrapeDetail(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const detail = this.parseDetailHtml(html)
-
-      // 住所から都道府県・市区町村を抽出
-      const { prefecture, city } = this.parseAddress(detail.address)
-
-      // external_id を URL から抽出
-      const externalIdMatch = url.match(/detail_([a-f0-9]+)/)
-      const externalId = externalIdMatch ? externalIdMatch[1] : ''
-
-      const property: Partial<Property> = {
-        externalId,
-        source: this.source,
-        name: detail.name,
-        address: detail.address,
-        prefecture,
-        city,
-        rent: detail.rent,
-        managementFee: detail.managementFee,
-        deposit: detail.deposit,
-        keyMoney: detail.keyMoney,
-        floorPlan: detail.floorPlan,
-        area: detail.area,
-        buildingType: detail.buildingType,
-        floors: detail.floors,
-        yearBuilt: detail.yearBuilt,
-        petConditions: detail.petConditions,
-        features: detail.features,
-        nearestStations: detail.nearestStations,
-        images: detail.images,
-        direction: detail.direction,
-        sourceUrl: url,
-      }
+  protected parseDetailPage(html: string, url: string): Partial<Property> {
+    const detail = this.parseDetailHtml(html)
 
-      return {
-        success: true,
-        properties: [property],
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(detail.address)
+
+    // external_id を URL から抽出
+    const externalIdMatch = url.match(/detail_([a-f0-9]+)/)
+    const externalId = externalIdMatch ? externalIdMatch[1] : ''
+
+    return {
+      externalId,
+      source: this.source,
+      name: detail.name,
+      address: detail.address,
+      prefecture,
+      city,
+      ward,
+      town,
+      block,
+      rent: detail.rent,
+      managementFee: detail.managementFee,
+      deposit: detail.deposit,
+      depositMonths: detail.depositMonths,
+      keyMoney: detail.keyMoney,
+      keyMoneyMonths: detail.keyMoneyMonths,
+      guaranteeDeposit: detail.guaranteeDeposit,
+      depositAmortization: detail.depositAmortization,
+      floorPlan: detail.floorPlan,
+      roomSizes: detail.roomSizes,
+      area: detail.area,
+      buildingType: detail.buildingType,
+      floors: detail.floors,
+      roomFloor: detail.roomFloor,
+      yearBuilt: detail.yearBuilt,
+      petConditions: detail.petConditions,
+      features: detail.features,
+      nearestStations: detail.nearestStations,
+      images: detail.images,
+      direction: detail.direction,
+      sourceUrl: url,
     }
   }
 
@@ -164,14 +160,19 @@ export class NiftyScraper extends BaseScraper {
     const managementFeeText = this.extractTableValue($, '管理費・共益費')
     const managementFee = this.parseManagementFee(managementFeeText)
 
-    const depositText = this.extractTableValue($, '敷金')
-    const deposit = this.parseDepositWithRent(depositText, rent)
+    const depositTerm = parseMoneyTerm(this.extractTableValue($, '敷金'), { rent })
+    const keyMoneyTerm = parseMoneyTerm(this.extractTableValue($, '礼金'), { rent })
 
-    const keyMoneyText = this.extractTableValue($, '礼金')
-    const keyMoney = this.parseDepositWithRent(keyMoneyText, rent)
+    // 保証金・敷引・償却（割合表記は保証金、なければ敷金に対する割合）
+    const guaranteeDeposit = parseMoneyTerm(this.extractTableValue($, '保証金'), { rent }).amount
+    const depositAmortization = parseMoneyTerm(this.extractTableValue($, '敷引・償却'), {
+      rent,
+      base: guaranteeDeposit || depositTerm.amount,
+    }).amount
 
     // 間取り・面積
-    const floorPlan = this.extractTableValue($, '間取り')
+    const floorPlan = normalizeFloorPlan(this.extractTableValue($, '間取り'))
+    const roomSizes = parseRoomSizes(this.extractTableValue($, '間取り詳細'))
     const areaText = this.extractTableValue($, '専有面積')
     const areaMatch = areaText.match(/([0-9.]+)/)
     const area = areaMatch ? parseFloat(areaMatch[1]) : 0
@@ -184,16 +185,16 @@ export class NiftyScraper extends BaseScraper {
     const buildingTypeText = this.extractTableValue($, '建物種別')
     const buildingType = this.parseBuildingType(buildingTypeText)
 
-    // 階数
-    const structureText = this.extractTableValue($, '構造')
-    const floors = this.parseFloors(structureText)
+    // 建物の階数・所在階
+    const floors = parseBuildingFloors(this.extractTableValue($, '構造'))
+    const roomFloor = parseRoomFloor(this.extractTableValue($, '所在階'))
 
     // 向き
     const directionText = this.extractTableValue($, '向き')
     const direction = this.parseDirection(directionText)
 
     // 最寄り駅
-    const nearestStations = this.parseNearestStations($)
+    const nearestStations = parseNearestStations($('.access-list li').map((_, el) => $(el).text()).get())
 
     // 設備情報
     const features: string[] = []
@@ -213,21 +214,30 @@ export class NiftyScraper extends BaseScraper {
       }
     })
 
-    // ペット条件
+    // ペット条件（敷金欄の「ペット飼育時+1ヶ月」は追加敷金として補う）
     const petConditions = this.parsePetConditionsFromHtml($, rent)
+    if (petConditions && petConditions.additionalDeposit === null) {
+      petConditions.additionalDeposit = depositTerm.petSurcharge
+    }
 
     return {
       name,
       address,
       rent,
       managementFee,
-      deposit,
-      keyMoney,
+      deposit: depositTerm.amount,
+      depositMonths: depositTerm.months,
+      keyMoney: keyMoneyTerm.amount,
+      keyMoneyMonths: keyMoneyTerm.months,
+      guaranteeDeposit,
+      depositAmortization,
       floorPlan,
+      roomSizes,
       area,
       yearBuilt,
       buildingType,
       floors,
+      roomFloor,
       direction,
       nearestStations,
       features,
@@ -252,27 +262,6 @@ export class NiftyScraper extends BaseScraper {
     return value
   }
 
-  /**
-   * 敷金・礼金テキストを円に変換（「Nヶ月」形式対応）
-   */
-  private parseDepositWithRent(text: string, rent: number): number {
-    if (!text || text === '-' || text === 'なし') {
-      return 0
-    }
-    // 「Nヶ月」形式
-    const monthMatch = text.match(/(\d+)[ヶか]月/)
-    if (monthMatch) {
-      const months = parseInt(monthMatch[1], 10)
-      return rent * months
-    }
-    // 万円形式
-    const rentValue = this.parseRent(text)
-    if (rentValue > 0) {
-      return rentValue
-    }
-    return 0
-  }
-
   /**
    * 築年月テキストから築年を抽出
    * 例: "2019年9月" → 2019
@@ -294,16 +283,6 @@ export class NiftyScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 建物構造テキストから階数を抽出
-   * 例: "鉄骨鉄筋コンクリート造（SRC） 地上15階建" → 15
-   */
-  private parseFloors(text: string): number | null {
-    const match = text.match(/(\d+)階建/)
-    return match ? parseInt(match[1], 10) : null
-  }
-
-
   /** 日本語の向きを英語に変換 */
   private parseDirection(text: string): Direction | null {
     const directionMap: Record<string, Direction> = {
@@ -324,27 +303,6 @@ export class NiftyScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 最寄り駅情報を抽出
-   */
-  private parseNearestStations($: cheerio.CheerioAPI): NearestStation[] {
-    const stations: NearestStation[] = []
-    $('.access-list li').each((_, el) => {
-      const text = $(el).text().trim()
-      // 「都営大江戸線 都庁前駅 徒歩6分」のパターンを解析
-      const match = text.match(/(.+?)\s+(.+?駅)\s*徒歩(\d+)分/)
-      if (match) {
-        stations.push({
-          line: match[1].trim(),
-          station: match[2].trim(),
-          walkMinutes: parseInt(match[3], 10),
-          busMinutes: null,
-        })
-      }
-    })
-    return stations
-  }
-
   /**
    * HTMLからペット条件を抽出
    */
@@ -445,7 +403,7 @@ export class NiftyScraper extends BaseScraper {
         // 間取り・専有面積（テーブルセルから抽出）
         // data-link-wrap-item 属性付きセル: eq(0)=階数, eq(1)=間取り/面積, eq(2)=賃料
         const $layoutCell = $room.find('tr:first-child td[data-link-wrap-item]').eq(1)
-        const floorPlan = $layoutCell.find('p').eq(0).text().trim()
+        const floorPlan = normalizeFloorPlan($layoutCell.find('p').eq(0).text())
         const areaText = $layoutCell.find('p').eq(1).text().trim()
         const area = this.parseArea(areaText)
 
@@ -527,7 +485,7 @@ export class NiftyScraper extends BaseScraper {
    * ScrapedProperty を Partial<Property> に変換
    */
   private toPartialProperty(scraped: ScrapedProperty): Partial<Property> {
-    const { prefecture, city } = this.parseAddress(scraped.address)
+    const { prefecture, city, ward, town, block } = normalizeAddress(scraped.address)
 
     return {
       externalId: scraped.externalId,
@@ -536,6 +494,9 @@ export class NiftyScraper extends BaseScraper {
       address: scraped.address,
       prefecture,
       city,
+      ward,
+      town,
+      block,
       rent: scraped.rent,
       managementFee: scraped.managementFee,
       floorPlan: scraped.floorPlan,
@@ -543,23 +504,4 @@ export class NiftyScraper extends BaseScraper {
       sourceUrl: scraped.sourceUrl,
     }
   }
-
-  /**
-   * 住所から都道府県・市区町村を抽出
-   */
-  private parseAddress(address: string): { prefecture: string; city: string } {
-    // 都道府県を抽出（北海道、東京都、大阪府、京都府、〜県）
-    const prefectureMatch = address.match(
-      /^(北海道|東京都|大阪府|京都府|.{2,3}県)/,
-    )
-    const prefecture = prefectureMatch ? prefectureMatch[1] : ''
-
-    // 市区町村を抽出（〜市、〜区、〜町、〜村）
-    const cityMatch = address.match(
-      /(?:北海道|東京都|大阪府|京都府|.{2,3}県)(.+?[市区町村])/,
-    )
-    const city = cityMatch ? cityMatch[1] : ''
-
-    return { prefecture, city }
-  }
 }
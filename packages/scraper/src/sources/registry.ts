@@ -0,0 +1,120 @@
+import type { PropertySource } from '@cat-home/shared'
+import type { SearchUrlBuilder } from '../areas/search-urls'
+import type { CoverageThresholds, ScraperConfig } from '../types'
+import type { BaseScraper } from './base'
+import {
+  buildAthomeSearchUrl,
+  buildChintaiSearchUrl,
+  buildDoorSearchUrl,
+  buildHomesSearchUrl,
+  buildNiftySearchUrl,
+  buildSchemaOrgSearchUrls,
+  buildSuumoSearchUrl,
+} from '../areas/search-urls'
+import { AthomeScraper } from './athome'
+import { ChintaiScraper } from './chintai'
+import { DoorScraper } from './door'
+import { HomesScraper } from './homes'
+import { NiftyScraper } from './nifty'
+import { SchemaOrgScraper } from './schema-org'
+import { SuumoScraper } from './suumo'
+
+/** スクレイパーの登録情報 */
+export interface ScraperRegistration {
+  /** データソース名 */
+  source: PropertySource
+  /** ログ表示用のサイト名 */
+  label: string
+  /** 対象エリアの検索URL（猫・ペット可で絞り込み済み）を生成 */
+  buildSearchUrl: SearchUrlBuilder
+  /** ソース固有のデフォルト設定 */
+  config?: Partial<ScraperConfig>
+  /** 実行開始時に表示する注意書き */
+  notice?: string
+  /** 項目ごとの最低取得率（DEFAULT_COVERAGE_THRESHOLDS を上書き） */
+  coverageThresholds?: CoverageThresholds
+  /** スクレイパーを生成 */
+  create: (config?: Partial<ScraperConfig>) => BaseScraper
+}
+
+const registry = new Map<PropertySource, ScraperRegistration>()
+
+/**
+ * スクレイパーを登録する
+ *
+ * 新しいデータソースを追加する場合はここに登録するだけで `scrape` コマンドから実行できる
+ */
+export function registerScraper(registration: ScraperRegistration): void {
+  registry.set(registration.source, registration)
+}
+
+/** 登録済みのスクレイパー情報を取得 */
+export function getScraperRegistration(source: PropertySource): ScraperRegistration | undefined {
+  return registry.get(source)
+}
+
+/** 登録済みのデータソース一覧（登録順） */
+export function getRegisteredSources(): PropertySource[] {
+  return [...registry.keys()]
+}
+
+registerScraper({
+  source: 'suumo',
+  label: 'SUUMO',
+  buildSearchUrl: buildSuumoSearchUrl,
+  config: { requestDelay: 5000, maxConcurrent: 2 },
+  create: config => new SuumoScraper(config),
+})
+
+registerScraper({
+  source: 'homes',
+  label: 'HOME\'S',
+  buildSearchUrl: buildHomesSearchUrl,
+  config: { requestDelay: 5000, maxConcurrent: 2 },
+  create: config => new HomesScraper(config),
+})
+
+registerScraper({
+  source: 'door',
+  label: 'DOOR賃貸',
+  buildSearchUrl: buildDoorSearchUrl,
+  config: { requestDelay: 5000, maxConcurrent: 2 },
+  create: config => new DoorScraper(config),
+})
+
+registerScraper({
+  source: 'chintai',
+  label: 'CHINTAIネット',
+  buildSearchUrl: buildChintaiSearchUrl,
+  config: { requestDelay: 5000, maxConcurrent: 2 },
+  create: config => new ChintaiScraper(config),
+})
+
+registerScraper({
+  source: 'nifty',
+  label: 'ニフティ不動産',
+  buildSearchUrl: buildNiftySearchUrl,
+  config: { requestDelay: 5000, maxConcurrent: 2 },
+  notice: 'ニフティ不動産はアグリゲーターのため、SUUMO/HOME\'S/athome などと重複データの可能性があります',
+  // 掲載元によって詳細ページの記載項目が異なるため、詳細ページの項目は低めにする
+  coverageThresholds: { nearestStations: 0.5, petConditions: 0.3 },
+  create: config => new NiftyScraper(config),
+})
+
+registerScraper({
+  source: 'athome',
+  label: 'アットホーム',
+  buildSearchUrl: buildAthomeSearchUrl,
+  config: { requestDelay: 5000, maxConcurrent: 2 },
+  create: config => new AthomeScraper(config),
+})
+
+registerScraper({
+  source: 'other',
+  label: 'その他（構造化データ）',
+  buildSearchUrl: buildSchemaOrgSearchUrls,
+  config: { requestDelay: 5000, maxConcurrent: 1 },
+  // 構造化データに交通・ペット条件を記載していないサイトも多いため低めにする
+  coverageThresholds: { floorPlan: 0.5, nearestStations: 0, petConditions: 0.3 },
+  create: config => new SchemaOrgScraper(config),
+})
@@ -0,0 +1,328 @@
+import type { PetConditions, Property } from '@cat-home/shared'
+import type { FieldSelectors, ScraperConfig } from '../types'
+import type { SchemaOrgListing, SchemaOrgNode } from '../utils/schema-org'
+import type { PaginationSelectors } from './base'
+import { BaseScraper } from './base'
+import { normalizeAddress } from '../utils/address-normalizer'
+import { parseBuildingFloors, parseRoomFloor } from '../utils/floor-parser'
+import { normalizeFloorPlan } from '../utils/floor-plan-normalizer'
+import { parseYen } from '../utils/money-parser'
+import { parsePetConditions } from '../utils/pet-condition-parser'
+import { extractSchemaOrgNodes, findSchemaOrgListings, getText, isNode, toArray } from '../utils/schema-org'
+
+/** 物件名・説明文に含まれる間取り（例: "猫と暮らす1LDK" → 1LDK） */
+const FLOOR_PLAN_PATTERN = /\d+S?(?:LDK|LK|DK|K)(?:\+S)?|ワンルーム|1R/
+
+/** 管理費・共益費を表す価格の名前 */
+const MANAGEMENT_FEE_PATTERN = /管理費|共益費/
+
+/** ペット飼育に関する記載 */
+const PET_PATTERN = /ペット|猫|ネコ|ねこ|犬|動物/
+
+/** 設備（amenityFeature）が「なし」を表す値 */
+const UNAVAILABLE_VALUES: unknown[] = [false, 'False', 'false']
+
+/** JSON-LD・microdata から抽出した物件情報 */
+export interface SchemaOrgProperty {
+  name: string
+  address: string
+  rent: number
+  managementFee: number
+  floorPlan: string
+  area: number
+  yearBuilt: number | null
+  floors: number | null
+  roomFloor: number | null
+  features: string[]
+  images: string[]
+  petConditions: PetConditions | null
+  sourceUrl: string
+  externalId: string
+}
+
+/**
+ * schema.org（JSON-LD・microdata）の物件情報スクレイパー
+ *
+ * Apartment・House などの物件と Offer（賃料）を構造化データで掲載しているサイトを
+ * セレクタを書かずに取得する。個人経営の猫専門の不動産会社などをまとめて 'other' として扱うため、
+ * external_id はサイトのホスト名を付けて重複しないようにする
+ *
+ * @example
+ * ```ts
+ * const scraper = new SchemaOrgScraper()
+ * const result = await scraper.scrapeList('https://example-neko-fudosan.jp/rent/')
+ * console.log(result.properties)
+ * ```
+ */
+export class SchemaOrgScraper extends BaseScraper {
+  readonly source = 'other' as const
+
+  /** ページ送り: rel="next" のリンク（link 要素は BaseScraper が補完する） */
+  protected readonly pagination: PaginationSelectors = {
+    next: 'a[rel="next"]',
+    pageParam: 'page',
+  }
+
+  /** 取得率レポート用のセレクタ（構造化データから取得するため、どの項目も JSON-LD・microdata を指す） */
+  readonly fieldSelectors: FieldSelectors = {
+    name: { list: 'script[type="application/ld+json"], [itemscope]' },
+    rent: { list: 'script[type="application/ld+json"], [itemscope]' },
+    petConditions: { detail: 'script[type="application/ld+json"], [itemscope]' },
+  }
+
+  constructor(config: Partial<ScraperConfig> = {}) {
+    super(config)
+  }
+
+  /**
+   * 一覧ページのHTMLから物件情報を抽出
+   */
+  protected parseListPage(html: string, url: string): Partial<Property>[] {
+    return this.parseListHtml(html, url).map(p => this.toPartialProperty(p))
+  }
+
+  /**
+   * 物件詳細ページのHTMLから物件情報を抽出
+   */
+  protected parseDetailPage(html: string, url: string): Partial<Property> {
+    const detail = this.parseDetailHtml(html, url)
+    if (!detail) {
+      return { source: this.source, sourceUrl: url }
+    }
+    return { ...this.toPartialProperty(detail), sourceUrl: url }
+  }
+
+  /**
+   * 一覧ページのHTMLに埋め込まれた構造化データから物件情報を抽出する
+   *
+   * @param html - 一覧ページのHTML
+   * @param pageUrl - ページのURL。相対URLの解決に使用
+   */
+  parseListHtml(html: string, pageUrl?: string): SchemaOrgProperty[] {
+    const properties: SchemaOrgProperty[] = []
+    for (const listing of findSchemaOrgListings(extractSchemaOrgNodes(html))) {
+      const property = this.toSchemaOrgProperty(listing, pageUrl)
+      // URL がない物件は external_id を決められないため保存できない
+      if (!property.externalId) {
+        console.warn(`⚠️ externalId が取得できませんでした: name="${property.name}"`)
+        continue
+      }
+      properties.push(property)
+    }
+    return properties
+  }
+
+  /**
+   * 物件詳細ページのHTMLに埋め込まれた構造化データから物件情報を抽出する
+   *
+   * 関連物件なども含めて複数の物件がある場合は URL が一致する物件、なければ最初の物件を使う。
+   * 物件に URL の記載がない場合は詳細ページの URL とする
+   */
+  parseDetailHtml(html: string, url: string): SchemaOrgProperty | null {
+    const properties = findSchemaOrgListings(extractSchemaOrgNodes(html))
+      .map(listing => this.toSchemaOrgProperty(listing, url, url))
+    return properties.find(p => p.sourceUrl === url) ?? properties[0] ?? null
+  }
+
+  /**
+   * schema.org の物件と募集条件を物件情報に変換
+   */
+  private toSchemaOrgProperty(
+    { item, offer, listing }: SchemaOrgListing,
+    pageUrl?: string,
+    defaultUrl = '',
+  ): SchemaOrgProperty {
+    const name = getText(item.name) || getText(listing?.name) || getText(offer?.name)
+    const description = [item.description, listing?.description, offer?.description]
+      .map(getText)
+      .filter(Boolean)
+      .join('\n')
+    const building = toArray(item.containedInPlace).find(isNode)
+
+    const { rent, managementFee } = this.parsePrices(offer)
+    const url = getText(item.url) || getText(offer?.url) || getText(listing?.url) || defaultUrl
+    const sourceUrl = url && pageUrl ? new URL(url, pageUrl).toString() : url
+
+    const floorPlanText = getText(item.accommodationFloorPlan) || name || description
+    const floorPlanMatch = floorPlanText.normalize('NFKC').match(FLOOR_PLAN_PATTERN)
+
+    return {
+      name,
+      address: this.parseAddress(item.address ?? building?.address ?? offer?.availableAtOrFrom),
+      rent,
+      managementFee,
+      floorPlan: floorPlanMatch ? normalizeFloorPlan(floorPlanMatch[0]) : '',
+      area: parseFloat(getText(item.floorSize)) || 0,
+      yearBuilt: parseInt(getText(item.yearBuilt ?? building?.yearBuilt), 10) || null,
+      floors: parseBuildingFloors(description),
+      roomFloor: this.parseFloorLevel(getText(item.floorLevel)),
+      features: toArray(item.amenityFeature)
+        .filter(isAvailable)
+        .map(getText)
+        .filter(Boolean),
+      images: toArray(item.image ?? item.photo ?? listing?.image)
+        .map(image => (isNode(image) ? getText(image.contentUrl ?? image.url) : getText(image)))
+        .map(src => (src && pageUrl ? new URL(src, pageUrl).toString() : src))
+        .filter(src => src.startsWith('http')),
+      petConditions: this.parsePetConditionsFromItem(item, description, rent),
+      sourceUrl,
+      externalId: this.toExternalId(getText(item.identifier ?? offer?.sku), sourceUrl),
+    }
+  }
+
+  /**
+   * 募集条件から賃料・管理費を抽出
+   *
+   * priceSpecification が複数ある場合は名前で管理費・共益費を判別し、残りを賃料とする
+   */
+  private parsePrices(offer: SchemaOrgNode | null): { rent: number; managementFee: number } {
+    if (!offer) {
+      return { rent: 0, managementFee: 0 }
+    }
+
+    let rent = this.parsePrice(offer.price)
+    let managementFee = 0
+    for (const spec of toArray(offer.priceSpecification).filter(isNode)) {
+      const price = this.parsePrice(spec.price)
+      if (MANAGEMENT_FEE_PATTERN.test(getText(spec.name))) {
+        managementFee = price
+      }
+      else if (!rent) {
+        rent = price
+      }
+    }
+    return { rent, managementFee }
+  }
+
+  /**
+   * 価格を円に変換（数値・"85000"・"8.5万円" に対応）
+   */
+  private parsePrice(value: unknown): number {
+    const text = getText(value)
+    return /^\d+(?:\.\d+)?$/.test(text) ? Math.round(parseFloat(text)) : parseYen(text)
+  }
+
+  /**
+   * 住所を文字列に変換
+   *
+   * PostalAddress は都道府県（addressRegion）・市区町村（addressLocality）・番地（streetAddress）の順に連結する
+   */
+  private parseAddress(value: unknown): string {
+    const address = toArray(value)[0]
+    if (!isNode(address)) {
+      return getText(address)
+    }
+    if (isNode(address.address)) {
+      return this.parseAddress(address.address)
+    }
+    return [address.addressRegion, address.addressLocality, address.streetAddress]
+      .map(getText)
+      .join('')
+  }
+
+  /**
+   * floorLevel を所在階に変換（"3"・"3階"・"B1" に対応）
+   */
+  private parseFloorLevel(text: string): number | null {
+    if (/^-?\d+$/.test(text)) {
+      return parseInt(text, 10)
+    }
+    return parseRoomFloor(text)
+  }
+
+  /**
+   * ペット条件を抽出
+   *
+   * petsAllowed（真偽値またはテキスト）と、設備・説明文のうちペットに関する記載を条件として扱う
+   */
+  private parsePetConditionsFromItem(item: SchemaOrgNode, description: string, rent: number): PetConditions | null {
+    const conditions: string[] = []
+
+    const petsAllowed = toArray(item.petsAllowed)[0]
+    if (petsAllowed === true || petsAllowed === 'True' || petsAllowed === 'true') {
+      conditions.push('ペット可')
+    }
+    else if (UNAVAILABLE_VALUES.includes(petsAllowed)) {
+      conditions.push('ペット不可')
+    }
+    else if (getText(petsAllowed)) {
+      conditions.push(getText(petsAllowed))
+    }
+
+    for (const feature of toArray(item.amenityFeature)) {
+      const featureName = getText(feature)
+      if (PET_PATTERN.test(featureName) && isAvailable(feature)) {
+        conditions.push(featureName)
+      }
+    }
+
+    // 構造化データに記載がなければ説明文からペットに関する文を拾う
+    if (conditions.length === 0) {
+      conditions.push(...description.split(/[。\n]/).filter(sentence => PET_PATTERN.test(sentence)))
+    }
+
+    if (conditions.length === 0) {
+      return null
+    }
+
+    return parsePetConditions(conditions, rent, description || undefined)
+  }
+
+  /**
+   * external_id を生成
+   *
+   * 'other' には複数のサイトの物件が入るため、ホスト名を付けてサイト間で重複しないようにする。
+   * 物件番号（identifier・sku）がなければ URL のパスを使う
+   */
+  private toExternalId(identifier: string, sourceUrl: string): string {
+    if (!sourceUrl) {
+      return ''
+    }
+    try {
+      const url = new URL(sourceUrl)
+      const id = identifier || `${url.pathname.replace(/\/$/, '')}${url.search}`
+      return `${url.hostname}:${id}`
+    }
+    catch {
+      return ''
+    }
+  }
+
+  /**
+   * SchemaOrgProperty を Partial<Property> に変換
+   */
+  private toPartialProperty(scraped: SchemaOrgProperty): Partial<Property> {
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(scraped.address)
+
+    return {
+      externalId: scraped.externalId,
+      source: this.source,
+      name: scraped.name,
+      address: scraped.address,
+      prefecture,
+      city,
+      ward,
+      town,
+      block,
+      rent: scraped.rent,
+      managementFee: scraped.managementFee,
+      floorPlan: scraped.floorPlan,
+      area: scraped.area,
+      yearBuilt: scraped.yearBuilt,
+      floors: scraped.floors,
+      roomFloor: scraped.roomFloor,
+      features: scraped.features,
+      images: scraped.images,
+      petConditions: scraped.petConditions,
+      sourceUrl: scraped.sourceUrl,
+    }
+  }
+}
+
+/**
+ * 設備（LocationFeatureSpecification）が「あり」かどうか
+ */
+function isAvailable(feature: unknown): boolean {
+  return !isNode(feature) || !UNAVAILABLE_VALUES.includes(feature.value)
+}
@@ -1,7 +1,13 @@
-import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource } from '@cat-home/shared'
-import type { ScraperConfig, ScrapeResult } from '../types'
+import type { BuildingType, Direction, NearestStation, PetConditions, Property, PropertySource, RoomSize } from '@cat-home/shared'
+import type { FieldSelectors, ScraperConfig } from '../types'
+import type { PaginationSelectors } from './base'
 import * as cheerio from 'cheerio'
 import { BaseScraper } from './base'
+import { parseNearestStations } from '../stations/access-parser'
+import { normalizeAddress } from '../utils/address-normalizer'
+import { parseBuildingFloors, parseRoomFloor } from '../utils/floor-parser'
+import { normalizeFloorPlan, parseRoomSizes } from '../utils/floor-plan-normalizer'
+import { parseMoneyTerm } from '../utils/money-parser'
 import { parsePetConditions } from '../utils/pet-condition-parser'
 
 interface ScrapedProperty {
@@ -23,12 +29,18 @@ export interface ScrapedDetailProperty {
   rent: number
   managementFee: number
   deposit: number
+  depositMonths: number | null
   keyMoney: number
+  keyMoneyMonths: number | null
+  guaranteeDeposit: number
+  depositAmortization: number
   floorPlan: string
+  roomSizes: RoomSize[]
   area: number
   yearBuilt: number | null
   buildingType: BuildingType | null
   floors: number | null
+  roomFloor: number | null
   direction: Direction | null
   nearestStations: NearestStation[]
   features: string[]
@@ -51,96 +63,80 @@ const SUUMO_BASE_URL = 'https://suumo.jp'
 export class SuumoScraper extends BaseScraper {
   readonly source = 'suumo' as const
 
+  /** ページ送り: 「次へ」リンクとページ番号リンク */
+  protected readonly pagination: PaginationSelectors = {
+    next: '.pagination-parts a:contains("次へ")',
+    pages: '.pagination-parts li a',
+    pageParam: 'page',
+  }
+
+  /** 取得率レポート用のセレクタ（parseListHtml / parseDetailHtml の変更時に合わせて更新する） */
+  readonly fieldSelectors: FieldSelectors = {
+    name: { list: '.cassetteitem_content-title', detail: '.section_h1-header-title-text' },
+    address: { list: '.cassetteitem_detail-col1', detail: 'table tr th:contains("所在地") + td' },
+    prefecture: { list: '.cassetteitem_detail-col1', detail: 'table tr th:contains("所在地") + td' },
+    rent: { list: '.cassetteitem_price--rent .cassetteitem_other-emphasis', detail: '.property_view_detail-emphasis' },
+    area: { list: '.cassetteitem_menseki', detail: 'table tr th:contains("専有面積") + td' },
+    floorPlan: { list: '.cassetteitem_madori', detail: 'table tr th:contains("間取り") + td' },
+    nearestStations: { detail: 'table tr th:contains("交通") + td' },
+    petConditions: { detail: 'table tr th:contains("ペット") + td li' },
+  }
+
   constructor(config: Partial<ScraperConfig> = {}) {
     super(config)
   }
 
   /**
-   * 物件一覧ページをスクレイピング
+   * 一覧ページのHTMLから物件情報を抽出
    */
-  async scrapeList(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const properties = this.parseListHtml(html)
-
-      return {
-        success: true,
-        properties: properties.map(p => this.toPartialProperty(p)),
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
+  protected parseListPage(html: string): Partial<Property>[] {
+    return this.parseListHtml(html).map(p => this.toPartialProperty(p))
   }
 
   /**
-   * 物件詳細ページをスクレイピング
+   * 物件詳細ページのHTMLから物件情報を抽出
    */
-  async scrapeDetail(url: string): Promise<ScrapeResult> {
-    const startTime = Date.now()
-
-    try {
-      await this.respectRateLimit()
-      const html = await this.fetchWithRetry(url)
-      const detail = this.parseDetailHtml(html)
-
-      // 住所から都道府県・市区町村を抽出
-      const { prefecture, city } = this.parseAddress(detail.address)
-
-      // external_id を URL から抽出
-      const externalIdMatch = url.match(/\/chintai\/(jnc_[^/]+)\//)
-      const externalId = externalIdMatch ? externalIdMatch[1] : ''
-
-      const property: Partial<Property> = {
-        externalId,
-        source: this.source,
-        name: detail.name,
-        address: detail.address,
-        prefecture,
-        city,
-        rent: detail.rent,
-        managementFee: detail.managementFee,
-        deposit: detail.deposit,
-        keyMoney: detail.keyMoney,
-        floorPlan: detail.floorPlan,
-        area: detail.area,
-        buildingType: detail.buildingType,
-        floors: detail.floors,
-        yearBuilt: detail.yearBuilt,
-        direction: detail.direction,
-        petConditions: detail.petConditions,
-        features: detail.features,
-        nearestStations: detail.nearestStations,
-        images: detail.images,
-        sourceUrl: url,
-      }
+  protected parseDetailPage(html: string, url: string): Partial<Property> {
+    const detail = this.parseDetailHtml(html)
 
-      return {
-        success: true,
-        properties: [property],
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
-    }
-    catch (error) {
-      return {
-        success: false,
-        properties: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: this.source,
-        duration: Date.now() - startTime,
-      }
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(detail.address)
+
+    // external_id を URL から抽出
+    const externalIdMatch = url.match(/\/chintai\/(jnc_[^/]+)\//)
+    const externalId = externalIdMatch ? externalIdMatch[1] : ''
+
+    return {
+      externalId,
+      source: this.source,
+      name: detail.name,
+      address: detail.address,
+      prefecture,
+      city,
+      ward,
+      town,
+      block,
+      rent: detail.rent,
+      managementFee: detail.managementFee,
+      deposit: detail.deposit,
+      depositMonths: detail.depositMonths,
+      keyMoney: detail.keyMoney,
+      keyMoneyMonths: detail.keyMoneyMonths,
+      guaranteeDeposit: detail.guaranteeDeposit,
+      depositAmortization: detail.depositAmortization,
+      floorPlan: detail.floorPlan,
+      roomSizes: detail.roomSizes,
+      area: detail.area,
+      buildingType: detail.buildingType,
+      floors: detail.floors,
+      roomFloor: detail.roomFloor,
+      yearBuilt: detail.yearBuilt,
+      direction: detail.direction,
+      petConditions: detail.petConditions,
+      features: detail.features,
+      nearestStations: detail.nearestStations,
+      images: detail.images,
+      sourceUrl: url,
     }
   }
 
@@ -202,7 +198,7 @@ export class SuumoScraper extends BaseScraper {
         const managementFee = this.parseManagementFee(managementFeeText)
 
         // 間取り
-        const floorPlan = $room.find('.cassetteitem_madori').text().trim()
+        const floorPlan = normalizeFloorPlan($room.find('.cassetteitem_madori').text())
 
         // 専有面積
         const areaText = $room.find('.cassetteitem_menseki').text().trim()
@@ -277,14 +273,19 @@ export class SuumoScraper extends BaseScraper {
     const managementFeeText = this.extractTableValue($, '管理費・共益費')
     const managementFee = this.parseManagementFee(managementFeeText)
 
-    const depositText = this.extractTableValue($, '敷金')
-    const deposit = this.parseRent(depositText)
+    const depositTerm = parseMoneyTerm(this.extractTableValue($, '敷金'), { rent })
+    const keyMoneyTerm = parseMoneyTerm(this.extractTableValue($, '礼金'), { rent })
 
-    const keyMoneyText = this.extractTableValue($, '礼金')
-    const keyMoney = this.parseRent(keyMoneyText)
+    // 保証金・敷引・償却（割合表記は保証金、なければ敷金に対する割合）
+    const guaranteeDeposit = parseMoneyTerm(this.extractTableValue($, '保証金'), { rent }).amount
+    const depositAmortization = parseMoneyTerm(this.extractTableValue($, '敷引・償却'), {
+      rent,
+      base: guaranteeDeposit || depositTerm.amount,
+    }).amount
 
     // 間取り・面積
-    const floorPlan = this.extractTableValue($, '間取り')
+    const floorPlan = normalizeFloorPlan(this.extractTableValue($, '間取り'))
+    const roomSizes = parseRoomSizes(this.extractTableValue($, '間取り詳細'))
     const areaText = this.extractTableValue($, '専有面積')
     const area = parseFloat(areaText) || 0
 
@@ -296,9 +297,9 @@ export class SuumoScraper extends BaseScraper {
     const buildingTypeText = this.extractTableValue($, '建物種別')
     const buildingType = this.parseBuildingType(buildingTypeText)
 
-    // 階数
-    const structureText = this.extractTableValue($, '建物構造')
-    const floors = this.parseFloors(structureText)
+    // 建物の階数・所在階
+    const floors = parseBuildingFloors(this.extractTableValue($, '建物構造'))
+    const roomFloor = parseRoomFloor(this.extractTableValue($, '階建 / 階'))
 
     // 向き
     const directionText = this.extractTableValue($, '向き')
@@ -306,7 +307,7 @@ export class SuumoScraper extends BaseScraper {
 
     // 最寄り駅
     const transportText = this.extractTableValue($, '交通')
-    const nearestStations = this.parseNearestStations(transportText)
+    const nearestStations = parseNearestStations(transportText)
 
     // 設備情報
     const features: string[] = []
@@ -326,21 +327,30 @@ export class SuumoScraper extends BaseScraper {
       }
     })
 
-    // ペット条件
+    // ペット条件（敷金欄の「ペット飼育時+1ヶ月」は追加敷金として補う）
     const petConditions = this.parsePetConditionsFromHtml($, rent)
+    if (petConditions && petConditions.additionalDeposit === null) {
+      petConditions.additionalDeposit = depositTerm.petSurcharge
+    }
 
     return {
       name,
       address,
       rent,
       managementFee,
-      deposit,
-      keyMoney,
+      deposit: depositTerm.amount,
+      depositMonths: depositTerm.months,
+      keyMoney: keyMoneyTerm.amount,
+      keyMoneyMonths: keyMoneyTerm.months,
+      guaranteeDeposit,
+      depositAmortization,
       floorPlan,
+      roomSizes,
       area,
       yearBuilt,
       buildingType,
       floors,
+      roomFloor,
       direction,
       nearestStations,
       features,
@@ -386,15 +396,6 @@ export class SuumoScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 建物構造テキストから階数を抽出
-   * 例: "RC / 10階建" → 10
-   */
-  private parseFloors(text: string): number | null {
-    const match = text.match(/(\d+)階建/)
-    return match ? parseInt(match[1], 10) : null
-  }
-
   /**
    * 向きテキストを Direction に変換
    * 例: "南" → 'south', "南東" → 'southeast'
@@ -416,30 +417,6 @@ export class SuumoScraper extends BaseScraper {
     return null
   }
 
-  /**
-   * 交通情報テキストから最寄り駅情報を抽出
-   * 例: "JR山手線/渋谷駅 歩5分" → { line: 'JR山手線', station: '渋谷駅', walkMinutes: 5 }
-   */
-  private parseNearestStations(text: string): NearestStation[] {
-    const stations: NearestStation[] = []
-    // 複数の駅情報を分割（改行やスペースで区切られている可能性）
-    const lines = text.split(/[\n\r]+/).filter(s => s.trim())
-
-    for (const line of lines) {
-      const match = line.match(/(.+?)\/(.+?駅)\s*歩(\d+)分/)
-      if (match) {
-        stations.push({
-          line: match[1].trim(),
-          station: match[2].trim(),
-          walkMinutes: parseInt(match[3], 10),
-          busMinutes: null,
-        })
-      }
-    }
-
-    return stations
-  }
-
   /**
    * HTMLからペット条件を抽出
    */
@@ -477,8 +454,8 @@ export class SuumoScraper extends BaseScraper {
    * ScrapedProperty を Partial<Property> に変換
    */
   private toPartialProperty(scraped: ScrapedProperty): Partial<Property> {
-    // 住所から都道府県・市区町村を抽出
-    const { prefecture, city } = this.parseAddress(scraped.address)
+    // 住所を都道府県・市区町村・町域・番地に分割
+    const { prefecture, city, ward, town, block } = normalizeAddress(scraped.address)
 
     return {
       externalId: scraped.externalId,
@@ -487,6 +464,9 @@ export class SuumoScraper extends BaseScraper {
       address: scraped.address,
       prefecture,
       city,
+      ward,
+      town,
+      block,
       rent: scraped.rent,
       managementFee: scraped.managementFee,
       floorPlan: scraped.floorPlan,
@@ -494,23 +474,4 @@ export class SuumoScraper extends BaseScraper {
       sourceUrl: scraped.sourceUrl,
     }
   }
-
-  /**
-   * 住所から都道府県・市区町村を抽出
-   */
-  private parseAddress(address: string): { prefecture: string; city: string } {
-    // 都道府県を抽出（北海道、東京都、大阪府、京都府、〜県）
-    const prefectureMatch = address.match(
-      /^(北海道|東京都|大阪府|京都府|.{2,3}県)/,
-    )
-    const prefecture = prefectureMatch ? prefectureMatch[1] : ''
-
-    // 市区町村を抽出（〜市、〜区、〜町、〜村）
-    const cityMatch = address.match(
-      /(?:北海道|東京都|大阪府|京都府|.{2,3}県)(.+?[市区町村])/,
-    )
-    const city = cityMatch ? cityMatch[1] : ''
-
-    return { prefecture, city }
-  }
 }
@@ -0,0 +1,125 @@
+import type { NearestStation } from '@cat-home/shared'
+import type { RailLine, Station } from './types'
+import { RAIL_LINES, STATIONS } from './master'
+
+/** 路線・駅の照合結果 */
+export interface ResolvedStation {
+  /** 路線名（路線マスタにある場合は正式な表記） */
+  line: string
+  /** 駅名（「駅」は含めない） */
+  station: string
+  lineId: string | null
+  stationId: string | null
+}
+
+const linesByName = indexLines(RAIL_LINES)
+const stationsByName = indexStations(STATIONS)
+
+/**
+ * 交通情報のテキストを最寄り駅情報に変換する
+ *
+ * 1行に1駅の形式で、次の表記に対応する
+ * - `JR山手線/渋谷駅 歩5分`（SUUMO・DOOR賃貸）
+ * - `JR山手線 渋谷駅 徒歩5分`（HOME'S・CHINTAI など）
+ * - `ＪＲ山手線「渋谷」駅 徒歩5分`
+ * - `東急東横線/中目黒駅 バス10分 (バス停)中目黒二丁目 歩3分`
+ *
+ * バスを利用する場合、walkMinutes はバス停からの徒歩分数になる
+ *
+ * @param text - 交通情報のテキスト（改行区切り）またはその配列
+ *
+ * @example
+ * ```ts
+ * parseNearestStations('ＪＲ山手線/渋谷駅 歩5分')
+ * // => [{ line: 'JR山手線', station: '渋谷', walkMinutes: 5, busMinutes: null, lineId: 'jr-yamanote', stationId: 'shibuya' }]
+ * ```
+ */
+export function parseNearestStations(text: string | string[]): NearestStation[] {
+  const entries = (Array.isArray(text) ? text : [text])
+    .flatMap(t => t.split(/[\n\r]+/))
+    .map(t => t.normalize('NFKC').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+
+  const stations: NearestStation[] = []
+  for (const entry of entries) {
+    const station = parseAccessEntry(entry)
+    if (station) {
+      stations.push(station)
+    }
+  }
+  return stations
+}
+
+/**
+ * 路線名・駅名をマスタと照合し、正式な表記とIDを返す
+ *
+ * 同名の駅が複数ある場合は路線が一致する駅を選ぶ。マスタにない場合は ID が null になる
+ */
+export function resolveStation(line: string, station: string): ResolvedStation {
+  const railLine = linesByName.get(normalizeLineName(line))
+  const candidates = stationsByName.get(normalizeStationName(station)) ?? []
+  const matched = candidates.find(s => railLine && s.lineIds.includes(railLine.id))
+    ?? (candidates.length === 1 ? candidates[0] : undefined)
+
+  return {
+    line: railLine?.name ?? line.normalize('NFKC').trim(),
+    station: matched?.name ?? station.normalize('NFKC').trim().replace(/駅$/, ''),
+    lineId: railLine?.id ?? null,
+    stationId: matched?.id ?? null,
+  }
+}
+
+/**
+ * 1駅分の交通情報を解析
+ */
+function parseAccessEntry(entry: string): NearestStation | null {
+  const match = entry.match(/^(.*?)\s*\/?\s*「(.+?)」駅?/)
+    ?? entry.match(/^(.+?)\s*\/\s*(.+?)駅/)
+    ?? entry.match(/^(.+?)\s+(\S+?)駅/)
+    ?? entry.match(/^()(\S+?)駅/)
+  if (!match) {
+    return null
+  }
+
+  const walk = entry.match(/歩\s*(\d+)\s*分/)
+  const bus = entry.match(/バス\s*(\d+)\s*分/)
+
+  return {
+    ...resolveStation(match[1], match[2]),
+    walkMinutes: walk ? parseInt(walk[1], 10) : null,
+    busMinutes: bus ? parseInt(bus[1], 10) : null,
+  }
+}
+
+/**
+ * 路線名の比較用キー（全角・半角と空白の違いを無視する）
+ */
+function normalizeLineName(name: string): string {
+  return name.normalize('NFKC').replace(/\s+/g, '')
+}
+
+/**
+ * 駅名の比較用キー（「ヶ」「ケ」などの表記ゆれと末尾の「駅」を無視する）
+ */
+function normalizeStationName(name: string): string {
+  return name.normalize('NFKC').replace(/\s+/g, '').replace(/[ヶヵが]/g, 'ケ').replace(/駅$/, '')
+}
+
+function indexLines(lines: readonly RailLine[]): Map<string, RailLine> {
+  const index = new Map<string, RailLine>()
+  for (const line of lines) {
+    for (const name of [line.name, ...line.aliases]) {
+      index.set(normalizeLineName(name), line)
+    }
+  }
+  return index
+}
+
+function indexStations(stations: readonly Station[]): Map<string, Station[]> {
+  const index = new Map<string, Station[]>()
+  for (const station of stations) {
+    const key = normalizeStationName(station.name)
+    index.set(key, [...(index.get(key) ?? []), station])
+  }
+  return index
+}
@@ -0,0 +1,4 @@
+export { parseNearestStations, resolveStation } from './access-parser'
+export type { ResolvedStation } from './access-parser'
+export { RAIL_LINES, STATIONS } from './master'
+export type { RailLine, Station } from './types'
@@ -0,0 +1,102 @@
+import type { RailLine, Station } from './types'
+
+/**
+ * 路線マスタ
+ *
+ * 首都圏の主要路線のみ収録（必要に応じて追加する）
+ */
+export const RAIL_LINES: readonly RailLine[] = [
+  { id: 'jr-yamanote', name: 'JR山手線', aliases: ['山手線', 'JR東日本山手線'] },
+  { id: 'jr-chuo-rapid', name: 'JR中央線', aliases: ['中央線', 'JR中央線快速', '中央線快速', 'JR中央本線', '中央本線'] },
+  { id: 'jr-chuo-sobu', name: 'JR中央・総武線', aliases: ['中央・総武線', 'JR総武線', '総武線', 'JR中央総武線', '中央総武線', 'JR総武線各駅停車'] },
+  { id: 'jr-keihin-tohoku', name: 'JR京浜東北線', aliases: ['京浜東北線', 'JR京浜東北・根岸線', '京浜東北・根岸線'] },
+  { id: 'jr-saikyo', name: 'JR埼京線', aliases: ['埼京線'] },
+  { id: 'jr-shonan-shinjuku', name: 'JR湘南新宿ライン', aliases: ['湘南新宿ライン'] },
+  { id: 'tokyo-metro-ginza', name: '東京メトロ銀座線', aliases: ['銀座線', 'メトロ銀座線', '地下鉄銀座線'] },
+  { id: 'tokyo-metro-marunouchi', name: '東京メトロ丸ノ内線', aliases: ['丸ノ内線', 'メトロ丸ノ内線', '地下鉄丸ノ内線', '丸の内線'] },
+  { id: 'tokyo-metro-hibiya', name: '東京メトロ日比谷線', aliases: ['日比谷線', 'メトロ日比谷線', '地下鉄日比谷線'] },
+  { id: 'tokyo-metro-tozai', name: '東京メトロ東西線', aliases: ['東西線', 'メトロ東西線', '地下鉄東西線'] },
+  { id: 'tokyo-metro-chiyoda', name: '東京メトロ千代田線', aliases: ['千代田線', 'メトロ千代田線', '地下鉄千代田線'] },
+  { id: 'tokyo-metro-yurakucho', name: '東京メトロ有楽町線', aliases: ['有楽町線', 'メトロ有楽町線', '地下鉄有楽町線'] },
+  { id: 'tokyo-metro-hanzomon', name: '東京メトロ半蔵門線', aliases: ['半蔵門線', 'メトロ半蔵門線', '地下鉄半蔵門線'] },
+  { id: 'tokyo-metro-namboku', name: '東京メトロ南北線', aliases: ['南北線', 'メトロ南北線', '地下鉄南北線'] },
+  { id: 'tokyo-metro-fukutoshin', name: '東京メトロ副都心線', aliases: ['副都心線', 'メトロ副都心線', '地下鉄副都心線'] },
+  { id: 'toei-asakusa', name: '都営浅草線', aliases: ['浅草線', '都営地下鉄浅草線'] },
+  { id: 'toei-mita', name: '都営三田線', aliases: ['三田線', '都営地下鉄三田線'] },
+  { id: 'toei-shinjuku', name: '都営新宿線', aliases: ['都営地下鉄新宿線'] },
+  { id: 'toei-oedo', name: '都営大江戸線', aliases: ['大江戸線', '都営地下鉄大江戸線'] },
+  { id: 'tokyu-toyoko', name: '東急東横線', aliases: ['東横線'] },
+  { id: 'tokyu-den-en-toshi', name: '東急田園都市線', aliases: ['田園都市線'] },
+  { id: 'tokyu-meguro', name: '東急目黒線', aliases: ['目黒線'] },
+  { id: 'tokyu-setagaya', name: '東急世田谷線', aliases: ['世田谷線'] },
+  { id: 'keio', name: '京王線', aliases: ['京王京王線'] },
+  { id: 'keio-inokashira', name: '京王井の頭線', aliases: ['井の頭線'] },
+  { id: 'odakyu', name: '小田急小田原線', aliases: ['小田急線', '小田原線'] },
+  { id: 'seibu-ikebukuro', name: '西武池袋線', aliases: ['池袋線'] },
+  { id: 'seibu-shinjuku', name: '西武新宿線', aliases: [] },
+  { id: 'tobu-tojo', name: '東武東上線', aliases: ['東上線', '東武東上本線'] },
+  { id: 'keikyu', name: '京急本線', aliases: ['京急線', '京浜急行本線', '京浜急行線'] },
+]
+
+/**
+ * 駅マスタ
+ *
+ * 山手線の全駅と、対象エリアの主要駅のみ収録（必要に応じて追加する）
+ */
+export const STATIONS: readonly Station[] = [
+  { id: 'tokyo', name: '東京', lineIds: ['jr-yamanote', 'jr-chuo-rapid', 'jr-keihin-tohoku', 'tokyo-metro-marunouchi'] },
+  { id: 'yurakucho', name: '有楽町', lineIds: ['jr-yamanote', 'jr-keihin-tohoku', 'tokyo-metro-yurakucho'] },
+  { id: 'shimbashi', name: '新橋', lineIds: ['jr-yamanote', 'jr-keihin-tohoku', 'tokyo-metro-ginza', 'toei-asakusa'] },
+  { id: 'hamamatsucho', name: '浜松町', lineIds: ['jr-yamanote', 'jr-keihin-tohoku'] },
+  { id: 'tamachi', name: '田町', lineIds: ['jr-yamanote', 'jr-keihin-tohoku'] },
+  { id: 'takanawa-gateway', name: '高輪ゲートウェイ', lineIds: ['jr-yamanote', 'jr-keihin-tohoku'] },
+  { id: 'shinagawa', name: '品川', lineIds: ['jr-yamanote', 'jr-keihin-tohoku', 'keikyu'] },
+  { id: 'osaki', name: '大崎', lineIds: ['jr-yamanote', 'jr-saikyo', 'jr-shonan-shinjuku'] },
+  { id: 'gotanda', name: '五反田', lineIds: ['jr-yamanote', 'toei-asakusa'] },
+  { id: 'meguro', name: '目黒', lineIds: ['jr-yamanote', 'tokyo-metro-namboku', 'toei-mita', 'tokyu-meguro'] },
+  { id: 'ebisu', name: '恵比寿', lineIds: ['jr-yamanote', 'jr-saikyo', 'jr-shonan-shinjuku', 'tokyo-metro-hibiya'] },
+  { id: 'shibuya', name: '渋谷', lineIds: ['jr-yamanote', 'jr-saikyo', 'jr-shonan-shinjuku', 'tokyo-metro-ginza', 'tokyo-metro-hanzomon', 'tokyo-metro-fukutoshin', 'tokyu-toyoko', 'tokyu-den-en-toshi', 'keio-inokashira'] },
+  { id: 'harajuku', name: '原宿', lineIds: ['jr-yamanote'] },
+  { id: 'yoyogi', name: '代々木', lineIds: ['jr-yamanote', 'jr-chuo-sobu', 'toei-oedo'] },
+  { id: 'shinjuku', name: '新宿', lineIds: ['jr-yamanote', 'jr-chuo-rapid', 'jr-chuo-sobu', 'jr-saikyo', 'jr-shonan-shinjuku', 'tokyo-metro-marunouchi', 'toei-shinjuku', 'toei-oedo', 'keio', 'odakyu'] },
+  { id: 'shin-okubo', name: '新大久保', lineIds: ['jr-yamanote'] },
+  { id: 'takadanobaba', name: '高田馬場', lineIds: ['jr-yamanote', 'tokyo-metro-tozai', 'seibu-shinjuku'] },
+  { id: 'mejiro', name: '目白', lineIds: ['jr-yamanote'] },
+  { id: 'ikebukuro', name: '池袋', lineIds: ['jr-yamanote', 'jr-saikyo', 'jr-shonan-shinjuku', 'tokyo-metro-marunouchi', 'tokyo-metro-yurakucho', 'tokyo-metro-fukutoshin', 'seibu-ikebukuro', 'tobu-tojo'] },
+  { id: 'otsuka', name: '大塚', lineIds: ['jr-yamanote'] },
+  { id: 'sugamo', name: '巣鴨', lineIds: ['jr-yamanote', 'toei-mita'] },
+  { id: 'komagome', name: '駒込', lineIds: ['jr-yamanote', 'tokyo-metro-namboku'] },
+  { id: 'tabata', name: '田端', lineIds: ['jr-yamanote', 'jr-keihin-tohoku'] },
+  { id: 'nishi-nippori', name: '西日暮里', lineIds: ['jr-yamanote', 'jr-keihin-tohoku', 'tokyo-metro-chiyoda'] },
+  { id: 'nippori', name: '日暮里', lineIds: ['jr-yamanote', 'jr-keihin-tohoku'] },
+  { id: 'uguisudani', name: '鶯谷', lineIds: ['jr-yamanote', 'jr-keihin-tohoku'] },
+  { id: 'ueno', name: '上野', lineIds: ['jr-yamanote', 'jr-keihin-tohoku', 'tokyo-metro-ginza', 'tokyo-metro-hibiya'] },
+  { id: 'okachimachi', name: '御徒町', lineIds: ['jr-yamanote', 'jr-keihin-tohoku'] },
+  { id: 'akihabara', name: '秋葉原', lineIds: ['jr-yamanote', 'jr-keihin-tohoku', 'jr-chuo-sobu', 'tokyo-metro-hibiya'] },
+  { id: 'kanda', name: '神田', lineIds: ['jr-yamanote', 'jr-chuo-rapid', 'jr-keihin-tohoku', 'tokyo-metro-ginza'] },
+  { id: 'omotesando', name: '表参道', lineIds: ['tokyo-metro-ginza', 'tokyo-metro-chiyoda', 'tokyo-metro-hanzomon'] },
+  { id: 'naka-meguro', name: '中目黒', lineIds: ['tokyu-toyoko', 'tokyo-metro-hibiya'] },
+  { id: 'daikanyama', name: '代官山', lineIds: ['tokyu-toyoko'] },
+  { id: 'yutenji', name: '祐天寺', lineIds: ['tokyu-toyoko'] },
+  { id: 'gakugei-daigaku', name: '学芸大学', lineIds: ['tokyu-toyoko'] },
+  { id: 'jiyugaoka', name: '自由が丘', lineIds: ['tokyu-toyoko'] },
+  { id: 'musashi-kosugi', name: '武蔵小杉', lineIds: ['tokyu-toyoko', 'tokyu-meguro'] },
+  { id: 'sangenjaya', name: '三軒茶屋', lineIds: ['tokyu-den-en-toshi', 'tokyu-setagaya'] },
+  { id: 'futako-tamagawa', name: '二子玉川', lineIds: ['tokyu-den-en-toshi'] },
+  { id: 'shimokitazawa', name: '下北沢', lineIds: ['odakyu', 'keio-inokashira'] },
+  { id: 'meidaimae', name: '明大前', lineIds: ['keio', 'keio-inokashira'] },
+  { id: 'sasazuka', name: '笹塚', lineIds: ['keio'] },
+  { id: 'kichijoji', name: '吉祥寺', lineIds: ['jr-chuo-rapid', 'jr-chuo-sobu', 'keio-inokashira'] },
+  { id: 'nakano', name: '中野', lineIds: ['jr-chuo-rapid', 'jr-chuo-sobu', 'tokyo-metro-tozai'] },
+  { id: 'koenji', name: '高円寺', lineIds: ['jr-chuo-rapid', 'jr-chuo-sobu'] },
+  { id: 'asagaya', name: '阿佐ケ谷', lineIds: ['jr-chuo-rapid', 'jr-chuo-sobu'] },
+  { id: 'ogikubo', name: '荻窪', lineIds: ['jr-chuo-rapid', 'jr-chuo-sobu', 'tokyo-metro-marunouchi'] },
+  { id: 'nakano-sakaue', name: '中野坂上', lineIds: ['tokyo-metro-marunouchi', 'toei-oedo'] },
+  { id: 'nishi-shinjuku', name: '西新宿', lineIds: ['tokyo-metro-marunouchi'] },
+  { id: 'tochomae', name: '都庁前', lineIds: ['toei-oedo'] },
+  { id: 'shinjuku-sanchome', name: '新宿三丁目', lineIds: ['tokyo-metro-marunouchi', 'tokyo-metro-fukutoshin', 'toei-shinjuku'] },
+  { id: 'otemachi', name: '大手町', lineIds: ['tokyo-metro-marunouchi', 'tokyo-metro-tozai', 'tokyo-metro-chiyoda', 'tokyo-metro-hanzomon', 'toei-mita'] },
+  { id: 'ginza', name: '銀座', lineIds: ['tokyo-metro-ginza', 'tokyo-metro-marunouchi', 'tokyo-metro-hibiya'] },
+  { id: 'roppongi', name: '六本木', lineIds: ['tokyo-metro-hibiya', 'toei-oedo'] },
+  { id: 'iidabashi', name: '飯田橋', lineIds: ['jr-chuo-sobu', 'tokyo-metro-tozai', 'tokyo-metro-yurakucho', 'tokyo-metro-namboku', 'toei-oedo'] },
+]
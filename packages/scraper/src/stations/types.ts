@@ -0,0 +1,19 @@
+/** 路線 */
+export interface RailLine {
+  /** 路線ID（例: jr-yamanote） */
+  id: string
+  /** 正式な表記（例: JR山手線） */
+  name: string
+  /** サイトごとの表記ゆれ（全角・半角の違いは正規化するため不要） */
+  aliases: string[]
+}
+
+/** 駅（乗り入れる路線をまとめて1駅とする） */
+export interface Station {
+  /** 駅ID（例: shibuya） */
+  id: string
+  /** 駅名（「駅」は含めない） */
+  name: string
+  /** 乗り入れる路線ID */
+  lineIds: string[]
+}
@@ -1,4 +1,5 @@
 import type { Property, PropertySource } from '@cat-home/shared'
+import type { FetchTransport } from './http/transport'
 
 /** スクレイピング設定 */
 export interface ScraperConfig {
@@ -12,8 +13,18 @@ export interface ScraperConfig {
   maxConcurrent: number
   /** 最大リトライ回数 */
   maxRetries: number
-  /** リトライ間隔（ミリ秒） */
+  /** リトライ間隔の初期値（ミリ秒）。試行ごとに倍増する */
   retryDelay: number
+  /** リトライ間隔の上限（ミリ秒）。Retry-After がこれを超える場合はリトライしない */
+  maxRetryDelay: number
+  /** この回数連続で失敗したら以降のリクエストを停止する（0 で無効） */
+  circuitBreakerThreshold: number
+  /** 一覧ページの最大取得ページ数 */
+  maxPages: number
+  /** HTTP リクエストの送信方法（省略時はネットワークに接続。記録・再生の切り替えに使用） */
+  transport?: FetchTransport
+  /** HTTP キャッシュの保存先ディレクトリ（指定時のみ条件付きリクエストを行う） */
+  cacheDir?: string
 }
 
 /** デフォルトのスクレイピング設定 */
@@ -26,6 +37,48 @@ export const DEFAULT_SCRAPER_CONFIG: ScraperConfig = {
   maxConcurrent: 1,
   maxRetries: 3,
   retryDelay: 10000,
+  maxRetryDelay: 60000,
+  circuitBreakerThreshold: 5,
+  maxPages: 50,
+}
+
+/**
+ * スクレイピング・保存エラーの種類
+ *
+ * - network: 接続エラー・タイムアウトなど（レスポンスなし）
+ * - http_status: 4xx / 5xx のレスポンス
+ * - blocked: アクセス制限・CAPTCHA ページ
+ * - robots_disallowed: robots.txt で禁止されている
+ * - parse_failure: HTML から必須項目を取得できない（field に項目名）
+ * - listing_gone: 物件ページが削除済み（404 / 410）
+ * - circuit_open: 連続失敗によりリクエストを停止した
+ * - database: DB への保存に失敗した
+ * - unknown: 上記以外
+ */
+export type ScrapeErrorCode =
+  | 'network'
+  | 'http_status'
+  | 'blocked'
+  | 'robots_disallowed'
+  | 'parse_failure'
+  | 'listing_gone'
+  | 'circuit_open'
+  | 'database'
+  | 'unknown'
+
+/** スクレイピング・保存エラー */
+export interface ScrapeError {
+  code: ScrapeErrorCode
+  /** エラー内容 */
+  message: string
+  /** 対象のURL */
+  url?: string
+  /** HTTP ステータス（http_status / listing_gone / blocked） */
+  status?: number
+  /** 取得できなかった項目（parse_failure） */
+  field?: string
+  /** 対象物件の external_id */
+  externalId?: string
 }
 
 /** スクレイピング結果 */
@@ -35,13 +88,46 @@ export interface ScrapeResult {
   /** 取得した物件（部分的なデータ） */
   properties: Partial<Property>[]
   /** エラー（あれば） */
-  error?: string
+  error?: ScrapeError
+  /** 前回取得時から変更がないか（詳細のみ。true の場合 properties は空） */
+  notModified?: boolean
+  /** 前回取得時から変更がなかったページの物件の external_id（一覧のみ） */
+  notModifiedExternalIds?: string[]
+  /** 取得できたページ数（一覧のみ） */
+  pages?: number
+  /** 取得に失敗したページ（一覧のみ） */
+  pageErrors?: ScrapeError[]
   /** スクレイピング元 */
   source: PropertySource
   /** 処理時間（ミリ秒） */
   duration: number
 }
 
+/** 取得率（カバレッジ）を計測する項目 */
+export type CoverageField =
+  | 'name'
+  | 'address'
+  | 'prefecture'
+  | 'rent'
+  | 'area'
+  | 'floorPlan'
+  | 'nearestStations'
+  | 'petConditions'
+
+/** 項目ごとの最低取得率（0〜1） */
+export type CoverageThresholds = Partial<Record<CoverageField, number>>
+
+/** 項目の取得に使用しているセレクタ（取得率レポートでの表示用） */
+export interface FieldSelector {
+  /** 一覧ページ */
+  list?: string
+  /** 詳細ページ */
+  detail?: string
+}
+
+/** 項目ごとのセレクタ */
+export type FieldSelectors = Partial<Record<CoverageField, FieldSelector>>
+
 /** スクレイパーインターフェース */
 export interface Scraper {
   /** データソース名 */
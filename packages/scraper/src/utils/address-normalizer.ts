@@ -0,0 +1,181 @@
+import { MUNICIPALITIES, PREFECTURES } from '../areas/catalog'
+
+/** 正規化した住所 */
+export interface NormalizedAddress {
+  /** 都道府県（住所に記載がなく推定もできない場合は空文字） */
+  prefecture: string
+  /** 市区町村（政令指定都市は市名、郡は含めない。例: 横浜市、渋谷区、余市町） */
+  city: string
+  /** 政令指定都市の区（例: 港北区） */
+  ward: string | null
+  /** 町域（丁目を除く。例: 日吉本町） */
+  town: string | null
+  /** 丁目・番地・号を半角数字のハイフン区切りにしたもの（例: 1-2-3） */
+  block: string | null
+}
+
+/** 政令指定都市 */
+const DESIGNATED_CITIES = [
+  '札幌市', '仙台市', 'さいたま市', '千葉市', '横浜市', '川崎市', '相模原市', '新潟市', '静岡市', '浜松市',
+  '名古屋市', '京都市', '大阪市', '堺市', '神戸市', '岡山市', '広島市', '北九州市', '福岡市', '熊本市',
+]
+
+/** 「市」「郡」を名前の途中に含み、正規表現では区切れない市 */
+const IRREGULAR_CITIES = ['四日市市', '廿日市市', '野々市市', '大和郡山市', '蒲郡市', '小郡市']
+
+const KANJI_DIGITS: Record<string, number> = {
+  〇: 0, 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+}
+const KANJI_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 }
+
+/** 丁目・番地の数字（半角数字、または後ろに丁目・番・号が続く漢数字） */
+const BLOCK_NUMBER = /\d+|[〇一二三四五六七八九十百千]+(?=丁目|番地|番(?!町)|号)/
+
+/**
+ * 住所を都道府県・市区町村・区・町域・番地に分割する
+ *
+ * 全角数字・漢数字の丁目や番地は半角数字に揃えるため、掲載サイトごとの表記の違いによらず
+ * 同じ物件は同じ値になる
+ *
+ * @example
+ * ```ts
+ * normalizeAddress('神奈川県横浜市港北区日吉本町一丁目２番３号')
+ * // => { prefecture: '神奈川県', city: '横浜市', ward: '港北区', town: '日吉本町', block: '1-2-3' }
+ * ```
+ */
+export function normalizeAddress(address: string): NormalizedAddress {
+  let rest = toHalfWidth(address).replace(/\s+/g, '')
+
+  let prefecture = PREFECTURES.find(p => rest.startsWith(p.name))?.name ?? ''
+  rest = rest.slice(prefecture.length)
+
+  const { city, ward, length } = matchCity(rest)
+  rest = rest.slice(length)
+
+  // 都道府県の記載がない場合は市区町村カタログから推定する
+  if (!prefecture && city) {
+    prefecture = inferPrefecture(city) ?? ''
+  }
+
+  const { town, block } = splitTownAndBlock(rest)
+
+  return { prefecture, city, ward, town, block }
+}
+
+/**
+ * 漢数字を数値に変換（例: 二十三 → 23、一〇 → 10）
+ */
+export function parseKanjiNumber(text: string): number | null {
+  if (!/^[〇一二三四五六七八九十百千]+$/.test(text)) {
+    return null
+  }
+
+  // 位取りなしの表記（一〇、二〇三 など）
+  if (!/[十百千]/.test(text)) {
+    return Number([...text].map(c => KANJI_DIGITS[c]).join(''))
+  }
+
+  let total = 0
+  let digit = 0
+  for (const c of text) {
+    if (c in KANJI_UNITS) {
+      total += (digit || 1) * KANJI_UNITS[c]
+      digit = 0
+    }
+    else {
+      digit = KANJI_DIGITS[c]
+    }
+  }
+  return total + digit
+}
+
+/**
+ * 全角英数字・記号を半角に変換し、ハイフンの表記を揃える
+ */
+function toHalfWidth(text: string): string {
+  return text
+    .replace(/[０-９Ａ-Ｚａ-ｚ]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xFEE0))
+    .replace(/[－‐−―ｰ]/g, '-')
+    // 数字の後の長音符はハイフンとして書かれたもの
+    .replace(/(\d)ー(?=\d)/g, '$1-')
+}
+
+/**
+ * 住所の先頭から市区町村（政令指定都市は区まで）を取り出す
+ */
+function matchCity(text: string): { city: string; ward: string | null; length: number } {
+  const designated = DESIGNATED_CITIES.find(c => text.startsWith(c))
+  if (designated) {
+    const ward = text.slice(designated.length).match(/^.+?区/)?.[0] ?? null
+    return { city: designated, ward, length: designated.length + (ward?.length ?? 0) }
+  }
+
+  const irregular = IRREGULAR_CITIES.find(c => text.startsWith(c))
+  if (irregular) {
+    return { city: irregular, ward: null, length: irregular.length }
+  }
+
+  // 郡部の町村（郡名は市区町村に含めない）
+  const county = text.match(/^(.{1,6}?郡)(.{1,6}?[町村])/)
+  if (county) {
+    return { city: county[2], ward: null, length: county[0].length }
+  }
+
+  // 市、または東京都の特別区
+  const city = text.match(/^.+?[市区]/)
+  if (city) {
+    return { city: city[0], ward: null, length: city[0].length }
+  }
+
+  // 島しょ部など郡に属さない町村
+  const town = text.match(/^.+?[町村]/)
+  if (town) {
+    return { city: town[0], ward: null, length: town[0].length }
+  }
+
+  return { city: '', ward: null, length: 0 }
+}
+
+/**
+ * 市区町村名が1つの都道府県にのみ存在する場合にその都道府県を返す
+ */
+function inferPrefecture(city: string): string | undefined {
+  const codes = new Set(MUNICIPALITIES.filter(m => m.name === city).map(m => m.code.slice(0, 2)))
+  if (codes.size !== 1) {
+    return undefined
+  }
+  const [code] = codes
+  return PREFECTURES.find(p => p.code === code)?.name
+}
+
+/**
+ * 市区町村より後ろを町域と丁目・番地に分割する
+ *
+ * 番地の後ろの建物名・部屋番号は含めない
+ */
+function splitTownAndBlock(text: string): { town: string | null; block: string | null } {
+  const start = text.search(BLOCK_NUMBER)
+  const townPart = (start === -1 ? text : text.slice(0, start)).replace(/^大字/, '')
+  const town = townPart || null
+  if (start === -1) {
+    return { town, block: null }
+  }
+
+  const numbers: number[] = []
+  let rest = text.slice(start)
+  while (numbers.length < 3) {
+    const match = rest.match(new RegExp(`^(${BLOCK_NUMBER.source})(丁目|番地|番|号|の|-)?`))
+    if (!match) {
+      break
+    }
+    numbers.push(/^\d+$/.test(match[1]) ? Number(match[1]) : parseKanjiNumber(match[1]) ?? 0)
+    // 「5番地の12」の「の」
+    rest = rest.slice(match[0].length).replace(/^の/, '')
+    // 区切りがない数字は番地の終わり（号の後ろの部屋番号など）
+    if (!match[2] || match[2] === '号') {
+      break
+    }
+  }
+
+  return { town, block: numbers.join('-') }
+}
@@ -0,0 +1,61 @@
+import type { BuildingType, Direction } from '@cat-home/shared'
+
+/** 向きの表記（「南東」が「南」「東」に一致しないよう2文字の向きを先に判定する） */
+const DIRECTIONS: [string, Direction][] = [
+  ['北東', 'northeast'],
+  ['南東', 'southeast'],
+  ['南西', 'southwest'],
+  ['北西', 'northwest'],
+  ['北', 'north'],
+  ['東', 'east'],
+  ['南', 'south'],
+  ['西', 'west'],
+]
+
+/**
+ * 万円単位の賃料テキストを円に変換
+ *
+ * 単位のない数値も万円として扱う
+ *
+ * 例: "12.5万円" → 125000, "11.5" → 115000, "-" → 0
+ */
+export function parseManYen(text: string): number {
+  const match = text.normalize('NFKC').match(/(\d+(?:\.\d+)?)/)
+  return match ? Math.round(parseFloat(match[1]) * 10000) : 0
+}
+
+/**
+ * 築年月テキストから築年を抽出
+ *
+ * 例: "2019年3月" → 2019, "築5年" → null
+ */
+export function parseYearBuilt(text: string): number | null {
+  const match = text.normalize('NFKC').match(/(\d{4})年/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * 建物種別テキストを BuildingType に変換
+ *
+ * 例: "マンション" → 'mansion', "テラスハウス" → 'terraced', "" → null
+ */
+export function parseBuildingType(text: string): BuildingType | null {
+  if (text.includes('マンション')) return 'mansion'
+  if (text.includes('アパート')) return 'apartment'
+  if (text.includes('一戸建て') || text.includes('戸建')) return 'house'
+  if (text.includes('テラスハウス') || text.includes('タウンハウス')) return 'terraced'
+  if (text) return 'other'
+  return null
+}
+
+/**
+ * 向きテキストを Direction に変換
+ *
+ * 例: "南" → 'south', "南東" → 'southeast'
+ */
+export function parseDirection(text: string): Direction | null {
+  for (const [jp, en] of DIRECTIONS) {
+    if (text.includes(jp)) return en
+  }
+  return null
+}
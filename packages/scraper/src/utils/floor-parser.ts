@@ -0,0 +1,41 @@
+/** 「10階建」「地上10階建」「地下1階地上5階建」「地上5階地下1階建」の地上階数 */
+const BUILDING_FLOORS_PATTERN = /(?:地上)?(\d+)階(?:地下\d+階)?建/
+
+/** 建物の階数の表記（所在階の抽出前に取り除く。地下・地上はどちらが先でもよい） */
+const BUILDING_PATTERN = /(?:地下\d+階)?(?:地上)?\d+階(?:地下\d+階)?建(?:て)?/g
+
+/** 「2-3階」「1~2階」などメゾネットの所在階 */
+const ROOM_RANGE_PATTERN = /(地下|B)?(\d+)[-~〜・]\d+(?:階|F)/
+
+/** 「2階」「地下1階」「B1階」「B1F」などの所在階 */
+const ROOM_FLOOR_PATTERN = /(地下|B)?(\d+)(?:階|F)/
+
+/**
+ * 建物の地上階数を抽出する
+ *
+ * 例: "RC / 10階建" → 10, "鉄筋コンクリート造 地下1階地上5階建" → 5, "2階" → null
+ */
+export function parseBuildingFloors(text: string): number | null {
+  const match = text.normalize('NFKC').match(BUILDING_FLOORS_PATTERN)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * 部屋の所在階を抽出する
+ *
+ * 地下は負の値で返す。メゾネットなど複数階にまたがる場合は下の階を返す。
+ * 「10階建 / 2階」のように建物の階数と並んでいる場合も所在階だけを取り出す
+ *
+ * 例: "2階" → 2, "地下1階" → -1, "B1" → -1, "10階建 / 2階" → 2, "2-3階" → 2, "10階建" → null
+ */
+export function parseRoomFloor(text: string): number | null {
+  const normalized = text.normalize('NFKC').toUpperCase().replace(/\s+/g, '').replace(BUILDING_PATTERN, '')
+  const match = normalized.match(ROOM_RANGE_PATTERN)
+    ?? normalized.match(ROOM_FLOOR_PATTERN)
+    ?? normalized.match(/^(B)(\d+)$/)
+  if (!match) {
+    return null
+  }
+  const floor = parseInt(match[2], 10)
+  return match[1] ? -floor : floor
+}
@@ -0,0 +1,72 @@
+import type { RoomSize, RoomType } from '@cat-home/shared'
+
+/** ワンルームを表す表記 */
+const ONE_ROOM_PATTERN = /^(?:1R|1ルーム|ワンルーム|ONEROOM)/
+
+/** 「2LDK」「2SLDK」「2LDK+S」「2LDK+納戸」などの表記 */
+const FLOOR_PLAN_PATTERN = /^(\d+)(S?)(LDK|LK|DK|K)(?:\+?(S|納戸|サービスルーム)(?![A-Z]))?/
+
+/** 「洋6」「和室6畳」「LDK12.5帖」などの部屋ごとの広さの表記 */
+const ROOM_SIZE_PATTERN = /(洋室?|和室?|LDK|DK|K|S|納戸|サービスルーム)\s?(\d+(?:\.\d+)?)(?:帖|畳|J)?/g
+
+/** 部屋の表記と種類の対応 */
+const ROOM_TYPES: Record<string, RoomType> = {
+  洋: 'western',
+  洋室: 'western',
+  和: 'japanese',
+  和室: 'japanese',
+  LDK: 'ldk',
+  DK: 'dk',
+  K: 'k',
+  S: 'storage',
+  納戸: 'storage',
+  サービスルーム: 'storage',
+}
+
+/**
+ * 間取りの表記を正規化する
+ *
+ * 全角・半角の違いをなくし、「1R」は「ワンルーム」、納戸・サービスルーム付きは「2SLDK」の形式にそろえる。
+ * 「+ロフト」などの付帯表記は除く。解釈できない場合は空白を除いた元の表記を返す
+ *
+ * @example
+ * ```ts
+ * normalizeFloorPlan('１ＬＤＫ') // => '1LDK'
+ * normalizeFloorPlan('1R') // => 'ワンルーム'
+ * normalizeFloorPlan('2LDK+納戸') // => '2SLDK'
+ * ```
+ */
+export function normalizeFloorPlan(text: string): string {
+  const normalized = text.normalize('NFKC').replace(/\s+/g, '').toUpperCase()
+  if (ONE_ROOM_PATTERN.test(normalized)) {
+    return 'ワンルーム'
+  }
+
+  const match = normalized.match(FLOOR_PLAN_PATTERN)
+  if (!match) {
+    return normalized
+  }
+
+  const hasStorage = match[2] === 'S' || match[4] !== undefined
+  return `${match[1]}${hasStorage ? 'S' : ''}${match[3]}`
+}
+
+/**
+ * 間取り詳細のテキストから部屋ごとの広さ（帖）を抽出する
+ *
+ * @param text - 間取り詳細のテキスト（例: '洋6 DK8'、'LDK12.5帖 洋室6帖 納戸3帖'）
+ *
+ * @example
+ * ```ts
+ * parseRoomSizes('洋6 DK8')
+ * // => [{ type: 'western', size: 6 }, { type: 'dk', size: 8 }]
+ * ```
+ */
+export function parseRoomSizes(text: string): RoomSize[] {
+  const normalized = text.normalize('NFKC').replace(/\s+/g, ' ').toUpperCase()
+  const rooms: RoomSize[] = []
+  for (const match of normalized.matchAll(ROOM_SIZE_PATTERN)) {
+    rooms.push({ type: ROOM_TYPES[match[1]], size: parseFloat(match[2]) })
+  }
+  return rooms
+}
@@ -1 +1,10 @@
+export { normalizeAddress, parseKanjiNumber } from './address-normalizer'
+export type { NormalizedAddress } from './address-normalizer'
 export { parsePetConditions } from './pet-condition-parser'
+export { parseMoneyTerm, parseYen } from './money-parser'
+export type { MoneyTerm, MoneyTermOptions } from './money-parser'
+export { normalizeFloorPlan, parseRoomSizes } from './floor-plan-normalizer'
+export { parseBuildingFloors, parseRoomFloor } from './floor-parser'
+export { parseBuildingType, parseDirection, parseManYen, parseYearBuilt } from './field-parsers'
+export { extractSchemaOrgNodes, findSchemaOrgListings, getSchemaTypes } from './schema-org'
+export type { SchemaOrgListing, SchemaOrgNode } from './schema-org'
@@ -0,0 +1,107 @@
+/** 敷金・礼金などの費用の条件 */
+export interface MoneyTerm {
+  /** 金額（円）。月数・割合で表記されている場合は賃料・基準額から計算した額 */
+  amount: number
+  /** 賃料の月数で表記されている場合の月数 */
+  months: number | null
+  /** ペット飼育時に追加される金額（円） */
+  petSurcharge: number | null
+  /** ペット飼育時に追加される月数 */
+  petSurchargeMonths: number | null
+}
+
+/** parseMoneyTerm のオプション */
+export interface MoneyTermOptions {
+  /** 賃料（円）。「Nヶ月」表記の計算に使用 */
+  rent?: number
+  /** 割合の基準額（円）。償却・敷引の「50%」表記の計算に使用 */
+  base?: number
+}
+
+/** 費用がないことを表す表記 */
+const NONE_PATTERN = /^(?:-+|－+|―+|なし|無し|無|不要|0円?|ゼロ)$/
+
+/** 「1ヶ月」「1.5ヵ月」「2か月分」などの月数表記 */
+const MONTHS_PATTERN = /(\d+(?:\.\d+)?)[ヶヵケかカ箇]月/
+
+/** 金額・月数の表記 */
+const AMOUNT_PATTERN = /\d[\d,]*(?:\.\d+)?(?:[ヶヵケかカ箇]月|万円|万|円)/
+
+/**
+ * 敷金・礼金・保証金・敷引・償却のテキストを解析する
+ *
+ * 金額・月数・割合の表記と、括弧書きのペット飼育時の追加分に対応する
+ *
+ * @param text - 費用のテキスト（例: '1ヶ月（ペット飼育時+1ヶ月）'、'30万円'、'なし'）
+ *
+ * @example
+ * ```ts
+ * parseMoneyTerm('1ヶ月（ペット飼育時+1ヶ月）', { rent: 85000 })
+ * // => { amount: 85000, months: 1, petSurcharge: 85000, petSurchargeMonths: 1 }
+ * ```
+ */
+export function parseMoneyTerm(text: string, options: MoneyTermOptions = {}): MoneyTerm {
+  const normalized = text.normalize('NFKC').replace(/\s+/g, '')
+  const term: MoneyTerm = { amount: 0, months: null, petSurcharge: null, petSurchargeMonths: null }
+  if (!normalized || NONE_PATTERN.test(normalized)) {
+    return term
+  }
+
+  // ペット飼育時の条件（「(ペット飼育時+1ヶ月)」など）を本体の金額から切り離す
+  const petIndex = normalized.indexOf('ペット')
+  const main = petIndex === -1 ? normalized : normalized.slice(0, petIndex).replace(/[(]$/, '')
+
+  const value = parseAmount(main, options)
+  term.amount = value.amount
+  term.months = value.months
+
+  const petClause = petIndex === -1 ? '' : normalized.slice(petIndex)
+  const petAmount = petClause.match(AMOUNT_PATTERN)
+  if (petAmount) {
+    const pet = parseAmount(petAmount[0], options)
+    // 「+1ヶ月」「1ヶ月追加」は追加分、「ペット飼育時2ヶ月」は合計の表記
+    const isSurcharge = /[+]|プラス|追加|増/.test(petClause)
+    term.petSurcharge = isSurcharge ? pet.amount : Math.max(0, pet.amount - term.amount)
+    term.petSurchargeMonths = pet.months === null
+      ? null
+      : isSurcharge ? pet.months : Math.max(0, pet.months - (term.months ?? 0))
+  }
+
+  return term
+}
+
+/**
+ * 円・万円表記の金額を円に変換する
+ *
+ * 例: "8.5万円" → 85000, "85,000円" → 85000, "なし" → 0
+ */
+export function parseYen(text: string): number {
+  const normalized = text.normalize('NFKC').replace(/\s+/g, '')
+  const match = normalized.match(/(\d[\d,]*(?:\.\d+)?)(万)?/)
+  if (!match || NONE_PATTERN.test(normalized)) {
+    return 0
+  }
+  const value = parseFloat(match[1].replace(/,/g, ''))
+  return Math.round(match[2] ? value * 10000 : value)
+}
+
+/**
+ * 月数・割合・金額のいずれかの表記を円に変換
+ */
+function parseAmount(text: string, options: MoneyTermOptions): { amount: number; months: number | null } {
+  // 「賃料の1ヶ月分」など
+  const months = text.match(MONTHS_PATTERN)
+  if (months && !/万|円/.test(text.slice(0, months.index))) {
+    const value = parseFloat(months[1])
+    return { amount: Math.round((options.rent ?? 0) * value), months: value }
+  }
+
+  // 「50%」「5割」など（償却・敷引は敷金・保証金に対する割合で書かれることがある）
+  const percent = text.match(/(\d+(?:\.\d+)?)%/) ?? text.match(/(\d+)割/)
+  if (percent) {
+    const ratio = text.includes('割') ? parseFloat(percent[1]) / 10 : parseFloat(percent[1]) / 100
+    return { amount: Math.round((options.base ?? 0) * ratio), months: null }
+  }
+
+  return { amount: parseYen(text), months: null }
+}
@@ -1,8 +1,78 @@
-import type { PetConditions } from '@cat-home/shared'
+import type { PetConditionEvidence, PetConditions, PetPermission } from '@cat-home/shared'
+import { parseKanjiNumber } from './address-normalizer'
+import { parseMoneyTerm } from './money-parser'
+
+/** 判定対象の動物 */
+type Animal = 'cat' | 'dog'
+
+/** 条件の区切り（「・」は「猫・小型犬可」のように動物を並べるため区切りにしない） */
+const CLAUSE_PATTERN = /[^、。,，/／()（）「」【】\s]+/g
+
+/** 動物の表記 */
+const ANIMAL_PATTERNS: Record<Animal, RegExp> = {
+  cat: /猫|ネコ|ねこ/,
+  dog: /犬|イヌ|いぬ|ドッグ/,
+}
+
+/** いずれかの動物の表記 */
+const ANY_ANIMAL_PATTERN = /猫|ネコ|ねこ|犬|イヌ|いぬ|ドッグ/
+
+/** 「猫」「猫・小型犬」「ペット」など可否の表記がない主語だけの区切り（「猫 不可」「猫、犬不可」の「猫」） */
+const BARE_SUBJECT_PATTERN = /^(?:(?:小型|中型|大型)?(?:猫|ネコ|ねこ|犬|イヌ|いぬ|ドッグ)|ペット|動物)(?:・(?:(?:小型|中型|大型)?(?:猫|ネコ|ねこ|犬|イヌ|いぬ|ドッグ)))*(?:飼育)?$/
+
+/** 「犬のみ」「猫1匹のみ」「小型犬限定」など飼育できる動物を限る記載 */
+const ONLY_PATTERN = /(?:猫|ネコ|ねこ|犬|イヌ|いぬ|ドッグ)(?:飼育|[\d〇一二三四五六七八九十]+(?:匹|頭))?(?:のみ|だけ|限定)/
+
+/** 「2匹まで」「二匹まで」「2頭以内」などの頭数制限 */
+const LIMIT_PATTERN = /([\d〇一二三四五六七八九十]+)(?:匹|頭)(?:まで|以内|以下|迄)/
+
+/** 可否の表記（不可は「可」を含むため先に判定する） */
+const PERMISSION_PATTERNS: [PetPermission, RegExp][] = [
+  ['forbidden', /不可|禁止|NG|厳禁|お断り|できません/],
+  ['negotiable', /相談/],
+  ['allowed', /可|OK|歓迎/],
+]
+
+/** 可否の判定の優先度（複数の記載がある場合は制限の強い方を採用する） */
+const PERMISSION_PRIORITY: Record<PetPermission, number> = {
+  unknown: 0,
+  allowed: 1,
+  negotiable: 2,
+  forbidden: 3,
+}
+
+/** 金額・月数の表記 */
+const AMOUNT_PATTERN = /(\d[\d,]*(?:\.\d+)?(?:万円|万|円)|\d+(?:\.\d+)?[ヶヵか]月分?)/
+
+/** 「ペット飼育料 月額3,000円」「ペット飼育費 3,000円/月」などの月額費用 */
+const MONTHLY_FEE_PATTERNS = [
+  new RegExp(`(?:ペット|飼育)[^。]{0,12}?(?:月額|毎月|月)[^\\d。敷礼償]{0,4}?${AMOUNT_PATTERN.source}`),
+  new RegExp(`(?:ペット|飼育)[^。]{0,12}?${AMOUNT_PATTERN.source}\\s*/\\s*月`),
+]
+
+/** 「敷金償却1ヶ月」「敷金1ヶ月償却」「1ヶ月(償却)」などの償却 */
+const AMORTIZATION_PATTERNS = [
+  new RegExp(`償却[:\\s]*${AMOUNT_PATTERN.source}`),
+  new RegExp(`${AMOUNT_PATTERN.source}\\s*\\(?償却`),
+]
+
+/** 「退去時クリーニング費3万円」「消毒費用20,000円」などの退去時の費用 */
+const CLEANING_FEE_PATTERN = new RegExp(`(?:クリーニング|清掃|消毒)[^。\\d]{0,10}?${AMOUNT_PATTERN.source}`)
+
+/** 条件文の1区切り */
+interface Clause {
+  text: string
+  start: number
+  end: number
+}
 
 /**
  * ペット条件のテキストを解析して PetConditions オブジェクトに変換する
  *
+ * 猫・犬それぞれについて可・相談・不可・記載なしを判定する。
+ * 「ペット可（猫不可）」のように動物ごとの記載がある場合はペット全般の記載より優先する。
+ * 判定の根拠となったテキストは evidence に位置とともに格納する
+ *
  * @param conditions - ペット条件のテキスト配列（例: ['猫飼育可（2匹まで）', '敷金1ヶ月追加']）
  * @param rentAmount - 家賃（円）。追加敷金の計算に使用
  * @param notes - 備考テキスト
@@ -10,8 +80,8 @@ import type { PetConditions } from '@cat-home/shared'
  *
  * @example
  * ```ts
- * const result = parsePetConditions(['猫飼育可（2匹まで）', '敷金1ヶ月追加'], 85000)
- * // => { catAllowed: true, catLimit: 2, dogAllowed: false, smallDogOnly: false, additionalDeposit: 85000, notes: null }
+ * const result = parsePetConditions(['ペット可（猫不可）'])
+ * // => { cat: 'forbidden', dog: 'allowed', catAllowed: false, dogAllowed: true, ... }
  * ```
  */
 export function parsePetConditions(
@@ -19,58 +89,190 @@ export function parsePetConditions(
   rentAmount?: number,
   notes?: string,
 ): PetConditions {
-  const joinedText = conditions.join(' ')
+  const joinedText = conditions.join(' ').normalize('NFKC')
+  const clauses = splitClauses(joinedText)
+  const evidence: PetConditionEvidence[] = []
+
+  const cat = judgePermission(clauses, 'cat', evidence)
+  const dog = judgePermission(clauses, 'dog', evidence)
+  const limits = extractLimits(clauses, evidence)
+  const additionalDeposit = extractAdditionalDeposit(joinedText, rentAmount, evidence)
+
+  // 費用は備考に書かれることも多いため、条件の後ろに備考を連結して探す
+  const costText = notes ? `${joinedText} ${notes.normalize('NFKC')}` : joinedText
+  const monthlyFee = extractCost(costText, MONTHLY_FEE_PATTERNS, 'monthlyFee', rentAmount, evidence)
+  const depositAmortization = extractCost(costText, AMORTIZATION_PATTERNS, 'depositAmortization', rentAmount, evidence)
+  const cleaningFee = extractCost(costText, [CLEANING_FEE_PATTERN], 'cleaningFee', rentAmount, evidence)
 
   return {
-    catAllowed: isCatAllowed(joinedText),
-    catLimit: extractCatLimit(joinedText),
-    dogAllowed: isDogAllowed(joinedText),
-    smallDogOnly: isSmallDogOnly(joinedText),
-    additionalDeposit: extractAdditionalDeposit(joinedText, rentAmount),
+    cat,
+    dog,
+    catAllowed: cat === 'allowed' || cat === 'negotiable',
+    catLimit: limits.cat,
+    dogAllowed: dog === 'allowed' || dog === 'negotiable',
+    dogLimit: limits.dog,
+    smallDogOnly: isSmallDogOnly(clauses, dog),
+    additionalDeposit,
+    monthlyFee,
+    depositAmortization,
+    cleaningFee,
     notes: notes ?? null,
+    evidence,
   }
 }
 
 /**
- * 猫飼育可かどうかを判定
+ * テキストを句読点・括弧・空白で区切り、位置とともに返す
+ *
+ * 「猫 相談」「猫、犬不可」の「猫」のように主語だけの区切りは、後ろの区切りとつなげて1つにする
  */
-function isCatAllowed(text: string): boolean {
-  // 「猫」を含む条件、または「ペット可」「ペット相談」
-  return /猫|ペット可|ペット相談/.test(text)
+function splitClauses(text: string): Clause[] {
+  const clauses: Clause[] = []
+  let pending: Clause | null = null
+
+  for (const match of text.matchAll(CLAUSE_PATTERN)) {
+    const end = match.index + match[0].length
+    const start: number = pending ? pending.start : match.index
+    const clause: Clause = { text: text.slice(start, end), start, end }
+    pending = null
+    if (BARE_SUBJECT_PATTERN.test(match[0])) {
+      pending = clause
+      continue
+    }
+    clauses.push(clause)
+  }
+  if (pending) {
+    clauses.push(pending)
+  }
+
+  return clauses
 }
 
 /**
- * 猫の頭数制限を抽出
+ * 指定位置より後ろで最初に出てくる可否の表記を判定
+ *
+ * 「猫可・犬不可」の犬のように、動物ごとに直後の表記を採用する
  */
-function extractCatLimit(text: string): number | null {
-  // 「猫N匹まで」「猫N頭まで」「（N匹まで）」のパターンを検出
-  const match = text.match(/猫[飼育可]*[（(]?(\d+)[匹頭]まで/)
-  if (match) {
-    return parseInt(match[1], 10)
+function findPermission(text: string, from = 0): PetPermission {
+  const rest = text.slice(from)
+  let found: { permission: PetPermission; index: number } | null = null
+  for (const [permission, pattern] of PERMISSION_PATTERNS) {
+    const match = rest.match(pattern)
+    if (match && (!found || match.index! < found.index)) {
+      found = { permission, index: match.index! }
+    }
   }
+  // 「2匹まで」だけの記載は飼育可として扱う
+  return found ? found.permission : LIMIT_PATTERN.test(rest) ? 'allowed' : 'unknown'
+}
+
+/**
+ * 動物ごとの可否を判定
+ *
+ * 動物を名指しした記載を優先し、次に「犬のみ」のように他の動物に限る記載、
+ * なければ「ペット可」などの全般の記載を採用する
+ */
+function judgePermission(clauses: Clause[], animal: Animal, evidence: PetConditionEvidence[]): PetPermission {
+  let specific: { permission: PetPermission; clause: Clause } | null = null
+  let otherOnly: Clause | null = null
+  let general: { permission: PetPermission; clause: Clause } | null = null
+
+  for (const clause of clauses) {
+    const mention = clause.text.match(ANIMAL_PATTERNS[animal])
+    const only = ONLY_PATTERN.test(clause.text)
+
+    if (mention) {
+      const after = mention.index! + mention[0].length
+      // 「猫以外」「猫を除く」は全般の可否にかかわらず不可
+      const excluded = /^(?:以外|を除く|除く)/.test(clause.text.slice(after))
+      let permission: PetPermission = excluded ? 'forbidden' : findPermission(clause.text, after)
+      // 「猫のみ」「猫1匹のみ」は可否の表記がなくても飼育可
+      if (permission === 'unknown' && only) {
+        permission = 'allowed'
+      }
+      // 「大型犬不可」は犬全般の不可ではないため、可否の判定には使わない
+      const sizeOnly = permission === 'forbidden' && /(?:大型|中型)$/.test(clause.text.slice(0, mention.index))
+      if (permission !== 'unknown' && !sizeOnly
+        && (!specific || PERMISSION_PRIORITY[permission] > PERMISSION_PRIORITY[specific.permission])) {
+        specific = { permission, clause }
+      }
+      continue
+    }
 
-  // 「猫飼育可（N匹まで）」のような括弧内のパターン
-  const bracketMatch = text.match(/猫[^）)]*[（(](\d+)[匹頭]まで[）)]/)
-  if (bracketMatch) {
-    return parseInt(bracketMatch[1], 10)
+    // 「ペット可（犬のみ）」の猫のように、他の動物に限る記載は名指しされていない動物を不可とする
+    if (only) {
+      otherOnly ??= clause
+      continue
+    }
+
+    // 「ペット可・猫不可」の「可」のように、ペットの後から動物の記載までを全般の可否とする
+    const pet = clause.text.match(/ペット|動物/)
+    if (pet) {
+      const rest = clause.text.slice(pet.index! + pet[0].length)
+      const animalIndex = rest.search(ANY_ANIMAL_PATTERN)
+      const permission = findPermission(animalIndex === -1 ? rest : rest.slice(0, animalIndex))
+      if (permission !== 'unknown' && (!general || PERMISSION_PRIORITY[permission] > PERMISSION_PRIORITY[general.permission])) {
+        general = { permission, clause }
+      }
+    }
   }
 
-  return null
+  const result = specific ?? (otherOnly ? { permission: 'forbidden' as const, clause: otherOnly } : general)
+  if (!result) {
+    return 'unknown'
+  }
+  evidence.push({ field: animal, text: result.clause.text, start: result.clause.start, end: result.clause.end })
+  return result.permission
 }
 
 /**
- * 犬飼育可かどうかを判定
+ * 頭数制限を抽出
+ *
+ * 動物の記載がない区切り（「猫飼育可（2匹まで）」の括弧内など）は直前に出てきた動物の制限として扱う
  */
-function isDogAllowed(text: string): boolean {
-  // 「犬」を含む条件、または「ペット可」「ペット相談」
-  return /犬|ペット可|ペット相談/.test(text)
+function extractLimits(clauses: Clause[], evidence: PetConditionEvidence[]): Record<Animal, number | null> {
+  const limits: Record<Animal, number | null> = { cat: null, dog: null }
+  let lastAnimal: Animal | null = null
+
+  for (const clause of clauses) {
+    const animals = (Object.keys(ANIMAL_PATTERNS) as Animal[]).filter(a => ANIMAL_PATTERNS[a].test(clause.text))
+    if (animals.length > 0) {
+      lastAnimal = animals[animals.length - 1]
+    }
+
+    const match = clause.text.match(LIMIT_PATTERN)
+    if (!match) {
+      continue
+    }
+    const limit = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : parseKanjiNumber(match[1])
+    const targets = animals.length > 0 ? animals : lastAnimal ? [lastAnimal] : []
+    for (const animal of targets) {
+      if (limit !== null && limits[animal] === null) {
+        limits[animal] = limit
+        evidence.push({
+          field: animal === 'cat' ? 'catLimit' : 'dogLimit',
+          text: clause.text,
+          start: clause.start,
+          end: clause.end,
+        })
+      }
+    }
+  }
+
+  return limits
 }
 
 /**
  * 小型犬のみかどうかを判定
  */
-function isSmallDogOnly(text: string): boolean {
-  return /小型犬/.test(text)
+function isSmallDogOnly(clauses: Clause[], dog: PetPermission): boolean {
+  if (dog === 'forbidden' || dog === 'unknown') {
+    return false
+  }
+  const sizes = clauses.flatMap(c => [...c.text.matchAll(/(小型|中型|大型)犬/g)]
+    .map(m => ({ size: m[1], permission: findPermission(c.text, m.index + m[0].length) })))
+    .filter(s => s.permission !== 'forbidden')
+  return sizes.some(s => s.size === '小型') && !sizes.some(s => s.size !== '小型')
 }
 
 /**
@@ -78,18 +280,46 @@ function isSmallDogOnly(text: string): boolean {
  */
 function extractAdditionalDeposit(
   text: string,
-  rentAmount?: number,
+  rentAmount: number | undefined,
+  evidence: PetConditionEvidence[],
 ): number | null {
   if (!rentAmount) {
     return null
   }
 
   // 「敷金Nヶ月追加」「敷金Nヶ月増」「敷金プラスNヶ月」のパターンを検出
-  const match = text.match(/敷金(?:プラス|\+)?(\d+)[ヶか]月[追加増]?/)
+  const match = text.match(/敷金(?:プラス|\+)?(\d+)[ヶか]月(?:追加|増)?/)
   if (match) {
+    evidence.push({ field: 'additionalDeposit', text: match[0], start: match.index!, end: match.index! + match[0].length })
     const months = parseInt(match[1], 10)
     return rentAmount * months
   }
 
   return null
 }
+
+/**
+ * ペット飼育に伴う費用を抽出
+ *
+ * 「1ヶ月」のような月数表記は家賃から計算する（家賃が不明な場合は null）
+ */
+function extractCost(
+  text: string,
+  patterns: RegExp[],
+  field: PetConditionEvidence['field'],
+  rentAmount: number | undefined,
+  evidence: PetConditionEvidence[],
+): number | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern)
+    if (!match) {
+      continue
+    }
+    const amount = parseMoneyTerm(match[1], { rent: rentAmount }).amount
+    if (amount > 0) {
+      evidence.push({ field, text: match[0], start: match.index!, end: match.index! + match[0].length })
+      return amount
+    }
+  }
+  return null
+}
@@ -0,0 +1,210 @@
+import * as cheerio from 'cheerio'
+
+/** JSON-LD・microdata から取り出した schema.org の項目（プロパティ名 → 値） */
+export type SchemaOrgNode = { [property: string]: unknown }
+
+/** 物件（部屋・建物）を表す schema.org の型 */
+const ACCOMMODATION_TYPES = new Set([
+  'Accommodation',
+  'Apartment',
+  'House',
+  'Residence',
+  'Room',
+  'SingleFamilyResidence',
+  'Suite',
+])
+
+/** microdata の要素 */
+type MicrodataElement = ReturnType<cheerio.CheerioAPI>
+
+/** 物件と募集条件の組み合わせ */
+export interface SchemaOrgListing {
+  /** 物件（Apartment など） */
+  item: SchemaOrgNode
+  /** 賃料などの募集条件（Offer） */
+  offer: SchemaOrgNode | null
+  /** 物件を包む掲載情報（RealEstateListing など。物件に記載がない名前・URLの補完に使用） */
+  listing: SchemaOrgNode | null
+}
+
+/**
+ * HTML に埋め込まれた JSON-LD と microdata から schema.org の項目を抽出する
+ *
+ * JSON-LD の配列・@graph は展開して返す。解析できない JSON-LD は無視する
+ *
+ * @example
+ * ```ts
+ * extractSchemaOrgNodes('<script type="application/ld+json">{"@type":"Apartment","name":"猫マンション"}</script>')
+ * // => [{ '@type': 'Apartment', name: '猫マンション' }]
+ * ```
+ */
+export function extractSchemaOrgNodes(html: string): SchemaOrgNode[] {
+  const $ = cheerio.load(html)
+  const nodes: SchemaOrgNode[] = []
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      nodes.push(...flattenGraph(JSON.parse($(el).text())))
+    }
+    catch {
+      // 末尾のカンマなど不正な JSON-LD を置いているサイトもあるため読み飛ばす
+    }
+  })
+
+  // 他の項目のプロパティになっていない microdata が最上位の項目
+  $('[itemscope]:not([itemprop])').each((_, el) => {
+    nodes.push(readMicrodata($, $(el)))
+  })
+
+  return nodes
+}
+
+/**
+ * schema.org の型名を返す
+ *
+ * "https://schema.org/Apartment" のような URL 表記は型名だけにする
+ */
+export function getSchemaTypes(node: SchemaOrgNode): string[] {
+  const type = node['@type']
+  return (Array.isArray(type) ? type : [type])
+    .filter((t): t is string => typeof t === 'string')
+    .map(t => t.replace(/^.*[/:#]/, ''))
+}
+
+/**
+ * schema.org の項目から物件と募集条件の組み合わせを探す
+ *
+ * 「Offer の itemOffered に Apartment」「Apartment の offers に Offer」
+ * 「RealEstateListing の offers の中に Apartment」のいずれの入れ子にも対応する
+ */
+export function findSchemaOrgListings(nodes: SchemaOrgNode[]): SchemaOrgListing[] {
+  const listings: SchemaOrgListing[] = []
+  for (const node of nodes) {
+    collectListings(node, null, null, listings)
+  }
+  return listings
+}
+
+/**
+ * プロパティの値を配列にして返す（単一の値・未設定も配列として扱う）
+ */
+export function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * プロパティの値をテキストとして返す
+ *
+ * 項目の場合は name・value の順で取り出す。複数ある場合は最初の値を使う
+ */
+export function getText(value: unknown): string {
+  const first = toArray(value)[0]
+  if (typeof first === 'string') {
+    return first.trim()
+  }
+  if (typeof first === 'number' || typeof first === 'boolean') {
+    return String(first)
+  }
+  if (isNode(first)) {
+    return getText(first.name ?? first.value)
+  }
+  return ''
+}
+
+/**
+ * 値が schema.org の項目（オブジェクト）かどうか
+ */
+export function isNode(value: unknown): value is SchemaOrgNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * JSON-LD の配列・@graph を展開
+ */
+function flattenGraph(data: unknown): SchemaOrgNode[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(flattenGraph)
+  }
+  if (!isNode(data)) {
+    return []
+  }
+  return Array.isArray(data['@graph']) ? data['@graph'].flatMap(flattenGraph) : [data]
+}
+
+/**
+ * 項目を辿って物件を集める
+ */
+function collectListings(
+  value: unknown,
+  offer: SchemaOrgNode | null,
+  listing: SchemaOrgNode | null,
+  listings: SchemaOrgListing[],
+): void {
+  if (Array.isArray(value)) {
+    value.forEach(v => collectListings(v, offer, listing, listings))
+    return
+  }
+  if (!isNode(value)) {
+    return
+  }
+
+  const types = getSchemaTypes(value)
+  if (types.some(t => ACCOMMODATION_TYPES.has(t))) {
+    const ownOffer = toArray(value.offers).find(isNode) ?? null
+    listings.push({ item: value, offer: ownOffer ?? offer, listing })
+    return
+  }
+
+  const isOffer = types.includes('Offer') || types.includes('AggregateOffer')
+  const isListing = types.includes('RealEstateListing')
+  for (const [key, child] of Object.entries(value)) {
+    if (!key.startsWith('@')) {
+      collectListings(child, isOffer ? value : offer, isListing ? value : listing, listings)
+    }
+  }
+}
+
+/**
+ * microdata の項目をオブジェクトに変換
+ *
+ * 同じプロパティが複数ある場合は配列にする
+ */
+function readMicrodata($: cheerio.CheerioAPI, $element: MicrodataElement): SchemaOrgNode {
+  const node: SchemaOrgNode = {}
+  const itemtype = $element.attr('itemtype')
+  if (itemtype) {
+    node['@type'] = itemtype.trim().split(/\s+/)
+  }
+
+  $element.find('[itemprop]').each((_, el) => {
+    const $prop = $(el)
+    // 入れ子の項目のプロパティは入れ子の項目側で読む
+    if (!$prop.parent().closest('[itemscope]').is($element)) {
+      return
+    }
+
+    const value = $prop.is('[itemscope]') ? readMicrodata($, $prop) : readMicrodataValue($prop)
+    for (const name of ($prop.attr('itemprop') ?? '').trim().split(/\s+/)) {
+      const current = node[name]
+      node[name] = current === undefined ? value : [...toArray(current), value]
+    }
+  })
+
+  return node
+}
+
+/**
+ * microdata のプロパティの値を取得（content・URL・日時の属性を優先）
+ */
+function readMicrodataValue($prop: MicrodataElement): string {
+  const value = $prop.attr('content')
+    ?? ($prop.is('a, link, area') ? $prop.attr('href') : undefined)
+    ?? ($prop.is('img, source, video, audio, iframe') ? $prop.attr('src') : undefined)
+    ?? ($prop.is('meta, data, meter') ? $prop.attr('value') : undefined)
+    ?? ($prop.is('time') ? $prop.attr('datetime') : undefined)
+    ?? $prop.text()
+  return value.replace(/\s+/g, ' ').trim()
+}
@@ -2,7 +2,7 @@
 export interface Property {
   /** 一意のID（UUID） */
   id: string
-  /** スクレイピング元のID */
+  /** スクレイピング元のID（source ごとに一意） */
   externalId: string
   /** データソース（SUUMO, HOMES等） */
   source: PropertySource
@@ -12,24 +12,48 @@ export interface Property {
   address: string
   /** 都道府県 */
   prefecture: string
-  /** 市区町村 */
+  /** 市区町村（政令指定都市は市名） */
   city: string
+  /** 政令指定都市の区 */
+  ward: string | null
+  /** 町域（丁目を除く） */
+  town: string | null
+  /** 丁目・番地・号（例: 1-2-3） */
+  block: string | null
+  /** 緯度 */
+  latitude: number | null
+  /** 経度 */
+  longitude: number | null
+  /** 緯度経度の精度 */
+  geocodePrecision: GeocodePrecision | null
   /** 賃料（円） */
   rent: number
   /** 管理費（円） */
   managementFee: number
   /** 敷金（円） */
   deposit: number
+  /** 敷金の月数（「Nヶ月」表記の場合） */
+  depositMonths: number | null
   /** 礼金（円） */
   keyMoney: number
-  /** 間取り */
+  /** 礼金の月数（「Nヶ月」表記の場合） */
+  keyMoneyMonths: number | null
+  /** 保証金（円） */
+  guaranteeDeposit: number
+  /** 敷引・償却（円） */
+  depositAmortization: number
+  /** 間取り（正規化済み。例: ワンルーム, 1LDK, 2SLDK） */
   floorPlan: string | null
+  /** 部屋ごとの広さ（間取り詳細の記載がある場合） */
+  roomSizes: RoomSize[]
   /** 専有面積（m²） */
   area: number | null
   /** 建物種別 */
   buildingType: BuildingType | null
-  /** 階数 */
+  /** 建物の階数（地上） */
   floors: number | null
+  /** 部屋の所在階（地下は負の値。例: 地下1階 → -1） */
+  roomFloor: number | null
   /** 築年 */
   yearBuilt: number | null
   /** 向き */
@@ -46,6 +70,8 @@ export interface Property {
   sourceUrl: string
   /** 掲載中フラグ */
   isActive: boolean
+  /** 他のサイトの同じ部屋の掲載と重複する場合の代表の物件ID（代表の物件・重複がない物件は null） */
+  canonicalId: string | null
   /** 初回発見日時 */
   firstSeenAt: string
   /** 最終確認日時 */
@@ -59,38 +85,105 @@ export interface Property {
 /** データソース */
 export type PropertySource = 'suumo' | 'homes' | 'athome' | 'door' | 'chintai' | 'nifty' | 'other'
 
+/**
+ * 緯度経度の精度
+ *
+ * - block: 丁目の代表点
+ * - town: 町域の代表点
+ * - city: 市区町村の代表点
+ */
+export type GeocodePrecision = 'block' | 'town' | 'city'
+
 /** 建物種別 */
 export type BuildingType = 'mansion' | 'apartment' | 'house' | 'terraced' | 'other'
 
 /** 向き */
 export type Direction = 'north' | 'northeast' | 'east' | 'southeast' | 'south' | 'southwest' | 'west' | 'northwest'
 
+/**
+ * ペット飼育の可否
+ *
+ * - allowed: 可
+ * - negotiable: 相談
+ * - forbidden: 不可
+ * - unknown: 記載なし
+ */
+export type PetPermission = 'allowed' | 'negotiable' | 'forbidden' | 'unknown'
+
 /** ペット条件 */
 export interface PetConditions {
-  /** 猫飼育可 */
+  /** 猫飼育の可否 */
+  cat: PetPermission
+  /** 犬飼育の可否 */
+  dog: PetPermission
+  /** 猫飼育可（相談を含む） */
   catAllowed: boolean
   /** 猫の頭数制限 */
   catLimit: number | null
-  /** 犬飼育可 */
+  /** 犬飼育可（相談を含む） */
   dogAllowed: boolean
+  /** 犬の頭数制限 */
+  dogLimit: number | null
   /** 小型犬のみ */
   smallDogOnly: boolean
   /** 追加敷金（円） */
   additionalDeposit: number | null
+  /** ペット飼育料（円/月） */
+  monthlyFee: number | null
+  /** ペット飼育時の敷金償却（円） */
+  depositAmortization: number | null
+  /** 退去時のクリーニング・消毒費用（円） */
+  cleaningFee: number | null
   /** 備考 */
   notes: string | null
+  /** 判定の根拠となったテキスト */
+  evidence: PetConditionEvidence[]
+}
+
+/** ペット条件の判定の根拠 */
+export interface PetConditionEvidence {
+  /** 判定した項目 */
+  field: 'cat' | 'dog' | 'catLimit' | 'dogLimit' | 'additionalDeposit' | 'monthlyFee' | 'depositAmortization' | 'cleaningFee'
+  /** 根拠となったテキスト */
+  text: string
+  /** 解析したテキスト（条件と備考を空白で連結したもの）の中の開始位置 */
+  start: number
+  /** 解析したテキストの中の終了位置 */
+  end: number
+}
+
+/**
+ * 部屋の種類
+ *
+ * - western: 洋室
+ * - japanese: 和室
+ * - ldk / dk / k: LDK・DK・キッチン
+ * - storage: 納戸・サービスルーム
+ */
+export type RoomType = 'western' | 'japanese' | 'ldk' | 'dk' | 'k' | 'storage'
+
+/** 部屋ごとの広さ */
+export interface RoomSize {
+  /** 部屋の種類 */
+  type: RoomType
+  /** 広さ（帖） */
+  size: number
 }
 
 /** 最寄り駅情報 */
 export interface NearestStation {
   /** 路線名 */
   line: string
-  /** 駅名 */
+  /** 駅名（「駅」は含めない） */
   station: string
-  /** 徒歩（分） */
+  /** 徒歩（分）。バスを利用する場合はバス停からの分数 */
   walkMinutes: number | null
   /** バス（分） */
   busMinutes: number | null
+  /** 路線ID（路線マスタにない場合は null） */
+  lineId: string | null
+  /** 駅ID（駅マスタにない場合は null） */
+  stationId: string | null
 }
 
 /** 物件検索条件 */
@@ -0,0 +1,13 @@
+-- 住所を正規化した区・町域・番地のカラムを追加
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS ward TEXT;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS town TEXT;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS block TEXT;
+
+-- コメント
+COMMENT ON COLUMN properties.city IS '市区町村（政令指定都市は市名、郡名は含めない）';
+COMMENT ON COLUMN properties.ward IS '政令指定都市の区';
+COMMENT ON COLUMN properties.town IS '町域（丁目を除く）';
+COMMENT ON COLUMN properties.block IS '丁目・番地・号（半角数字のハイフン区切り）';
+
+-- 区での絞り込み用インデックス
+CREATE INDEX IF NOT EXISTS idx_properties_city_ward ON properties(city, ward);
@@ -0,0 +1,15 @@
+-- 住所の代表点から求めた緯度経度のカラムを追加
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS geocode_precision TEXT
+  CHECK (geocode_precision IN ('block', 'town', 'city'));
+
+-- コメント
+COMMENT ON COLUMN properties.latitude IS '緯度';
+COMMENT ON COLUMN properties.longitude IS '経度';
+COMMENT ON COLUMN properties.geocode_precision IS '緯度経度の精度（block: 丁目, town: 町域, city: 市区町村の代表点）';
+
+-- 地図表示・距離検索用インデックス
+CREATE INDEX IF NOT EXISTS idx_properties_location ON properties(latitude, longitude);
+-- 未設定の物件を補完する際の検索用インデックス
+CREATE INDEX IF NOT EXISTS idx_properties_geocode_pending ON properties(id) WHERE geocode_precision IS NULL;
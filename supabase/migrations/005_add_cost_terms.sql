@@ -0,0 +1,11 @@
+-- 敷金・礼金の月数と保証金・敷引（償却）のカラムを追加
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS deposit_months NUMERIC(4, 2);
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS key_money_months NUMERIC(4, 2);
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS guarantee_deposit INTEGER DEFAULT 0;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS deposit_amortization INTEGER DEFAULT 0;
+
+-- コメント
+COMMENT ON COLUMN properties.deposit_months IS '敷金の月数（「Nヶ月」表記の場合）';
+COMMENT ON COLUMN properties.key_money_months IS '礼金の月数（「Nヶ月」表記の場合）';
+COMMENT ON COLUMN properties.guarantee_deposit IS '保証金（円）';
+COMMENT ON COLUMN properties.deposit_amortization IS '敷引・償却（円）';
@@ -0,0 +1,18 @@
+-- 部屋ごとの広さのカラムを追加し、既存の間取りを正規化した表記にそろえる
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS room_sizes JSONB DEFAULT '[]';
+
+-- コメント
+COMMENT ON COLUMN properties.room_sizes IS '部屋ごとの広さ [{type, size}]（size は帖）';
+
+-- 全角の英数字を半角に変換
+UPDATE properties
+SET floor_plan = translate(floor_plan, '０１２３４５６７８９ＳＬＤＫＲ', '0123456789SLDKR')
+WHERE floor_plan ~ '[０-９ＳＬＤＫＲ]';
+
+-- 1R はワンルームに統一
+UPDATE properties SET floor_plan = 'ワンルーム' WHERE floor_plan IN ('1R', '1ルーム');
+
+-- 納戸・サービスルーム付きは 2SLDK の形式に統一
+UPDATE properties
+SET floor_plan = regexp_replace(floor_plan, '^(\d+)(LDK|LK|DK|K)\+?(S|納戸|サービスルーム).*$', '\1S\2')
+WHERE floor_plan ~ '^\d+(LDK|LK|DK|K)\+?(S|納戸|サービスルーム)';
@@ -0,0 +1,14 @@
+-- 建物の階数のカラムを追加し、floor を部屋の所在階として使う
+-- これまで floor には建物の階数（N階建）が入っていたため、building_floors に移して floor は次回の取得で埋め直す
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS building_floors INTEGER;
+
+UPDATE properties
+SET building_floors = floor, floor = NULL
+WHERE building_floors IS NULL AND floor IS NOT NULL;
+
+-- コメント
+COMMENT ON COLUMN properties.floor IS '部屋の所在階（地下は負の値）';
+COMMENT ON COLUMN properties.building_floors IS '建物の階数（地上）';
+
+-- 1階を避ける検索用インデックス
+CREATE INDEX IF NOT EXISTS idx_properties_floor ON properties(floor);
@@ -0,0 +1,9 @@
+-- 複数のサイトに掲載された同じ部屋をまとめるため、代表の物件への参照を追加する
+-- 代表の物件と重複のない物件は NULL。一覧には canonical_id が NULL の物件だけを表示する
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS canonical_id UUID REFERENCES properties(id) ON DELETE SET NULL;
+
+-- コメント
+COMMENT ON COLUMN properties.canonical_id IS '同じ部屋の代表の物件ID（代表の物件・重複のない物件は NULL）';
+
+-- 一覧の絞り込みと、代表の物件から他のサイトの掲載を引く検索用インデックス
+CREATE INDEX IF NOT EXISTS idx_properties_canonical_id ON properties(canonical_id);
@@ -0,0 +1,62 @@
+-- 物件の識別をデータソースと external_id の組にする
+-- external_id はサイトごとの物件番号のため、別のサイトの番号と重なると無関係な物件を上書きしていた
+
+-- =============================================
+-- 既存データの確認
+-- =============================================
+
+-- 同じデータソース・external_id の物件が複数ある場合は一意制約を作成できないため中止する
+DO $$
+DECLARE
+  duplicates TEXT;
+BEGIN
+  SELECT string_agg(format('%s/%s (%s件)', source, external_id, count), ', ')
+  INTO duplicates
+  FROM (
+    SELECT source, external_id, COUNT(*) AS count
+    FROM properties
+    GROUP BY source, external_id
+    HAVING COUNT(*) > 1
+  ) AS d;
+
+  IF duplicates IS NOT NULL THEN
+    RAISE EXCEPTION '同じ source と external_id の物件があります: %', duplicates;
+  END IF;
+END $$;
+
+-- 別のサイトの物件に上書きされた可能性のある物件（データソースと元URLのサイトが一致しない物件）を報告する
+-- 自動では修正しないため、報告された物件は削除して次回の取得で登録し直す
+DO $$
+DECLARE
+  mismatched INTEGER;
+  samples TEXT;
+BEGIN
+  SELECT COUNT(*), string_agg(format('%s (%s/%s: %s)', id, source, external_id, source_url), E'\n  ')
+  INTO mismatched, samples
+  FROM (
+    SELECT id, source, external_id, source_url
+    FROM properties
+    WHERE (source = 'suumo' AND source_url NOT LIKE 'https://suumo.jp/%')
+       OR (source = 'homes' AND source_url NOT LIKE 'https://www.homes.co.jp/%')
+       OR (source = 'athome' AND source_url NOT LIKE 'https://www.athome.co.jp/%')
+       OR (source = 'door' AND source_url NOT LIKE 'https://door.ac/%')
+       OR (source = 'chintai' AND source_url NOT LIKE 'https://www.chintai.net/%')
+       OR (source = 'nifty' AND source_url NOT LIKE 'https://myhome.nifty.com/%')
+    ORDER BY source, external_id
+  ) AS m;
+
+  IF mismatched > 0 THEN
+    RAISE WARNING 'データソースと元URLが一致しない物件が % 件あります:%  %', mismatched, E'\n', samples;
+  END IF;
+END $$;
+
+-- =============================================
+-- 一意制約の変更
+-- =============================================
+
+ALTER TABLE properties DROP CONSTRAINT IF EXISTS properties_external_id_key;
+ALTER TABLE properties DROP CONSTRAINT IF EXISTS properties_source_external_id_key;
+ALTER TABLE properties ADD CONSTRAINT properties_source_external_id_key UNIQUE (source, external_id);
+
+-- コメント
+COMMENT ON COLUMN properties.external_id IS 'スクレイピング元サイトでの物件ID（source ごとに一意）';